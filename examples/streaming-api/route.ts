@@ -12,10 +12,10 @@
 import { NextRequest } from 'next/server';
 import {
   query,
-  isAssistantMessage,
+  isStreamEvent,
   isResultMessage,
   isErrorMessage,
-  extractText,
+  extractTextDelta,
 } from '@bugzy-ai/sandbox-agent-sdk';
 
 export const runtime = 'nodejs';
@@ -52,6 +52,8 @@ export async function POST(request: NextRequest) {
           options: {
             model: model || 'claude-sonnet-4-20250514',
             systemPrompt,
+            // Stream text deltas as Claude generates them
+            includePartialMessages: true,
           },
           // Use snapshot for faster cold starts in production
           snapshotId: process.env['CLAUDE_SANDBOX_SNAPSHOT_ID'],
@@ -62,9 +64,9 @@ export async function POST(request: NextRequest) {
 
         // Stream messages by iterating over the Query generator
         for await (const message of q) {
-          if (isAssistantMessage(message)) {
+          if (isStreamEvent(message)) {
             // Send text chunks as they arrive
-            const text = extractText(message);
+            const text = extractTextDelta(message);
             if (text) {
               sendEvent('text', { text });
             }
@@ -2,10 +2,12 @@
  * Vercel Claude Client
  *
  * A stateful client for multi-turn conversations with Claude.
- * Maintains conversation history and supports session management.
+ * Maintains conversation history and resumes the CLI's own session
+ * between turns.
  */
 
 import { SandboxTransport } from './transport/index.js';
+import { cliSessionIdFrom } from './sessions/index.js';
 import {
   SDKMessage,
   isAssistantMessage,
@@ -14,7 +16,8 @@ import {
   generateSessionId,
 } from './types/messages.js';
 import { ClientOptions, Options } from './types/options.js';
-import { SandboxError } from './types/errors.js';
+import { SandboxError, CLIExecutionError, ValidationError } from './types/errors.js';
+import { usageFromResult } from './usage.js';
 
 export interface ConversationMessage {
   role: 'user' | 'assistant';
@@ -34,6 +37,26 @@ export interface SessionInfo {
   messageCount: number;
   totalTokens: { input: number; output: number };
   totalCostUsd: number;
+  /** CLI session ID used to resume the next turn, if any */
+  cliSessionId: string | null;
+}
+
+/**
+ * Reject options that need the host tool bridge, which only query() runs.
+ *
+ * @throws {ValidationError} naming the unsupported option
+ */
+function assertClientOptions(options: Partial<Options>): void {
+  if (options.canUseTool) {
+    throw new ValidationError('VercelClaudeClient does not route permission prompts to canUseTool; use query() instead', {
+      option: 'canUseTool',
+    });
+  }
+  if (options.hooks && Object.values(options.hooks).some((matchers) => matchers && matchers.length > 0)) {
+    throw new ValidationError('VercelClaudeClient does not run agent hooks; use query() instead', {
+      option: 'hooks',
+    });
+  }
 }
 
 /**
@@ -65,11 +88,13 @@ export class VercelClaudeClient {
   private conversationHistory: ConversationMessage[] = [];
   private isConnected = false;
   private sessionId: string | null = null;
+  private cliSessionId: string | null = null;
   private sessionStartedAt: Date | null = null;
   private totalTokens = { input: 0, output: 0 };
   private totalCostUsd = 0;
 
   constructor(options: ClientOptions = {}) {
+    assertClientOptions(options);
     this.transport = new SandboxTransport();
     this.options = {
       model: 'claude-sonnet-4-20250514',
@@ -92,10 +117,22 @@ export class VercelClaudeClient {
       apiKey: this.options.env?.['ANTHROPIC_API_KEY'],
       snapshotId: this.options.snapshotId,
       timeout: this.options.timeout,
+      provider: this.options.provider,
+      pool: this.options.pool,
+      cliVersion: this.options.cliVersion,
+      logger: this.options.logger,
+      tracer: this.options.tracer,
+      retry: this.options.retry,
+      messageValidation: this.options.messageValidation,
+      onSchemaDrift: this.options.onSchemaDrift,
+      maxLineLength: this.options.maxLineLength,
+      diagnosticBufferSize: this.options.diagnosticBufferSize,
     });
 
     this.isConnected = true;
     this.sessionId = generateSessionId();
+    // CLI sessions live in the sandbox; a new sandbox starts without one
+    this.cliSessionId = null;
     this.sessionStartedAt = new Date();
   }
 
@@ -104,79 +141,35 @@ export class VercelClaudeClient {
    * Conversation history is maintained automatically.
    */
   async chat(message: string, options?: Partial<Options>): Promise<string> {
-    if (!this.isConnected) {
-      await this.connect();
-    }
-
-    // Build the prompt with conversation history
-    const fullPrompt = this.buildPromptWithHistory(message);
-
-    // Add user message to history
-    this.conversationHistory.push({
-      role: 'user',
-      content: message,
-      timestamp: new Date(),
-    });
-
-    const startTime = Date.now();
     let responseText = '';
-    let tokens = { input: 0, output: 0 };
-    let costUsd = 0;
-
-    // Stream the response
-    const mergedOptions: Options = {
-      ...this.options,
-      ...options,
-    };
-
-    for await (const sdkMessage of this.transport.startSession(fullPrompt, mergedOptions)) {
+    for await (const sdkMessage of this.chatStream(message, options)) {
       if (isAssistantMessage(sdkMessage)) {
         responseText += extractText(sdkMessage);
       }
-      if (isResultMessage(sdkMessage) && sdkMessage.subtype === 'success') {
-        // Support both old and new field names
-        tokens = {
-          input: sdkMessage.usage?.total_input_tokens ?? sdkMessage.tokens_in ?? 0,
-          output: sdkMessage.usage?.total_output_tokens ?? sdkMessage.tokens_out ?? 0,
-        };
-        costUsd = sdkMessage.usage?.total_cost_usd ?? sdkMessage.total_cost_usd ?? sdkMessage.cost_usd ?? 0;
-      }
     }
-
-    const durationMs = Date.now() - startTime;
-
-    // Add assistant response to history
-    this.conversationHistory.push({
-      role: 'assistant',
-      content: responseText,
-      timestamp: new Date(),
-      metadata: {
-        tokens,
-        costUsd,
-        durationMs,
-      },
-    });
-
-    // Update totals
-    this.totalTokens.input += tokens.input;
-    this.totalTokens.output += tokens.output;
-    this.totalCostUsd += costUsd;
-
     return responseText;
   }
 
   /**
    * Stream messages from a conversation turn.
+   *
+   * Follow-up turns resume the CLI session from the previous turn with
+   * --resume, so Claude sees the full transcript (including tool calls)
+   * without resending it. If no CLI session is available, or resuming
+   * fails before any output, the history is replayed in the prompt instead.
    */
   async *chatStream(
     message: string,
     options?: Partial<Options>
   ): AsyncGenerator<SDKMessage, void, undefined> {
+    if (options) {
+      assertClientOptions(options);
+    }
     if (!this.isConnected) {
       await this.connect();
     }
 
-    const fullPrompt = this.buildPromptWithHistory(message);
+    const history = [...this.conversationHistory];
 
     this.conversationHistory.push({
       role: 'user',
@@ -194,22 +187,44 @@ export class VercelClaudeClient {
     let costUsd = 0;
     const startTime = Date.now();
 
-    for await (const sdkMessage of this.transport.startSession(fullPrompt, mergedOptions)) {
-      if (isAssistantMessage(sdkMessage)) {
-        responseText += extractText(sdkMessage);
-      }
-      if (isResultMessage(sdkMessage) && sdkMessage.subtype === 'success') {
-        tokens = {
-          input: sdkMessage.usage?.total_input_tokens ?? sdkMessage.tokens_in ?? 0,
-          output: sdkMessage.usage?.total_output_tokens ?? sdkMessage.tokens_out ?? 0,
-        };
-        costUsd = sdkMessage.usage?.total_cost_usd ?? sdkMessage.total_cost_usd ?? sdkMessage.cost_usd ?? 0;
+    const resumeId = this.options.nativeResume === false ? null : this.cliSessionId;
+    let attempt = resumeId
+      ? this.transport.startSession(message, { ...mergedOptions, resume: resumeId })
+      : this.transport.startSession(this.buildPromptWithHistory(history, message), mergedOptions);
+    let resuming = resumeId !== null;
+
+    while (true) {
+      try {
+        for await (const sdkMessage of attempt) {
+          resuming = false;
+          this.captureCliSessionId(sdkMessage);
+
+          if (isAssistantMessage(sdkMessage)) {
+            responseText += extractText(sdkMessage);
+          }
+          if (isResultMessage(sdkMessage) && sdkMessage.subtype === 'success') {
+            // Priced from the token counts when the CLI omits the cost
+            const usage = usageFromResult(sdkMessage, mergedOptions.model, mergedOptions.pricing);
+            tokens = { input: usage.total_input_tokens, output: usage.total_output_tokens };
+            costUsd = usage.total_cost_usd;
+          }
+          yield sdkMessage;
+        }
+        break;
+      } catch (error) {
+        // The CLI session is gone (e.g. expired); fall back to replaying history
+        if (!resuming || !(error instanceof CLIExecutionError)) {
+          throw error;
+        }
+        resuming = false;
+        this.cliSessionId = null;
+        attempt = this.transport.startSession(this.buildPromptWithHistory(history, message), mergedOptions);
       }
-      yield sdkMessage;
     }
 
     const durationMs = Date.now() - startTime;
 
+    // Add assistant response to history
     this.conversationHistory.push({
       role: 'assistant',
       content: responseText,
@@ -217,22 +232,33 @@ export class VercelClaudeClient {
       metadata: { tokens, costUsd, durationMs },
     });
 
+    // Update totals
     this.totalTokens.input += tokens.input;
     this.totalTokens.output += tokens.output;
     this.totalCostUsd += costUsd;
   }
 
+  /**
+   * Remember the CLI's own session ID from init/result messages.
+   */
+  private captureCliSessionId(message: SDKMessage): void {
+    const cliSessionId = cliSessionIdFrom(message, this.transport.sessionId);
+    if (cliSessionId) {
+      this.cliSessionId = cliSessionId;
+    }
+  }
+
   /**
    * Build a prompt that includes conversation history.
-   * This enables multi-turn conversations.
+   * Used when there is no CLI session to resume.
    */
-  private buildPromptWithHistory(newMessage: string): string {
-    if (this.conversationHistory.length === 0) {
+  private buildPromptWithHistory(history: ConversationMessage[], newMessage: string): string {
+    if (history.length === 0) {
       return newMessage;
     }
 
     // Format conversation history
-    const historyText = this.conversationHistory
+    const historyText = history
       .map((msg) => {
         const role = msg.role === 'user' ? 'Human' : 'Assistant';
         return `${role}: ${msg.content}`;
@@ -247,6 +273,7 @@ export class VercelClaudeClient {
    */
   clearHistory(): void {
     this.conversationHistory = [];
+    this.cliSessionId = null;
   }
 
   /**
@@ -270,6 +297,7 @@ export class VercelClaudeClient {
       messageCount: this.conversationHistory.length,
       totalTokens: { ...this.totalTokens },
       totalCostUsd: this.totalCostUsd,
+      cliSessionId: this.cliSessionId,
     };
   }
 
@@ -317,6 +345,7 @@ export class VercelClaudeClient {
     await this.transport.close();
     this.isConnected = false;
     this.sessionId = null;
+    this.cliSessionId = null;
     this.sessionStartedAt = null;
   }
 
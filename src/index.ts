@@ -77,6 +77,9 @@ export type {
   AccountInfo,
 } from './query-generator.js';
 
+// Structured output helpers
+export { parseOutput, extractJson } from './output.js';
+
 // ============================================================================
 // Client
 // ============================================================================
@@ -96,6 +99,15 @@ export {
   errorResult,
 } from './tools/tool.js';
 export { createSdkMcpServer, handleToolCall } from './tools/mcp-server.js';
+export { createMcpHttpHandler } from './tools/mcp-http.js';
+export type { McpHttpHandler, McpHttpHandlerOptions } from './tools/mcp-http.js';
+export {
+  ToolBridge,
+  DEFAULT_BRIDGE_SERVER_NAME,
+  PERMISSION_PROMPT_TOOL_NAME,
+  createPermissionPromptTool,
+} from './tools/bridge.js';
+export type { ToolBridgeOptions } from './tools/bridge.js';
 export type {
   ToolDefinition,
   ToolResult,
@@ -113,14 +125,120 @@ export {
   getFinalResult,
   SandboxContextImpl,
   createSandboxContext,
+  CassetteRecorder,
+  ReplaySandboxInstance,
+  loadCassette,
+  saveCassette,
+  installClaudeCli,
+  ensureClaudeCli,
+  detectCliVersion,
+  isTransientApiError,
+  parseNDJSONStream,
+  NDJSONLineSplitter,
+  RingBuffer,
+} from './transport/index.js';
+
+export type {
+  CassetteOptions,
+  Cassette,
+  CassetteSession,
+  CassetteEvent,
+  RetryPolicy,
+  RetryInfo,
+  RetryOperation,
+  NDJSONParserOptions,
 } from './transport/index.js';
 
+// ============================================================================
+// Sandbox Providers
+// ============================================================================
+
+export {
+  VercelSandboxProvider,
+  VercelSandboxInstance,
+  LocalSandboxProvider,
+  LocalSandboxInstance,
+  resolveProvider,
+} from './providers/index.js';
+export type {
+  SandboxProvider,
+  SandboxProviderSpec,
+  SandboxInstance,
+  SandboxCommand,
+  SandboxCreateOptions,
+  RunCommandOptions,
+  DetachedCommandParams,
+  CommandLog,
+  InstanceSnapshot,
+  ProviderSnapshotInfo,
+  LocalSandboxProviderOptions,
+} from './providers/index.js';
+
+// ============================================================================
+// Session Persistence
+// ============================================================================
+
+export {
+  MemorySessionStore,
+  FileSessionStore,
+  exportTranscript,
+  importTranscript,
+} from './sessions/index.js';
+export type { SessionStore } from './sessions/index.js';
+
+// ============================================================================
+// Testing Utilities
+// ============================================================================
+
+export {
+  FakeSandboxProvider,
+  FakeSandboxInstance,
+  fakeClaudeRun,
+  isClaudeRun,
+} from './testing/index.js';
+export type {
+  FakeSandboxProviderOptions,
+  FakeCommandScript,
+  RecordedCommand,
+  RecordedFileWrite,
+} from './testing/index.js';
+
 // ============================================================================
 // Sandbox Utilities
 // ============================================================================
 
-export { createSnapshot, restoreFromSnapshot } from './sandbox/snapshot.js';
+export {
+  createSnapshot,
+  restoreFromSnapshot,
+  restoreSandboxSnapshot,
+  createCustomSnapshot,
+  createCustomSandboxSnapshot,
+} from './sandbox/snapshot.js';
 export { mountGitHubRepo, writeFiles, readFile } from './sandbox/file-system.js';
+export { SandboxPool } from './sandbox/pool.js';
+export type { SandboxPoolOptions, SandboxPoolStats, ReleaseOptions } from './sandbox/pool.js';
+
+// ============================================================================
+// Logging
+// ============================================================================
+
+export { silentLogger, createConsoleLogger, withLogFields } from './logger.js';
+export type { Logger, LogLevel, LogFields, ConsoleLoggerOptions } from './logger.js';
+
+// ============================================================================
+// Tracing
+// ============================================================================
+
+export { SpanNames } from './tracing.js';
+export type { Tracer, Span, SpanOptions, SpanAttributes, SpanAttributeValue } from './tracing.js';
+
+// ============================================================================
+// Usage and Pricing
+// ============================================================================
+
+export { emptyUsage, addUsage, usageFromResult } from './usage.js';
+export { DEFAULT_PRICING, getModelPricing, computeCost, estimateCost } from './pricing.js';
+export type { ModelPricing, PricingTable, CostEstimate } from './pricing.js';
 
 // ============================================================================
 // Message Types (aligned with official SDK)
@@ -136,8 +254,11 @@ export type {
   AssistantMessage,
   ResultMessage,
   ToolUseMessage,
+  ToolResultMessage,
   ProgressMessage,
   ErrorMessage,
+  StreamEventMessage,
+  UnknownMessage,
 
   // SDK-prefixed aliases (official SDK naming)
   SDKSystemMessage,
@@ -145,8 +266,11 @@ export type {
   SDKAssistantMessage,
   SDKResultMessage,
   SDKToolUseMessage,
+  SDKToolResultMessage,
   SDKProgressMessage,
   SDKErrorMessage,
+  SDKPartialAssistantMessage,
+  SDKUnknownMessage,
 
   // Content types
   Message,
@@ -156,6 +280,10 @@ export type {
   ToolResultBlock,
   ContentBlock,
 
+  // Streaming types
+  StreamEvent,
+  ContentBlockDelta,
+
   // Usage types
   UsageInfo,
   ModelUsage,
@@ -171,13 +299,36 @@ export {
   isAssistantMessage,
   isResultMessage,
   isToolUseMessage,
+  isToolResultMessage,
   isProgressMessage,
   isErrorMessage,
+  isStreamEvent,
+  isUnknownMessage,
   extractText,
+  extractTextDelta,
   generateUuid,
   generateSessionId,
+  createUserMessage,
 } from './types/messages.js';
 
+// Runtime message schemas
+export {
+  messageSchemas,
+  contentBlockSchema,
+  systemMessageSchema,
+  userMessageSchema,
+  assistantMessageSchema,
+  resultMessageSchema,
+  toolUseMessageSchema,
+  toolResultMessageSchema,
+  progressMessageSchema,
+  errorMessageSchema,
+  streamEventMessageSchema,
+  isKnownMessageType,
+  validateMessage,
+} from './types/schemas.js';
+export type { MessageValidationMode, SchemaDrift } from './types/schemas.js';
+
 // ============================================================================
 // Options Types
 // ============================================================================
@@ -194,6 +345,14 @@ export type {
   SandboxTransportOptions,
   ClaudeModel,
   PermissionMode,
+  PermissionResult,
+  CanUseTool,
+  HookEvent,
+  HookInput,
+  BaseHookInput,
+  HookJSONOutput,
+  HookCallback,
+  HookCallbackMatcher,
 
   // Setup & Hooks types
   SandboxContext,
@@ -227,3 +386,4 @@ export {
   isSandboxError,
   wrapError,
 } from './types/errors.js';
+export type { TimeoutPhase, ParseErrorReason } from './types/errors.js';
@@ -0,0 +1,114 @@
+/**
+ * Logging
+ *
+ * The SDK logs through an injectable Logger. Nothing is printed unless a
+ * logger is supplied, so prompts and CLI output never reach serverless logs
+ * by accident.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log entry, e.g. sessionId and sandboxId.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger accepted by the SDK. Compatible with most structured loggers
+ * through a thin adapter (pino, winston, console).
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface ConsoleLoggerOptions {
+  /**
+   * Minimum level to print.
+   * @default 'info'
+   */
+  level?: LogLevel;
+
+  /**
+   * Fields added to every entry.
+   */
+  fields?: LogFields;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Logger that discards everything. The SDK default.
+ */
+export const silentLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+/**
+ * Logger printing to the console with a `[claude-agent-sdk]` prefix.
+ *
+ * @example
+ * ```typescript
+ * query({ prompt, options: { logger: createConsoleLogger({ level: 'debug' }) } });
+ * ```
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const threshold = LEVELS[options.level ?? 'info'];
+  const baseFields = options.fields ?? {};
+
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LEVELS[level] < threshold) {
+      return;
+    }
+    const entry = { ...baseFields, ...fields };
+    const line = `[claude-agent-sdk] ${message}`;
+    if (Object.keys(entry).length > 0) {
+      console[level](line, entry);
+    } else {
+      console[level](line);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Wrap a logger so every entry carries `fields`. Fields given at the call
+ * site take precedence; undefined and null fields are dropped.
+ */
+export function withLogFields(logger: Logger, fields: LogFields): Logger {
+  const bound = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined && value !== null)
+  );
+
+  const write = (level: LogLevel) => (message: string, extra?: LogFields) => {
+    logger[level](message, { ...bound, ...extra });
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Convert an error to loggable fields.
+ */
+export function errorFields(error: unknown): LogFields {
+  if (error instanceof Error) {
+    return { error: error.message, errorName: error.name };
+  }
+  return { error: String(error) };
+}
@@ -0,0 +1,89 @@
+/**
+ * Structured Output
+ *
+ * Instructs the model to answer with JSON matching a Zod schema, and
+ * extracts and validates that JSON from the final result.
+ */
+
+import { z } from 'zod';
+import { ToolSchema, zodToJsonSchema } from './tools/types.js';
+import { ValidationError } from './types/errors.js';
+
+/**
+ * System prompt section asking for a JSON answer matching `schema`.
+ */
+export function buildOutputInstructions(schema: ToolSchema): string {
+  return `## Output Format
+
+When you have finished the task, reply with your final answer as a single JSON object in a \`\`\`json code block.
+The object MUST match this JSON Schema:
+
+\`\`\`json
+${JSON.stringify(zodToJsonSchema(schema), null, 2)}
+\`\`\`
+
+Do not include any other JSON code blocks in your final answer.`;
+}
+
+/**
+ * Find the JSON answer in the model's final text: the last ```json block,
+ * else the whole text, else the outermost braces.
+ *
+ * @throws {ValidationError} if no JSON can be parsed
+ */
+export function extractJson(text: string): unknown {
+  const blocks = [...text.matchAll(/```(?:json)?\s*\n([\s\S]*?)\n?```/g)].map((match) => match[1] ?? '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  const candidates = [...blocks.reverse(), text.trim(), start >= 0 && end > start ? text.slice(start, end + 1) : ''];
+
+  for (const candidate of candidates) {
+    if (!candidate.trim()) {
+      continue;
+    }
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new ValidationError('No JSON object found in the final result', { text });
+}
+
+/**
+ * Extract the JSON answer from `text` and validate it against `schema`.
+ *
+ * @throws {ValidationError} with the schema issues in `details.issues`
+ */
+export function parseOutput<TSchema extends ToolSchema>(schema: TSchema, text: string): z.infer<TSchema> {
+  const parsed = schema.safeParse(extractJson(text));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => ({
+      path: issue.path.map(String).join('.'),
+      message: issue.message,
+    }));
+    throw new ValidationError(
+      `Output does not match the schema: ${issues.map(formatIssue).join('; ')}`,
+      { issues, text }
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Follow-up prompt asking the model to correct an invalid answer.
+ */
+export function buildOutputRetryPrompt(error: ValidationError): string {
+  const issues = (error.details?.['issues'] as Array<{ path: string; message: string }> | undefined) ?? [];
+  const problems = issues.length > 0 ? issues.map((issue) => `- ${formatIssue(issue)}`).join('\n') : `- ${error.message}`;
+
+  return `Your final answer could not be used:
+${problems}
+
+Reply again with only the corrected JSON object in a \`\`\`json code block, matching the required schema.`;
+}
+
+function formatIssue(issue: { path: string; message: string }): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
@@ -0,0 +1,124 @@
+/**
+ * Model Pricing
+ *
+ * Per-model token rates used to price usage when the CLI does not report a
+ * cost, and to estimate the cost of a prompt before running it.
+ */
+
+import { UsageInfo } from './types/messages.js';
+import { ClaudeModel, Options } from './types/options.js';
+
+/**
+ * Rates for one model, in USD per million tokens.
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Prompt cache writes */
+  cacheWrite: number;
+  /** Prompt cache reads */
+  cacheRead: number;
+}
+
+/**
+ * Pricing by model ID. Keys may also be a model family ('opus', 'sonnet',
+ * 'haiku'), which prices any model ID containing it.
+ */
+export type PricingTable = Partial<Record<ClaudeModel, ModelPricing>>;
+
+/** Model the CLI runs when none is configured */
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+/** Rough characters per token for English text and code */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Anthropic list prices for the models the SDK knows about.
+ */
+export const DEFAULT_PRICING: Readonly<Record<string, ModelPricing>> = {
+  'claude-opus-4-20250514': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  opus: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  haiku: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+const FAMILIES = ['opus', 'sonnet', 'haiku'] as const;
+
+/**
+ * Rates for a model: an exact match in `overrides` or the defaults, then
+ * its family, then the default model. Every model ID therefore gets a
+ * price, so custom IDs are priced consistently.
+ */
+export function getModelPricing(model: string | undefined, overrides: PricingTable = {}): ModelPricing {
+  const table: Record<string, ModelPricing | undefined> = { ...DEFAULT_PRICING, ...overrides };
+  const id = model ?? DEFAULT_MODEL;
+
+  const exact = table[id];
+  if (exact) {
+    return exact;
+  }
+
+  const family = FAMILIES.find((name) => id.toLowerCase().includes(name));
+  return (family && table[family]) || table[DEFAULT_MODEL] || DEFAULT_PRICING[DEFAULT_MODEL]!;
+}
+
+/**
+ * Price token usage per model. Models whose cost was reported keep it;
+ * the rest are priced from their token counts.
+ */
+export function computeCost(usage: Pick<UsageInfo, 'modelUsage'>, pricing?: PricingTable): number {
+  let total = 0;
+  for (const [model, entry] of Object.entries(usage.modelUsage)) {
+    if (entry.cost_usd !== undefined) {
+      total += entry.cost_usd;
+      continue;
+    }
+    const rates = getModelPricing(model, pricing);
+    total +=
+      (entry.input_tokens * rates.input +
+        entry.output_tokens * rates.output +
+        (entry.cache_creation_input_tokens ?? 0) * rates.cacheWrite +
+        (entry.cache_read_input_tokens ?? 0) * rates.cacheRead) /
+      1_000_000;
+  }
+  return total;
+}
+
+/**
+ * Pre-flight cost estimate for a prompt.
+ */
+export interface CostEstimate {
+  model: string;
+  /** Approximate input tokens of the prompt, system prompt and tool descriptions */
+  inputTokens: number;
+  /** Cost of those input tokens in USD */
+  inputCostUsd: number;
+}
+
+/**
+ * Estimate the input cost of sending `prompt` with `options`, at roughly
+ * four characters per token. This is a lower bound: it excludes output,
+ * the CLI's own system prompt, and the context added by later turns.
+ */
+export function estimateCost(prompt: string, options: Options = {}): CostEstimate {
+  const text = [
+    prompt,
+    options.systemPrompt,
+    options.appendSystemPrompt,
+    ...(options.tools ?? []).map((tool) => `${tool.name}: ${tool.description}`),
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const model = options.model ?? DEFAULT_MODEL;
+  const inputTokens = Math.ceil(text.length / CHARS_PER_TOKEN);
+
+  return {
+    model,
+    inputTokens,
+    inputCostUsd: (inputTokens * getModelPricing(model, options.pricing).input) / 1_000_000,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Sandbox Provider Exports
+ */
+
+import { Sandbox } from '@vercel/sandbox';
+import { SandboxProvider, SandboxInstance } from './types.js';
+import { VercelSandboxProvider, VercelSandboxInstance } from './vercel-provider.js';
+import { LocalSandboxProvider } from './local-provider.js';
+
+export type {
+  SandboxProvider,
+  SandboxInstance,
+  SandboxCommand,
+  SandboxCreateOptions,
+  RunCommandOptions,
+  DetachedCommandParams,
+  CommandLog,
+  InstanceSnapshot,
+  ProviderSnapshotInfo,
+} from './types.js';
+
+export {
+  VercelSandboxProvider,
+  VercelSandboxInstance,
+  VERCEL_WORKING_DIRECTORY,
+} from './vercel-provider.js';
+
+export { LocalSandboxProvider, LocalSandboxInstance } from './local-provider.js';
+export type { LocalSandboxProviderOptions } from './local-provider.js';
+
+/**
+ * A provider instance, or the name of a built-in provider.
+ */
+export type SandboxProviderSpec = SandboxProvider | 'vercel' | 'local';
+
+/**
+ * Resolve a provider spec to a provider instance.
+ * Defaults to the Vercel provider.
+ */
+export function resolveProvider(spec?: SandboxProviderSpec): SandboxProvider {
+  if (!spec || spec === 'vercel') {
+    return new VercelSandboxProvider();
+  }
+  if (spec === 'local') {
+    return new LocalSandboxProvider();
+  }
+  return spec;
+}
+
+/**
+ * Normalize a raw Vercel Sandbox or a SandboxInstance to a SandboxInstance.
+ * Lets the helpers keep accepting Vercel sandboxes directly.
+ */
+export function toSandboxInstance(sandbox: Sandbox | SandboxInstance): SandboxInstance {
+  return sandbox instanceof Sandbox ? new VercelSandboxInstance(sandbox) : sandbox;
+}
@@ -0,0 +1,353 @@
+/**
+ * Local Sandbox Provider
+ *
+ * Runs the Claude CLI as a child process on the host, inside a temporary
+ * workspace directory. Useful for fast, offline iteration on prompts and
+ * tools without Vercel credentials.
+ *
+ * NOTE: This provides no isolation. The CLI runs with the permissions of
+ * the host process.
+ */
+
+import { spawn, ChildProcess } from 'node:child_process';
+import { constants as osConstants, tmpdir } from 'node:os';
+import { cp, mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, resolve } from 'node:path';
+import { CommandResult } from '../types/options.js';
+import { SandboxError } from '../types/errors.js';
+import { generateUuid } from '../types/messages.js';
+import { VERCEL_WORKING_DIRECTORY } from './vercel-provider.js';
+import {
+  SandboxProvider,
+  SandboxInstance,
+  SandboxCommand,
+  SandboxCreateOptions,
+  RunCommandOptions,
+  DetachedCommandParams,
+  CommandLog,
+  InstanceSnapshot,
+} from './types.js';
+
+export interface LocalSandboxProviderOptions {
+  /**
+   * Path to the Claude CLI executable on the host.
+   * @default 'claude'
+   */
+  cliPath?: string;
+
+  /**
+   * Directory in which temporary workspaces are created.
+   * @default os.tmpdir()
+   */
+  baseDirectory?: string;
+
+  /**
+   * Directory where local snapshots are stored.
+   * @default `${os.tmpdir()}/claude-sandbox-snapshots`
+   */
+  snapshotDirectory?: string;
+
+  /**
+   * Keep the workspace directory on disk after stop() (useful for debugging).
+   * @default false
+   */
+  keepWorkspace?: boolean;
+}
+
+/**
+ * Exit code for a process terminated by a signal (128 + signal number).
+ */
+function signalExitCode(signal: NodeJS.Signals | null): number {
+  if (!signal) {
+    return 1;
+  }
+  return 128 + (osConstants.signals[signal] ?? 0);
+}
+
+/**
+ * SandboxCommand backed by a host child process.
+ * Output is buffered until logs() consumes it, so no chunks are lost.
+ */
+class LocalSandboxCommand implements SandboxCommand {
+  private pending: CommandLog[] = [];
+  private waiters: Array<() => void> = [];
+  private finished = false;
+  private exitPromise: Promise<{ exitCode: number }>;
+
+  constructor(private child: ChildProcess) {
+    child.stdout?.setEncoding('utf-8');
+    child.stderr?.setEncoding('utf-8');
+    child.stdout?.on('data', (data: string) => this.push({ stream: 'stdout', data }));
+    child.stderr?.on('data', (data: string) => this.push({ stream: 'stderr', data }));
+    // Write failures (e.g. EPIPE after exit) surface through writeStdin()
+    child.stdin?.on('error', () => {});
+
+    this.exitPromise = new Promise((resolvePromise) => {
+      child.on('error', (error) => {
+        this.push({ stream: 'stderr', data: `${error.message}\n` });
+        this.finish();
+        resolvePromise({ exitCode: 127 });
+      });
+      child.on('close', (code, signal) => {
+        this.finish();
+        resolvePromise({ exitCode: code ?? signalExitCode(signal) });
+      });
+    });
+  }
+
+  private push(log: CommandLog): void {
+    this.pending.push(log);
+    this.notify();
+  }
+
+  private finish(): void {
+    this.finished = true;
+    this.notify();
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const wake of waiters) {
+      wake();
+    }
+  }
+
+  async *logs(): AsyncGenerator<CommandLog, void, undefined> {
+    while (true) {
+      const next = this.pending.shift();
+      if (next) {
+        yield next;
+        continue;
+      }
+      if (this.finished) {
+        return;
+      }
+      await new Promise<void>((wake) => this.waiters.push(wake));
+    }
+  }
+
+  wait(): Promise<{ exitCode: number }> {
+    return this.exitPromise;
+  }
+
+  async kill(signal: string = 'SIGTERM'): Promise<void> {
+    if (!this.finished) {
+      this.child.kill(signal as NodeJS.Signals);
+    }
+  }
+
+  async writeStdin(data: string): Promise<void> {
+    const stdin = this.child.stdin;
+    if (!stdin || stdin.writableEnded) {
+      throw new SandboxError('Command stdin is not open');
+    }
+    await new Promise<void>((resolvePromise, reject) => {
+      stdin.write(data, (error) => (error ? reject(new SandboxError('Failed to write to stdin', error)) : resolvePromise()));
+    });
+  }
+
+  async closeStdin(): Promise<void> {
+    this.child.stdin?.end();
+  }
+}
+
+/**
+ * SandboxInstance backed by a temporary directory on the host.
+ *
+ * Paths under `/vercel/sandbox` (in file operations, cwd and command
+ * arguments) are mapped into the workspace so agent code written for the
+ * Vercel provider runs unchanged. Relative paths resolve against the
+ * workspace; other absolute paths are used as-is.
+ *
+ * Commands run with `CLAUDE_CONFIG_DIR` set to a private directory, so the
+ * CLI's session transcripts and state stay out of the host's `~/.claude`.
+ */
+export class LocalSandboxInstance implements SandboxInstance {
+  readonly sandboxId: string;
+
+  constructor(
+    readonly workingDirectory: string,
+    /** CLAUDE_CONFIG_DIR for commands run in this instance */
+    readonly configDirectory: string,
+    private provider: LocalSandboxProvider,
+    private cliPath: string,
+    private keepWorkspace: boolean
+  ) {
+    this.sandboxId = `local_${generateUuid()}`;
+  }
+
+  /**
+   * Map a sandbox path to a host path.
+   */
+  resolvePath(path: string): string {
+    return isAbsolute(path) ? this.mapVercelPath(path) : resolve(this.workingDirectory, path);
+  }
+
+  /**
+   * Rewrite a `/vercel/sandbox` prefix to the workspace directory.
+   */
+  private mapVercelPath(value: string): string {
+    if (value === VERCEL_WORKING_DIRECTORY || value.startsWith(`${VERCEL_WORKING_DIRECTORY}/`)) {
+      return join(this.workingDirectory, value.slice(VERCEL_WORKING_DIRECTORY.length));
+    }
+    return value;
+  }
+
+  private spawnProcess(
+    cmd: string,
+    args: string[],
+    options: RunCommandOptions,
+    stdin: boolean = false
+  ): ChildProcess {
+    const mappedArgs = args.map((arg) => this.mapVercelPath(arg));
+    return spawn(cmd === 'claude' ? this.cliPath : cmd, mappedArgs, {
+      cwd: this.resolvePath(options.cwd ?? this.workingDirectory),
+      env: { ...process.env, CLAUDE_CONFIG_DIR: this.configDirectory, ...options.env },
+      stdio: [stdin ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+    });
+  }
+
+  async runCommand(
+    cmd: string,
+    args: string[] = [],
+    options: RunCommandOptions = {}
+  ): Promise<CommandResult> {
+    const command = new LocalSandboxCommand(this.spawnProcess(cmd, args, options));
+
+    let stdout = '';
+    let stderr = '';
+    for await (const log of command.logs()) {
+      if (log.stream === 'stdout') {
+        stdout += log.data;
+      } else {
+        stderr += log.data;
+      }
+    }
+
+    const { exitCode } = await command.wait();
+    return { exitCode, stdout, stderr };
+  }
+
+  async runDetached(params: DetachedCommandParams): Promise<SandboxCommand> {
+    return new LocalSandboxCommand(this.spawnProcess(params.cmd, params.args ?? [], params, params.stdin));
+  }
+
+  async writeFiles(files: Array<{ path: string; content: string | Buffer }>): Promise<void> {
+    for (const file of files) {
+      const target = this.resolvePath(file.path);
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, file.content);
+    }
+  }
+
+  async readFile(path: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolvePath(path));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async mkdir(path: string): Promise<void> {
+    await mkdir(this.resolvePath(path), { recursive: true });
+  }
+
+  async snapshot(): Promise<InstanceSnapshot> {
+    const snapshot = await this.provider.saveSnapshot(this.workingDirectory, this.configDirectory);
+    await this.stop();
+    return snapshot;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.keepWorkspace) {
+      await rm(this.workingDirectory, { recursive: true, force: true });
+      await rm(this.configDirectory, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Provider that runs the Claude CLI on the host machine.
+ *
+ * @example
+ * ```typescript
+ * const q = query({ prompt: 'List the files here', provider: 'local' });
+ *
+ * // Or with options
+ * const q2 = query({
+ *   prompt: 'Hello!',
+ *   provider: new LocalSandboxProvider({ cliPath: '/opt/claude/bin/claude' }),
+ * });
+ * ```
+ */
+export class LocalSandboxProvider implements SandboxProvider {
+  readonly name = 'local';
+
+  /**
+   * The CLI is taken from the host, so it is never installed by the transport.
+   */
+  readonly managesCli = true;
+
+  private cliPath: string;
+  private baseDirectory: string;
+  private snapshotDirectory: string;
+  private keepWorkspace: boolean;
+
+  constructor(options: LocalSandboxProviderOptions = {}) {
+    this.cliPath = options.cliPath ?? 'claude';
+    this.baseDirectory = options.baseDirectory ?? tmpdir();
+    this.snapshotDirectory = options.snapshotDirectory ?? join(tmpdir(), 'claude-sandbox-snapshots');
+    this.keepWorkspace = options.keepWorkspace ?? false;
+  }
+
+  async create(_options: SandboxCreateOptions = {}): Promise<SandboxInstance> {
+    // Runtime and timeout have no meaning for a host process
+    const workspace = await mkdtemp(join(this.baseDirectory, 'claude-sandbox-'));
+    const configDirectory = await mkdtemp(join(this.baseDirectory, 'claude-config-'));
+    return new LocalSandboxInstance(workspace, configDirectory, this, this.cliPath, this.keepWorkspace);
+  }
+
+  async restore(snapshotId: string, options: SandboxCreateOptions = {}): Promise<SandboxInstance> {
+    const source = this.snapshotPath(snapshotId);
+    try {
+      await stat(source);
+    } catch {
+      throw new SandboxError(`Local snapshot not found: ${snapshotId}`);
+    }
+
+    const instance = (await this.create(options)) as LocalSandboxInstance;
+    await cp(join(source, 'workspace'), instance.workingDirectory, { recursive: true });
+    // Bring back the CLI's sessions and state so restored runs can resume them
+    await cp(join(source, 'config'), instance.configDirectory, { recursive: true });
+    return instance;
+  }
+
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    await rm(this.snapshotPath(snapshotId), { recursive: true, force: true });
+  }
+
+  /**
+   * Copy a workspace and its CLAUDE_CONFIG_DIR into the snapshot directory,
+   * as `workspace/` and `config/`.
+   * @internal
+   */
+  async saveSnapshot(workspace: string, configDirectory: string): Promise<InstanceSnapshot> {
+    const snapshotId = `local_snap_${generateUuid()}`;
+    const target = this.snapshotPath(snapshotId);
+    await mkdir(this.snapshotDirectory, { recursive: true });
+    await cp(workspace, join(target, 'workspace'), { recursive: true });
+    await cp(configDirectory, join(target, 'config'), { recursive: true });
+    return { snapshotId, createdAt: new Date() };
+  }
+
+  private snapshotPath(snapshotId: string): string {
+    if (!/^[\w-]+$/.test(snapshotId)) {
+      throw new SandboxError(`Invalid local snapshot ID: ${snapshotId}`);
+    }
+    return join(this.snapshotDirectory, snapshotId);
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Sandbox Provider Types
+ *
+ * A provider is the backend that actually hosts the Claude CLI.
+ * The transport, client and snapshot helpers only talk to these
+ * interfaces, so any backend (Vercel, local, in-memory) can be plugged in.
+ */
+
+import { CommandResult } from '../types/options.js';
+
+/**
+ * Options for creating a fresh sandbox instance.
+ */
+export interface SandboxCreateOptions {
+  /**
+   * Runtime image to boot (provider-specific).
+   * @default 'node24'
+   */
+  runtime?: string;
+
+  /**
+   * Maximum lifetime of the sandbox in milliseconds.
+   * @default 300000
+   */
+  timeout?: number;
+}
+
+/**
+ * Options for running a command inside a sandbox instance.
+ */
+export interface RunCommandOptions {
+  /**
+   * Working directory for the command.
+   * Defaults to the instance's working directory.
+   */
+  cwd?: string;
+
+  /**
+   * Environment variables for the command.
+   */
+  env?: Record<string, string>;
+}
+
+/**
+ * Parameters for starting a detached (streaming) command.
+ */
+export interface DetachedCommandParams extends RunCommandOptions {
+  cmd: string;
+  args?: string[];
+
+  /**
+   * Keep the command's stdin open for writeStdin()/closeStdin().
+   * @default false
+   */
+  stdin?: boolean;
+}
+
+/**
+ * A chunk of output from a running command.
+ */
+export interface CommandLog {
+  stream: 'stdout' | 'stderr';
+  data: string;
+}
+
+/**
+ * Handle to a command running in detached mode.
+ */
+export interface SandboxCommand {
+  /**
+   * Stream stdout/stderr output as it is produced.
+   */
+  logs(): AsyncIterable<CommandLog>;
+
+  /**
+   * Wait for the command to finish and return its exit code.
+   */
+  wait(): Promise<{ exitCode: number }>;
+
+  /**
+   * Send a signal to the command.
+   */
+  kill(signal?: string): Promise<void>;
+
+  /**
+   * Write data to the command's stdin.
+   * Only available when the command was started with `stdin: true`.
+   */
+  writeStdin?(data: string): Promise<void>;
+
+  /**
+   * Close the command's stdin, signalling end of input.
+   * Only available when the command was started with `stdin: true`.
+   */
+  closeStdin?(): Promise<void>;
+}
+
+/**
+ * Result from snapshotting a sandbox instance.
+ */
+export interface InstanceSnapshot {
+  snapshotId: string;
+  createdAt?: Date;
+  expiresAt?: Date;
+  sizeBytes?: number;
+}
+
+/**
+ * Stored snapshot metadata reported by a provider.
+ */
+export interface ProviderSnapshotInfo {
+  id: string;
+  createdAt: Date;
+  expiresAt: Date;
+  sizeBytes: number;
+  status: 'created' | 'deleted' | 'failed';
+}
+
+/**
+ * A running sandbox created by a provider.
+ */
+export interface SandboxInstance {
+  /**
+   * Unique identifier for this instance.
+   */
+  readonly sandboxId: string;
+
+  /**
+   * Default working directory for commands and relative paths.
+   */
+  readonly workingDirectory: string;
+
+  /**
+   * Run a command to completion and collect its output.
+   */
+  runCommand(cmd: string, args?: string[], options?: RunCommandOptions): Promise<CommandResult>;
+
+  /**
+   * Start a command in detached mode with streaming logs.
+   */
+  runDetached(params: DetachedCommandParams): Promise<SandboxCommand>;
+
+  /**
+   * Write files to the instance filesystem.
+   */
+  writeFiles(files: Array<{ path: string; content: string | Buffer }>): Promise<void>;
+
+  /**
+   * Read a file from the instance filesystem, or null if it does not exist.
+   */
+  readFile(path: string): Promise<Buffer | null>;
+
+  /**
+   * Create a directory (and any missing parents).
+   */
+  mkdir(path: string): Promise<void>;
+
+  /**
+   * Snapshot the instance. The instance is stopped afterwards.
+   */
+  snapshot(): Promise<InstanceSnapshot>;
+
+  /**
+   * Stop the instance and release its resources.
+   */
+  stop(): Promise<void>;
+}
+
+/**
+ * Backend capable of creating sandbox instances.
+ */
+export interface SandboxProvider {
+  /**
+   * Short provider name, used in logs and errors.
+   */
+  readonly name: string;
+
+  /**
+   * Whether the provider supplies the `claude` executable itself.
+   * When true, the transport skips CLI installation on fresh instances.
+   */
+  readonly managesCli?: boolean;
+
+  /**
+   * Create a fresh sandbox instance.
+   */
+  create(options?: SandboxCreateOptions): Promise<SandboxInstance>;
+
+  /**
+   * Create a sandbox instance from a previously taken snapshot.
+   */
+  restore(snapshotId: string, options?: SandboxCreateOptions): Promise<SandboxInstance>;
+
+  /**
+   * Look up stored snapshot metadata (optional).
+   */
+  getSnapshot?(snapshotId: string): Promise<ProviderSnapshotInfo>;
+
+  /**
+   * Delete a stored snapshot (optional).
+   */
+  deleteSnapshot?(snapshotId: string): Promise<void>;
+
+  /**
+   * List stored snapshots (optional).
+   */
+  listSnapshots?(options?: { limit?: number; since?: Date; until?: Date }): Promise<ProviderSnapshotInfo[]>;
+}
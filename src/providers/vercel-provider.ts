@@ -0,0 +1,313 @@
+/**
+ * Vercel Sandbox Provider
+ *
+ * Default provider backed by Vercel Sandbox microVMs.
+ */
+
+import { Sandbox, Snapshot, Command } from '@vercel/sandbox';
+import { CommandResult } from '../types/options.js';
+import { SandboxError } from '../types/errors.js';
+import { generateUuid } from '../types/messages.js';
+import {
+  SandboxProvider,
+  SandboxInstance,
+  SandboxCommand,
+  SandboxCreateOptions,
+  RunCommandOptions,
+  DetachedCommandParams,
+  CommandLog,
+  InstanceSnapshot,
+  ProviderSnapshotInfo,
+} from './types.js';
+
+/**
+ * Default working directory inside a Vercel Sandbox.
+ */
+export const VERCEL_WORKING_DIRECTORY = '/vercel/sandbox';
+
+type VercelSignal = Parameters<Command['kill']>[0];
+
+/**
+ * Line that marks the end of relayed stdin.
+ */
+const STDIN_EOF_SENTINEL = '__SANDBOX_STDIN_EOF__';
+
+/**
+ * Vercel commands have no stdin, so input is appended to a file that
+ * `tail -f` relays into the command. sed stops the relay (closing the
+ * command's stdin) when it sees the sentinel line. The relay runs in a
+ * process substitution with stderr discarded, so it never holds the
+ * command's output streams open and the command's exit ends the run.
+ * `exec` keeps the shell's PID for the command, so `tail --pid=$$` also
+ * stops the relay when the command exits without its stdin being closed.
+ *
+ * Usage: bash -c STDIN_RELAY_SCRIPT bash <stdin-file> <cmd> [args...]
+ */
+const STDIN_RELAY_SCRIPT =
+  'file="$1"; shift; ' +
+  `exec "$@" < <(exec 2>/dev/null; tail -n +1 -f --pid=$$ "$file" | sed -u '/^${STDIN_EOF_SENTINEL}$/Q')`;
+
+/**
+ * Appends a chunk file to the relayed stdin file and removes the chunk.
+ * Input is written as a file rather than passed as an argument, which
+ * would fail with E2BIG for large messages.
+ *
+ * Usage: bash -c STDIN_APPEND_SCRIPT bash <chunk-file> <stdin-file>
+ */
+const STDIN_APPEND_SCRIPT = 'cat "$1" >> "$2" && rm -f "$1"';
+
+/**
+ * Appends input to a relayed stdin file inside the sandbox.
+ * Writes are serialized so input arrives in order.
+ */
+class VercelStdinRelay {
+  private queue: Promise<void> = Promise.resolve();
+  private endsWithNewline = true;
+  private closed = false;
+
+  constructor(
+    private sandbox: Sandbox,
+    readonly path: string
+  ) {}
+
+  private append(data: string): Promise<void> {
+    const write = this.queue.then(async () => {
+      const chunk = `${this.path}.${generateUuid()}.part`;
+      await this.sandbox.writeFiles([{ path: chunk, content: Buffer.from(data, 'utf-8') }]);
+      const result = await this.sandbox.runCommand('bash', ['-c', STDIN_APPEND_SCRIPT, 'bash', chunk, this.path]);
+      if (result.exitCode !== 0) {
+        throw new SandboxError(`Failed to write to stdin: ${await result.stderr()}`);
+      }
+    });
+    // Keep the chain alive after a failed write
+    this.queue = write.catch(() => {});
+    return write;
+  }
+
+  write(data: string): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new SandboxError('Command stdin is closed'));
+    }
+    if (data.length > 0) {
+      this.endsWithNewline = data.endsWith('\n');
+    }
+    return this.append(data);
+  }
+
+  close(): Promise<void> {
+    if (this.closed) {
+      return this.queue;
+    }
+    this.closed = true;
+    return this.append(`${this.endsWithNewline ? '' : '\n'}${STDIN_EOF_SENTINEL}\n`);
+  }
+
+  /**
+   * Remove the stdin file once the command has exited.
+   */
+  async dispose(): Promise<void> {
+    this.closed = true;
+    await this.queue;
+    await this.sandbox.runCommand('rm', ['-f', this.path]).catch(() => {});
+  }
+}
+
+/**
+ * SandboxCommand backed by a detached Vercel command.
+ */
+class VercelSandboxCommand implements SandboxCommand {
+  constructor(
+    private command: Command,
+    private stdin: VercelStdinRelay | null = null
+  ) {}
+
+  logs(): AsyncIterable<CommandLog> {
+    return this.command.logs();
+  }
+
+  async wait(): Promise<{ exitCode: number }> {
+    const result = await this.command.wait();
+    await this.stdin?.dispose();
+    return { exitCode: result.exitCode };
+  }
+
+  async kill(signal: string = 'SIGTERM'): Promise<void> {
+    await this.command.kill(signal as VercelSignal);
+  }
+
+  async writeStdin(data: string): Promise<void> {
+    if (!this.stdin) {
+      throw new SandboxError('Command was not started with stdin');
+    }
+    await this.stdin.write(data);
+  }
+
+  async closeStdin(): Promise<void> {
+    await this.stdin?.close();
+  }
+}
+
+/**
+ * SandboxInstance backed by a Vercel Sandbox microVM.
+ */
+export class VercelSandboxInstance implements SandboxInstance {
+  readonly workingDirectory = VERCEL_WORKING_DIRECTORY;
+
+  constructor(
+    /**
+     * The underlying Vercel sandbox (for advanced use cases).
+     */
+    readonly sandbox: Sandbox
+  ) {}
+
+  get sandboxId(): string {
+    return this.sandbox.sandboxId;
+  }
+
+  async runCommand(
+    cmd: string,
+    args: string[] = [],
+    options: RunCommandOptions = {}
+  ): Promise<CommandResult> {
+    const result = await this.sandbox.runCommand({
+      cmd,
+      args,
+      cwd: options.cwd,
+      env: options.env,
+    });
+
+    return {
+      exitCode: result.exitCode,
+      stdout: await result.stdout(),
+      stderr: await result.stderr(),
+    };
+  }
+
+  async runDetached(params: DetachedCommandParams): Promise<SandboxCommand> {
+    if (params.stdin) {
+      const relay = new VercelStdinRelay(this.sandbox, `/tmp/sandbox-stdin-${generateUuid()}.ndjson`);
+      await this.sandbox.writeFiles([{ path: relay.path, content: Buffer.alloc(0) }]);
+
+      const command = await this.sandbox.runCommand({
+        cmd: 'bash',
+        args: ['-c', STDIN_RELAY_SCRIPT, 'bash', relay.path, params.cmd, ...(params.args ?? [])],
+        cwd: params.cwd ?? this.workingDirectory,
+        env: params.env,
+        detached: true,
+      });
+      return new VercelSandboxCommand(command, relay);
+    }
+
+    const command = await this.sandbox.runCommand({
+      cmd: params.cmd,
+      args: params.args,
+      cwd: params.cwd ?? this.workingDirectory,
+      env: params.env,
+      detached: true,
+    });
+    return new VercelSandboxCommand(command);
+  }
+
+  async writeFiles(files: Array<{ path: string; content: string | Buffer }>): Promise<void> {
+    await this.sandbox.writeFiles(
+      files.map((f) => ({
+        path: f.path,
+        content: typeof f.content === 'string' ? Buffer.from(f.content, 'utf-8') : f.content,
+      }))
+    );
+  }
+
+  async readFile(path: string): Promise<Buffer | null> {
+    return await this.sandbox.readFileToBuffer({ path });
+  }
+
+  async mkdir(path: string): Promise<void> {
+    const result = await this.sandbox.runCommand('mkdir', ['-p', path]);
+    if (result.exitCode !== 0) {
+      const stderr = await result.stderr();
+      throw new SandboxError(`Failed to create directory ${path}: ${stderr}`);
+    }
+  }
+
+  async snapshot(): Promise<InstanceSnapshot> {
+    const snapshot = await this.sandbox.snapshot();
+    return {
+      snapshotId: snapshot.snapshotId,
+      createdAt: snapshot.createdAt,
+      expiresAt: snapshot.expiresAt,
+      sizeBytes: snapshot.sizeBytes,
+    };
+  }
+
+  async stop(): Promise<void> {
+    await this.sandbox.stop();
+  }
+}
+
+/**
+ * Provider that creates Vercel Sandbox microVMs.
+ *
+ * @example
+ * ```typescript
+ * const provider = new VercelSandboxProvider();
+ * const instance = await provider.create({ timeout: 600000 });
+ * ```
+ */
+export class VercelSandboxProvider implements SandboxProvider {
+  readonly name = 'vercel';
+
+  async create(options: SandboxCreateOptions = {}): Promise<SandboxInstance> {
+    const sandbox = await Sandbox.create({
+      runtime: options.runtime ?? 'node24',
+      timeout: options.timeout ?? 300000,
+    });
+    return new VercelSandboxInstance(sandbox);
+  }
+
+  async restore(snapshotId: string, options: SandboxCreateOptions = {}): Promise<SandboxInstance> {
+    const sandbox = await Sandbox.create({
+      source: {
+        type: 'snapshot',
+        snapshotId,
+      },
+      timeout: options.timeout ?? 300000,
+    });
+    return new VercelSandboxInstance(sandbox);
+  }
+
+  async getSnapshot(snapshotId: string): Promise<ProviderSnapshotInfo> {
+    const snapshot = await Snapshot.get({ snapshotId });
+    return {
+      id: snapshot.snapshotId,
+      createdAt: snapshot.createdAt,
+      expiresAt: snapshot.expiresAt,
+      sizeBytes: snapshot.sizeBytes,
+      status: snapshot.status,
+    };
+  }
+
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    const snapshot = await Snapshot.get({ snapshotId });
+    await snapshot.delete();
+  }
+
+  async listSnapshots(options?: {
+    limit?: number;
+    since?: Date;
+    until?: Date;
+  }): Promise<ProviderSnapshotInfo[]> {
+    const result = await Snapshot.list({
+      limit: options?.limit,
+      since: options?.since,
+      until: options?.until,
+    });
+
+    return result.json.snapshots.map((s) => ({
+      id: s.id,
+      createdAt: new Date(s.createdAt),
+      expiresAt: new Date(s.expiresAt),
+      sizeBytes: s.sizeBytes,
+      status: s.status,
+    }));
+  }
+}
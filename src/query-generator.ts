@@ -5,13 +5,22 @@
  * that returns an AsyncGenerator with additional control methods.
  */
 
+import { z } from 'zod';
 import { SandboxTransport } from './transport/index.js';
+import { SandboxProviderSpec } from './providers/index.js';
+import { CassetteOptions } from './transport/cassette.js';
+import { SandboxPool } from './sandbox/pool.js';
+import { SessionStore, exportTranscript, importTranscript, cliSessionIdFrom } from './sessions/index.js';
 import {
   SDKMessage,
+  SDKUserMessage,
   ResultMessage,
+  UsageInfo,
   isAssistantMessage,
   isResultMessage,
+  isStreamEvent,
   extractText,
+  extractTextDelta,
   generateSessionId,
   generateUuid,
 } from './types/messages.js';
@@ -25,9 +34,24 @@ import {
   SnapshotResult,
   QueryResultInfo,
 } from './types/options.js';
-import { wrapError, SandboxError } from './types/errors.js';
-import { ToolDefinition } from './tools/types.js';
+import { wrapError, SandboxError, ValidationError } from './types/errors.js';
+import { ToolDefinition, ToolSchema } from './tools/types.js';
 import { executeTool } from './tools/tool.js';
+import { ToolBridge, createPermissionPromptTool, PERMISSION_PROMPT_TOOL_NAME } from './tools/bridge.js';
+import { loadCliSettings, mergeHookSettings } from './tools/hooks.js';
+import { Logger, errorFields, silentLogger, withLogFields } from './logger.js';
+import {
+  Span,
+  SpanNames,
+  SpanAttributes,
+  Tracer,
+  recordSpanError,
+  setSpanAttributes,
+  startParentSpan,
+  withSpan,
+} from './tracing.js';
+import { addUsage, emptyUsage, usageFromAssistant, usageFromResult } from './usage.js';
+import { buildOutputInstructions, buildOutputRetryPrompt, parseOutput } from './output.js';
 
 /**
  * Slash command information
@@ -75,7 +99,7 @@ export interface AccountInfo {
  * Query interface extending AsyncGenerator with control methods.
  * This matches the official @anthropic-ai/claude-agent-sdk API.
  */
-export interface Query extends AsyncGenerator<SDKMessage, void, undefined> {
+export interface Query<TOutput = unknown> extends AsyncGenerator<SDKMessage, void, undefined> {
   /**
    * Interrupt the current operation
    */
@@ -87,12 +111,14 @@ export interface Query extends AsyncGenerator<SDKMessage, void, undefined> {
   rewindFiles(userMessageUuid: string): Promise<void>;
 
   /**
-   * Set the permission mode for subsequent operations
+   * Set the permission mode for subsequent CLI runs of this query. A
+   * streaming-input session keeps the mode its CLI process started with.
    */
   setPermissionMode(mode: PermissionMode): Promise<void>;
 
   /**
-   * Set the model for subsequent operations
+   * Set the model for subsequent CLI runs of this query. A streaming-input
+   * session keeps the model its CLI process started with.
    */
   setModel(model?: string): Promise<void>;
 
@@ -121,6 +147,23 @@ export interface Query extends AsyncGenerator<SDKMessage, void, undefined> {
    */
   readonly sessionId: string;
 
+  /**
+   * The Claude CLI's own session ID, once reported by the CLI.
+   * Pass it as `resumeSessionId` to continue the conversation later.
+   */
+  readonly cliSessionId: string | null;
+
+  /**
+   * Claude CLI version running in the sandbox, once detected.
+   */
+  readonly cliVersion: string | null;
+
+  /**
+   * Token usage and cost summed over every CLI run of the query.
+   * Updated as each run reports its result.
+   */
+  readonly usage: UsageInfo;
+
   /**
    * Collect all messages (helper method)
    */
@@ -131,6 +174,22 @@ export interface Query extends AsyncGenerator<SDKMessage, void, undefined> {
    */
   text(): Promise<string>;
 
+  /**
+   * Assistant text as it is generated, in incremental chunks. Called before
+   * iteration starts, it enables includePartialMessages unless that is set
+   * to false, in which case it yields whole text blocks.
+   */
+  textStream(): AsyncGenerator<string, void, undefined>;
+
+  /**
+   * The final answer parsed and validated against `outputSchema`. Runs the
+   * query to completion if it has not finished.
+   *
+   * @throws {ValidationError} if the answer still does not match the
+   *   schema after `outputRetries` corrections, or no schema was given
+   */
+  output(): Promise<TOutput>;
+
   // ============================================================================
   // Snapshot Methods
   // ============================================================================
@@ -156,10 +215,48 @@ export interface Query extends AsyncGenerator<SDKMessage, void, undefined> {
   readonly snapshotInfo: SnapshotResult | null;
 }
 
+/**
+ * Tracks turns awaiting a result in a streaming-input session,
+ * so stdin stays open until tool follow-ups have been answered.
+ */
+class TurnTracker {
+  private pending = 0;
+  private waiters: Array<() => void> = [];
+
+  start(): void {
+    this.pending++;
+  }
+
+  finish(): void {
+    this.pending = Math.max(0, this.pending - 1);
+    if (this.pending === 0) {
+      this.release();
+    }
+  }
+
+  /**
+   * Wake everything waiting in idle(), e.g. when the session ends.
+   */
+  release(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const wake of waiters) {
+      wake();
+    }
+  }
+
+  idle(): Promise<void> {
+    if (this.pending === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+}
+
 /**
  * Internal Query implementation
  */
-class QueryImpl implements Query {
+class QueryImpl<TOutput = unknown> implements Query<TOutput> {
   private transport: SandboxTransport;
   private generator: AsyncGenerator<SDKMessage, void, undefined> | null = null;
   private options: InternalOptions;
@@ -168,21 +265,43 @@ class QueryImpl implements Query {
   private isStarted = false;
   private isInterrupted = false;
   private messages: SDKMessage[] = [];
+  private _cliSessionId: string | null = null;
 
   // Snapshot state
   private _sandboxId: string | null = null;
   private _snapshotId: string | null = null;
   private _snapshotInfo: SnapshotResult | null = null;
   private _queryStartTime: number = 0;
+  // Starts spans as children of the query's span once it runs
+  private tracer: Tracer | undefined;
+
+  // Usage of finished CLI runs, and the latest reported usage of the current one
+  private spentUsage: UsageInfo = emptyUsage();
+  private runUsage: UsageInfo = emptyUsage();
+  // Usage streamed on assistant messages since the current run's latest result, by API response
+  private streamedUsage = new Map<string, UsageInfo>();
+  private spentTurns = 0;
+  private runTurns = 0;
+  private lastResult: ResultMessage | null = null;
+  private resultCount = 0;
+  private stoppedForBudget = false;
+
+  // Structured output, once the final answer has been validated
+  private outputSchema: ToolSchema | undefined;
+  private outputRetries: number;
+  private _output: { value: TOutput } | null = null;
+  private outputError: ValidationError | null = null;
 
   // Configuration
   private hooks: SandboxLifecycleHooks;
   private setup: SetupConfig | undefined;
   private snapshotEnabled: boolean;
   private snapshotOptions: SnapshotOptions | undefined;
+  private sessionStore: SessionStore | undefined;
+  private resumeSessionId: string | undefined;
 
   constructor(
-    private prompt: string,
+    private prompt: string | AsyncIterable<SDKUserMessage>,
     options: Options,
     transportOptions: TransportOptions,
     queryArgs: QueryArgsInternal
@@ -196,6 +315,10 @@ class QueryImpl implements Query {
     this.setup = queryArgs.setup;
     this.snapshotEnabled = queryArgs.snapshotEnabled ?? true; // Default: create snapshot
     this.snapshotOptions = queryArgs.snapshot;
+    this.sessionStore = queryArgs.sessionStore;
+    this.resumeSessionId = queryArgs.resumeSessionId;
+    this.outputSchema = queryArgs.outputSchema;
+    this.outputRetries = queryArgs.outputRetries ?? 2;
 
     // Convert options to internal format
     this.options = {
@@ -203,14 +326,6 @@ class QueryImpl implements Query {
       signal: options.signal ?? this.abortController.signal,
       _transportOptions: transportOptions,
     };
-
-    // Warn about permission mode in sandbox
-    if (options.permissionMode && options.permissionMode !== 'bypassPermissions') {
-      console.warn(
-        `[claude-agent-sdk] Warning: permissionMode '${options.permissionMode}' is not fully supported in sandbox environments. ` +
-        `Sandbox runs with --dangerously-skip-permissions, effectively using 'bypassPermissions'.`
-      );
-    }
   }
 
   get sessionId(): string {
@@ -221,6 +336,31 @@ class QueryImpl implements Query {
     return this._sandboxId;
   }
 
+  /**
+   * Run `fn` in a span tagged with the query's sandbox ID.
+   */
+  private traced<T>(name: string, attributes: SpanAttributes, fn: (span: Span) => Promise<T>): Promise<T> {
+    return withSpan(this.tracer, name, { 'sandbox.id': this._sandboxId ?? undefined, ...attributes }, fn);
+  }
+
+  /**
+   * Logger carrying the query's session and sandbox IDs.
+   */
+  private get logger(): Logger {
+    return withLogFields(this.options.logger ?? silentLogger, {
+      sessionId: this._sessionId,
+      sandboxId: this._sandboxId,
+    });
+  }
+
+  get cliSessionId(): string | null {
+    return this._cliSessionId;
+  }
+
+  get cliVersion(): string | null {
+    return this.transport.cliVersion;
+  }
+
   get snapshotId(): string | null {
     return this._snapshotId;
   }
@@ -235,19 +375,29 @@ class QueryImpl implements Query {
   private async *run(): AsyncGenerator<SDKMessage, void, undefined> {
     const maxTurns = this.options.maxTurns ?? 10;
     const tools = this.options.tools ?? [];
+    const replaying = this.options._transportOptions?.cassette?.mode === 'replay';
+    // Text mode asks the model to print tool requests; mcp mode bridges real tool calls
+    const textTools = this.options.toolMode === 'text' ? tools : [];
     const toolMap = new Map<string, ToolDefinition>();
+    let bridge: ToolBridge | null = null;
     let querySuccess = false;
     let queryError: Error | undefined;
 
-    for (const t of tools) {
+    for (const t of textTools) {
       toolMap.set(t.name, t);
     }
 
     // Build tool descriptions for system prompt
-    const toolDescriptions = tools.length > 0 ? this.buildToolDescriptions(tools) : '';
+    const toolDescriptions = textTools.length > 0 ? this.buildToolDescriptions(textTools) : '';
 
     this._queryStartTime = Date.now();
 
+    // Every other span of the query nests under this one
+    const { span: querySpan, tracer } = startParentSpan(this.options.tracer, SpanNames.QUERY, {
+      'gen_ai.request.model': this.options.model,
+    });
+    this.tracer = tracer;
+
     try {
       await this.transport.connect({
         apiKey: this.options._transportOptions?.apiKey,
@@ -255,6 +405,17 @@ class QueryImpl implements Query {
         snapshotId: this.options._transportOptions?.snapshotId,
         teamId: this.options._transportOptions?.teamId,
         timeout: this.options.timeout,
+        provider: this.options._transportOptions?.provider,
+        cassette: this.options._transportOptions?.cassette,
+        pool: this.options._transportOptions?.pool,
+        cliVersion: this.options._transportOptions?.cliVersion,
+        logger: this.options.logger,
+        tracer,
+        retry: this.options.retry,
+        messageValidation: this.options.messageValidation,
+        onSchemaDrift: this.options.onSchemaDrift,
+        maxLineLength: this.options.maxLineLength,
+        diagnosticBufferSize: this.options.diagnosticBufferSize,
       });
 
       // Store sandbox ID
@@ -265,6 +426,11 @@ class QueryImpl implements Query {
       // ========================================
       await this.executeSetup();
 
+      // Restore a persisted CLI session so it can be resumed natively
+      if (this.resumeSessionId) {
+        await this.restoreSession(this.resumeSessionId);
+      }
+
       // Emit session started system message
       const initMessage: SDKMessage = {
         type: 'system',
@@ -278,88 +444,181 @@ class QueryImpl implements Query {
       yield initMessage;
       this.messages.push(initMessage);
 
-      let conversationHistory: Array<{ role: string; content: string }> = [];
-      let currentPrompt = this.prompt;
-      let turn = 0;
-
-      // Enhance system prompt with tool descriptions
-      const systemPrompt = tools.length > 0
-        ? `${this.options.systemPrompt || ''}\n\n${toolDescriptions}`.trim()
+      // Enhance system prompt with tool descriptions, and append the output
+      // format so the CLI keeps its default prompt
+      const systemPrompt = textTools.length > 0
+        ? [this.options.systemPrompt, toolDescriptions].filter(Boolean).join('\n\n')
         : this.options.systemPrompt;
-
-      const transportOptions = {
-        ...this.options,
+      const outputInstructions = this.outputSchema ? buildOutputInstructions(this.outputSchema) : '';
+      const appendSystemPrompt = outputInstructions
+        ? [this.options.appendSystemPrompt, outputInstructions].filter(Boolean).join('\n\n')
+        : this.options.appendSystemPrompt;
+
+      const canUseTool = this.options.canUseTool;
+      // Settings fixed for the whole query; the rest of each run's options
+      // are read when it starts, so setPermissionMode() and setModel() apply
+      // to later runs
+      const runSettings: Partial<InternalOptions> = {
         systemPrompt,
+        appendSystemPrompt,
+        resume: this.resumeSessionId ?? this.options.resume,
       };
+      const runOptions = (): InternalOptions => ({
+        ...this.options,
+        ...runSettings,
+        permissionMode: this.options.permissionMode ?? (canUseTool ? 'default' : undefined),
+      });
 
-      while (turn < maxTurns && !this.isInterrupted) {
-        turn++;
-
-        const fullPrompt = conversationHistory.length > 0
-          ? this.buildConversationPrompt(conversationHistory, currentPrompt)
-          : currentPrompt;
-
-        // Stream messages from transport, enriching with session info
-        for await (const rawMessage of this.transport.startSession(fullPrompt, transportOptions)) {
-          // Enrich message with session info if not present
-          const message = this.enrichMessage(rawMessage);
-          this.messages.push(message);
-          yield message;
-
-          if (this.isInterrupted) break;
+      // Expose custom tools and permission prompts to the CLI as an MCP
+      // server backed by host handlers
+      const bridgedTools = textTools.length === 0 ? [...tools] : [];
+      if (canUseTool) {
+        bridgedTools.push(createPermissionPromptTool(canUseTool, this.options.signal!));
+      }
+      // Host agent hooks are relayed through the same bridge
+      const agentHooks = this.options.hooks ?? {};
+      const hasAgentHooks = Object.values(agentHooks).some((matchers) => matchers && matchers.length > 0);
+      const sandbox = this.transport.getSandbox();
+      if ((bridgedTools.length > 0 || hasAgentHooks) && sandbox && !replaying) {
+        bridge = new ToolBridge(sandbox, bridgedTools, {
+          logger: this.logger,
+          tracer,
+          hooks: agentHooks,
+          signal: this.options.signal,
+        });
+        const server = await bridge.install();
+        if (bridgedTools.length > 0) {
+          runSettings.mcpServers = { ...this.options.mcpServers, [bridge.serverName]: server };
         }
-
-        if (this.isInterrupted) break;
-
-        // Extract text from assistant messages in this turn
-        const turnMessages = this.messages.slice(-10); // Last few messages
-        const assistantText = turnMessages
-          .filter(isAssistantMessage)
-          .map(extractText)
-          .join('');
-
-        // Parse tool requests
-        const toolRequests = this.parseToolRequestsFromText(assistantText);
-
-        if (toolRequests.length === 0 || tools.length === 0) {
-          break;
+        const hookSettings = bridge.hookSettings();
+        if (hookSettings) {
+          // Keep the user's own settings and hooks alongside the relay hooks
+          const settings = await loadCliSettings(sandbox, this.options.settings, this.options.cwd || sandbox.workingDirectory);
+          runSettings.settings = JSON.stringify(mergeHookSettings(settings, hookSettings));
         }
+        if (canUseTool) {
+          runSettings.permissionPromptToolName = bridge.toolName(PERMISSION_PROMPT_TOOL_NAME);
+        }
+        if (textTools.length === 0 && tools.length > 0 && this.options.allowedTools !== 'all') {
+          // Host tools are trusted by the host: never prompt for them
+          runSettings.allowedTools = [
+            ...(this.options.allowedTools ?? []),
+            ...tools.map((t) => bridge!.toolName(t.name)),
+          ];
+        }
+        bridge.start();
+      }
 
-        // Execute tools
-        const toolResults: string[] = [];
-
-        for (const toolReq of toolRequests) {
-          const toolDef = toolMap.get(toolReq.tool);
-
-          if (!toolDef) {
-            toolResults.push(`Error: Unknown tool "${toolReq.tool}"`);
+      if (typeof this.prompt !== 'string') {
+        // Streaming input: one CLI process for the whole conversation
+        yield* this.runStreamingInput(this.prompt, runOptions(), toolMap, maxTurns);
+        if (this.outputSchema && this.lastResult) {
+          this.settleOutput(this.lastResult.result ?? '');
+        }
+      } else {
+        let conversationHistory: Array<{ role: string; content: string }> = [];
+        let currentPrompt = this.prompt;
+        let turn = 0;
+        let outputAttempts = 0;
+
+        while (turn < maxTurns && !this.isInterrupted) {
+          turn++;
+
+          const fullPrompt = conversationHistory.length > 0
+            ? this.buildConversationPrompt(conversationHistory, currentPrompt)
+            : currentPrompt;
+
+          const turnMessages: SDKMessage[] = [];
+
+          // Stream messages from transport, enriching with session info
+          for await (const rawMessage of this.transport.startSession(fullPrompt, runOptions())) {
+            // Enrich message with session info if not present
+            const message = this.enrichMessage(rawMessage);
+            this.captureCliSessionId(message);
+            this.messages.push(message);
+            turnMessages.push(message);
+            this.recordUsage(message);
+            yield message;
+
+            if (this.isInterrupted) break;
+
+            // Leaving the stream kills the CLI, so a run that crosses the budget ends here
+            if (!isResultMessage(message) && this.overBudget) {
+              this.stoppedForBudget = true;
+              break;
+            }
+          }
+          this.finishRun();
+
+          if (this.isInterrupted || this.stoppedForBudget) break;
+
+          // Extract text from assistant messages in this turn only
+          const assistantText = turnMessages
+            .filter(isAssistantMessage)
+            .map(extractText)
+            .join('');
+
+          // Parse tool requests
+          const toolRequests = this.parseToolRequestsFromText(assistantText);
+
+          if (toolRequests.length === 0 || textTools.length === 0) {
+            if (!this.outputSchema) {
+              break;
+            }
+
+            // Validate the final answer, asking for a correction if it doesn't parse
+            const answer = turnMessages.filter(isResultMessage).at(-1)?.result || assistantText;
+            const outputError = this.settleOutput(answer);
+            if (!outputError || outputAttempts >= this.outputRetries) {
+              break;
+            }
+            if (this.overBudget) {
+              this.stoppedForBudget = true;
+              break;
+            }
+            outputAttempts++;
+            this.logger.debug('Re-prompting for structured output', { attempt: outputAttempts });
+            if (this._cliSessionId) {
+              // The resumed CLI session already holds the conversation: send only the correction
+              runSettings.resume = this._cliSessionId;
+              conversationHistory = [];
+            } else {
+              conversationHistory.push({ role: 'user', content: currentPrompt });
+              conversationHistory.push({ role: 'assistant', content: answer });
+            }
+            currentPrompt = buildOutputRetryPrompt(outputError);
             continue;
           }
 
-          try {
-            const result = await executeTool(toolDef, toolReq.input);
-            const resultText = result.content
-              .map((c) => (c.type === 'text' ? c.text : JSON.stringify(c)))
-              .join('\n');
-            toolResults.push(`Tool "${toolReq.tool}" result:\n${resultText}`);
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-            toolResults.push(`Tool "${toolReq.tool}" error: ${errorMsg}`);
+          // Don't run tools or start another run once the budget is spent
+          if (this.overBudget) {
+            this.stoppedForBudget = true;
+            break;
           }
-        }
 
-        // Update conversation history
-        if (assistantText) {
-          conversationHistory.push({ role: 'assistant', content: assistantText });
+          // Execute tools
+          const toolResults = await this.executeToolRequests(toolRequests, toolMap);
+
+          // Update conversation history
+          if (assistantText) {
+            conversationHistory.push({ role: 'assistant', content: assistantText });
+          }
+
+          const toolResultsText = toolResults.join('\n\n');
+          conversationHistory.push({ role: 'user', content: `Tool results:\n${toolResultsText}` });
+          currentPrompt = 'Please continue based on the tool results above. Provide the final answer to the user.';
         }
+      }
 
-        const toolResultsText = toolResults.join('\n\n');
-        conversationHistory.push({ role: 'user', content: `Tool results:\n${toolResultsText}` });
-        currentPrompt = 'Please continue based on the tool results above. Provide the final answer to the user.';
+      // Sum multi-run queries (custom tool rounds, streamed turns) into one result
+      if (this.stoppedForBudget || this.resultCount > 1) {
+        const aggregateMessage = this.createAggregateResult();
+        yield aggregateMessage;
+        this.messages.push(aggregateMessage);
       }
 
       // Mark query as successful
-      querySuccess = true;
+      querySuccess = !this.stoppedForBudget;
 
       // Emit session ended message
       const endMessage: SDKMessage = {
@@ -376,13 +635,280 @@ class QueryImpl implements Query {
       queryError = error instanceof Error ? error : new Error(String(error));
       throw wrapError(error, 'Query failed');
     } finally {
-      // ========================================
-      // Phase: Teardown & Lifecycle Handling
-      // ========================================
-      await this.handleTeardownAndLifecycle(querySuccess, queryError);
+      try {
+        await bridge?.stop();
+
+        // ========================================
+        // Phase: Teardown & Lifecycle Handling
+        // ========================================
+        await this.handleTeardownAndLifecycle(querySuccess, queryError);
+      } finally {
+        this.endQuerySpan(querySpan, queryError);
+      }
+    }
+  }
+
+  /**
+   * End the query's span with the usage and cost of all its runs.
+   */
+  private endQuerySpan(span: Span, error: Error | undefined): void {
+    const usage = this.usage;
+    setSpanAttributes(span, {
+      'sandbox.id': this._sandboxId ?? undefined,
+      'gen_ai.usage.input_tokens': usage.total_input_tokens,
+      'gen_ai.usage.output_tokens': usage.total_output_tokens,
+      'claude.cost_usd': usage.total_cost_usd,
+      'claude.num_turns': this.spentTurns + this.runTurns,
+    });
+    if (error) {
+      recordSpanError(span, error);
+    }
+    span.end();
+  }
+
+  /**
+   * Run a streaming-input session: user messages are piped into a single
+   * CLI process as they arrive. Custom tool requests are answered in the
+   * same session, and stdin is held open until every turn has a result.
+   */
+  private async *runStreamingInput(
+    input: AsyncIterable<SDKUserMessage>,
+    transportOptions: InternalOptions,
+    toolMap: Map<string, ToolDefinition>,
+    maxTurns: number
+  ): AsyncGenerator<SDKMessage, void, undefined> {
+    const turns = new TurnTracker();
+    let toolRounds = 0;
+    let turnText = '';
+
+    async function* trackedInput(): AsyncGenerator<SDKUserMessage, void, undefined> {
+      for await (const message of input) {
+        turns.start();
+        yield message;
+      }
+      await turns.idle();
+    }
+
+    try {
+      for await (const rawMessage of this.transport.startSession(trackedInput(), transportOptions)) {
+        const message = this.enrichMessage(rawMessage);
+        this.captureCliSessionId(message);
+        this.messages.push(message);
+        this.recordUsage(message);
+        yield message;
+
+        if (this.isInterrupted) break;
+
+        // Leaving the stream kills the CLI, so an over-budget session ends here
+        if (this.overBudget) {
+          this.stoppedForBudget = true;
+          break;
+        }
+
+        if (isAssistantMessage(message)) {
+          turnText += extractText(message);
+          continue;
+        }
+        if (!isResultMessage(message)) {
+          continue;
+        }
+
+        // A turn finished: answer any custom tool requests in the same session
+        const toolRequests = toolMap.size > 0 ? this.parseToolRequestsFromText(turnText) : [];
+        turnText = '';
+
+        if (toolRequests.length > 0 && toolRounds < maxTurns) {
+          toolRounds++;
+          const toolResults = await this.executeToolRequests(toolRequests, toolMap);
+          turns.start();
+          await this.transport.sendInput(
+            `Tool results:\n${toolResults.join('\n\n')}\n\n` +
+            'Please continue based on the tool results above. Provide the final answer to the user.'
+          );
+        }
+        turns.finish();
+      }
+    } finally {
+      turns.release();
+      this.finishRun();
     }
   }
 
+  /**
+   * Usage and cost across every CLI run of this query, so far. A run in
+   * progress counts the usage streamed on its assistant messages until its
+   * result reports the total.
+   */
+  get usage(): UsageInfo {
+    return addUsage(this.spentUsage, this.currentRunUsage());
+  }
+
+  /**
+   * Usage of the current run: its latest result plus whatever was streamed since.
+   */
+  private currentRunUsage(): UsageInfo {
+    let usage = this.runUsage;
+    for (const streamed of this.streamedUsage.values()) {
+      usage = addUsage(usage, streamed);
+    }
+    return usage;
+  }
+
+  /**
+   * Whether the query has reached options.maxBudgetUsd.
+   */
+  private get overBudget(): boolean {
+    const { maxBudgetUsd } = this.options;
+    return maxBudgetUsd !== undefined && this.usage.total_cost_usd >= maxBudgetUsd;
+  }
+
+  /**
+   * Track the usage reported by assistant and result messages. The CLI
+   * reports the running total of its process in each result, so the latest
+   * result of a run wins and replaces the usage streamed before it.
+   *
+   * This assumes a result only covers its own CLI process: a run started
+   * with --resume reports what it spent, not the cost of the session it
+   * resumed, so summing runs never counts a resumed transcript twice.
+   */
+  private recordUsage(message: SDKMessage): void {
+    if (isAssistantMessage(message)) {
+      const streamed = usageFromAssistant(message, this.options.model, this.options.pricing);
+      if (streamed) {
+        this.streamedUsage.set(streamed.id, streamed.usage);
+      }
+    }
+    if (isResultMessage(message)) {
+      this.runUsage = usageFromResult(message, this.options.model, this.options.pricing);
+      this.streamedUsage.clear();
+      this.runTurns = message.num_turns ?? this.runTurns;
+      this.lastResult = message;
+      this.resultCount++;
+    }
+  }
+
+  /**
+   * Add the current run's usage to the query total.
+   */
+  private finishRun(): void {
+    this.spentUsage = addUsage(this.spentUsage, this.currentRunUsage());
+    this.spentTurns += this.runTurns;
+    this.runUsage = emptyUsage();
+    this.streamedUsage.clear();
+    this.runTurns = 0;
+  }
+
+  /**
+   * Build the query-level result summing every run. When the budget stopped
+   * the query it reports 'error_max_budget_usd'; otherwise it mirrors the
+   * last run's outcome.
+   */
+  private createAggregateResult(): ResultMessage {
+    const usage = this.usage;
+    const last = this.lastResult;
+    const budgetError =
+      `Query cost $${usage.total_cost_usd.toFixed(4)} reached the maxBudgetUsd limit of $${this.options.maxBudgetUsd}`;
+
+    return {
+      type: 'result',
+      subtype: this.stoppedForBudget ? 'error_max_budget_usd' : (last?.subtype ?? 'success'),
+      uuid: generateUuid(),
+      session_id: this._sessionId,
+      parent_tool_use_id: null,
+      result: this.stoppedForBudget ? undefined : last?.result,
+      error: this.stoppedForBudget ? budgetError : last?.error,
+      total_cost_usd: usage.total_cost_usd,
+      usage,
+      num_turns: this.spentTurns + this.runTurns,
+      duration_ms: Date.now() - this._queryStartTime,
+      aggregate: true,
+    };
+  }
+
+  /**
+   * Remember the CLI's own session ID from init/result messages.
+   */
+  private captureCliSessionId(message: SDKMessage): void {
+    const cliSessionId = cliSessionIdFrom(message, this.transport.sessionId);
+    if (cliSessionId) {
+      this._cliSessionId = cliSessionId;
+    }
+  }
+
+  /**
+   * Load a transcript from the session store into the sandbox.
+   */
+  private async restoreSession(sessionId: string): Promise<void> {
+    const sandbox = this.transport.getSandbox();
+    if (!this.sessionStore || !sandbox) {
+      throw new SandboxError('resumeSessionId requires a sessionStore');
+    }
+
+    const transcript = await this.sessionStore.load(sessionId);
+    if (transcript === null) {
+      throw new SandboxError(`Session transcript not found: ${sessionId}`);
+    }
+
+    await importTranscript(sandbox, sessionId, transcript, this.options.cwd || sandbox.workingDirectory);
+  }
+
+  /**
+   * Copy the CLI's session transcript to the session store.
+   */
+  private async persistSession(): Promise<void> {
+    const sandbox = this.transport.getSandbox();
+    if (!this.sessionStore || !this._cliSessionId || !sandbox || !this.transport.connected) {
+      return;
+    }
+
+    const transcript = await exportTranscript(sandbox, this._cliSessionId);
+    if (transcript === null) {
+      this.logger.warn('No transcript found for session', { cliSessionId: this._cliSessionId });
+      return;
+    }
+    await this.sessionStore.save(this._cliSessionId, transcript);
+  }
+
+  /**
+   * Execute parsed tool requests and format their results as text.
+   */
+  private async executeToolRequests(
+    toolRequests: Array<{ tool: string; input: Record<string, unknown> }>,
+    toolMap: Map<string, ToolDefinition>
+  ): Promise<string[]> {
+    const toolResults: string[] = [];
+    const logger = this.logger;
+
+    for (const toolReq of toolRequests) {
+      const toolDef = toolMap.get(toolReq.tool);
+
+      if (!toolDef) {
+        logger.warn('Model requested an unknown tool', { tool: toolReq.tool });
+        toolResults.push(`Error: Unknown tool "${toolReq.tool}"`);
+        continue;
+      }
+
+      try {
+        logger.debug('Executing tool', { tool: toolReq.tool });
+        const result = await this.traced(SpanNames.TOOL, { 'gen_ai.tool.name': toolReq.tool }, async (span) => {
+          const toolResult = await executeTool(toolDef, toolReq.input);
+          span.setAttribute('claude.tool.is_error', toolResult.isError === true);
+          return toolResult;
+        });
+        const resultText = result.content
+          .map((c) => (c.type === 'text' ? c.text : JSON.stringify(c)))
+          .join('\n');
+        toolResults.push(`Tool "${toolReq.tool}" result:\n${resultText}`);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn('Tool execution failed', { tool: toolReq.tool, ...errorFields(error) });
+        toolResults.push(`Tool "${toolReq.tool}" error: ${errorMsg}`);
+      }
+    }
+
+    return toolResults;
+  }
+
   /**
    * Execute setup configuration and hooks before query runs.
    */
@@ -396,8 +922,9 @@ class QueryImpl implements Query {
       }
 
       // Step 2: Execute onSetup hook
-      if (this.hooks.onSetup) {
-        await this.hooks.onSetup(context);
+      const onSetup = this.hooks.onSetup;
+      if (onSetup) {
+        await this.traced(SpanNames.HOOK, { 'sandbox.hook.name': 'onSetup' }, () => onSetup(context));
       }
     } catch (error) {
       // Call onSetupError hook if provided
@@ -412,60 +939,77 @@ class QueryImpl implements Query {
    * Process SetupConfig shorthand operations.
    */
   private async executeSetupConfig(context: SandboxContext, setup: SetupConfig): Promise<void> {
-    const cwd = setup.workingDirectory || '/vercel/sandbox';
+    const cwd = setup.workingDirectory || context.workingDirectory;
 
     // Step 1: Write files
-    if (setup.files && setup.files.length > 0) {
-      await context.writeFiles(setup.files);
+    const files = setup.files;
+    if (files && files.length > 0) {
+      await this.traced(
+        SpanNames.SETUP_STEP,
+        { 'sandbox.setup.step': 'files', 'sandbox.setup.file_count': files.length },
+        () => context.writeFiles(files)
+      );
     }
 
     // Step 2: Clone GitHub repo
     if (setup.githubRepo) {
       const repo = setup.githubRepo;
       const branch = repo.branch || 'main';
-      const destination = repo.destination || '/vercel/sandbox/project';
+      const destination = repo.destination || `${context.workingDirectory}/project`;
 
-      // Create destination directory
-      await context.mkdir(destination);
+      const attributes = { 'sandbox.setup.step': 'github_repo', 'sandbox.setup.repo': repo.repo };
+      await this.traced(SpanNames.SETUP_STEP, attributes, async (span) => {
+        // Create destination directory
+        await context.mkdir(destination);
 
-      // Clone the repository
-      const cloneUrl = `https://github.com/${repo.repo}.git`;
-      const result = await context.runCommand(
-        'git',
-        ['clone', '--depth', '1', '--branch', branch, cloneUrl, destination],
-        { cwd }
-      );
+        // Clone the repository
+        const cloneUrl = `https://github.com/${repo.repo}.git`;
+        const result = await context.runCommand(
+          'git',
+          ['clone', '--depth', '1', '--branch', branch, cloneUrl, destination],
+          { cwd }
+        );
+        span.setAttribute('process.exit_code', result.exitCode);
 
-      if (result.exitCode !== 0) {
-        throw new SandboxError(`Failed to clone repository: ${result.stderr}`);
-      }
+        if (result.exitCode !== 0) {
+          throw new SandboxError(`Failed to clone repository: ${result.stderr}`);
+        }
+      });
     }
 
     // Step 3: Run npm install if specified
-    if (setup.npmInstall && setup.npmInstall.length > 0) {
-      const result = await context.runCommand(
-        'npm',
-        ['install', ...setup.npmInstall],
-        { cwd }
-      );
+    const npmInstall = setup.npmInstall;
+    if (npmInstall && npmInstall.length > 0) {
+      await this.traced(SpanNames.SETUP_STEP, { 'sandbox.setup.step': 'npm_install' }, async (span) => {
+        const result = await context.runCommand(
+          'npm',
+          ['install', ...npmInstall],
+          { cwd }
+        );
+        span.setAttribute('process.exit_code', result.exitCode);
 
-      if (result.exitCode !== 0) {
-        throw new SandboxError(`npm install failed: ${result.stderr}`);
-      }
+        if (result.exitCode !== 0) {
+          throw new SandboxError(`npm install failed: ${result.stderr}`);
+        }
+      });
     }
 
     // Step 4: Run custom commands
     if (setup.commands && setup.commands.length > 0) {
       for (const cmd of setup.commands) {
-        const result = await context.runCommand(
-          cmd.cmd,
-          cmd.args || [],
-          { cwd: cmd.cwd || cwd }
-        );
-
-        if (result.exitCode !== 0) {
-          throw new SandboxError(`Command '${cmd.cmd}' failed: ${result.stderr}`);
-        }
+        const attributes = { 'sandbox.setup.step': 'command', 'process.command': cmd.cmd };
+        await this.traced(SpanNames.SETUP_STEP, attributes, async (span) => {
+          const result = await context.runCommand(
+            cmd.cmd,
+            cmd.args || [],
+            { cwd: cmd.cwd || cwd }
+          );
+          span.setAttribute('process.exit_code', result.exitCode);
+
+          if (result.exitCode !== 0) {
+            throw new SandboxError(`Command '${cmd.cmd}' failed: ${result.stderr}`);
+          }
+        });
       }
     }
   }
@@ -477,8 +1021,16 @@ class QueryImpl implements Query {
     const durationMs = Date.now() - this._queryStartTime;
 
     try {
+      // Persist the CLI session transcript before the sandbox goes away
+      try {
+        await this.persistSession();
+      } catch (persistError) {
+        this.logger.error('Failed to persist session', errorFields(persistError));
+      }
+
       // Execute onTeardown hook if sandbox is still connected
-      if (this.hooks.onTeardown && this.transport.connected) {
+      const onTeardown = this.hooks.onTeardown;
+      if (onTeardown && this.transport.connected) {
         const context = this.transport.getSandboxContext();
         const resultInfo: QueryResultInfo = {
           success,
@@ -486,7 +1038,9 @@ class QueryImpl implements Query {
           durationMs,
           messagesCount: this.messages.length,
         };
-        await this.hooks.onTeardown(context, resultInfo);
+        await this.traced(SpanNames.HOOK, { 'sandbox.hook.name': 'onTeardown' }, () =>
+          onTeardown(context, resultInfo)
+        );
       }
 
       // Handle snapshot creation based on snapshotEnabled or snapshotOptions
@@ -497,7 +1051,7 @@ class QueryImpl implements Query {
 
     } catch (teardownError) {
       // Log teardown errors but don't throw (query already completed)
-      console.error('[claude-agent-sdk] Teardown error:', teardownError);
+      this.logger.error('Teardown failed', errorFields(teardownError));
     }
   }
 
@@ -505,7 +1059,8 @@ class QueryImpl implements Query {
    * Handle snapshot creation based on snapshotEnabled flag or snapshotOptions.
    */
   private async handleSnapshot(success: boolean): Promise<void> {
-    if (!this.transport.connected) {
+    // Replayed sessions have no sandbox to snapshot
+    if (!this.transport.connected || this.options._transportOptions?.cassette?.mode === 'replay') {
       return;
     }
 
@@ -527,7 +1082,11 @@ class QueryImpl implements Query {
 
     if (shouldSnapshot) {
       try {
-        const snapshotInfo = await this.transport.createSnapshotWithInfo(metadata);
+        const snapshotInfo = await this.traced(SpanNames.SNAPSHOT, {}, async (span) => {
+          const info = await this.transport.createSnapshotWithInfo(metadata);
+          span.setAttribute('sandbox.snapshot_id', info.snapshotId);
+          return info;
+        });
         this._snapshotId = snapshotInfo.snapshotId;
         this._snapshotInfo = snapshotInfo;
 
@@ -539,7 +1098,7 @@ class QueryImpl implements Query {
         // Update the last result message with snapshot info
         this.updateResultMessageWithSnapshot(snapshotInfo);
       } catch (snapshotError) {
-        console.error('[claude-agent-sdk] Failed to create snapshot:', snapshotError);
+        this.logger.error('Failed to create snapshot', errorFields(snapshotError));
       }
     }
   }
@@ -728,16 +1287,11 @@ IMPORTANT: When asked to perform a task that matches one of these tools, you MUS
 
   async rewindFiles(_userMessageUuid: string): Promise<void> {
     // In sandbox environments, file rewinding isn't supported
-    console.warn('[claude-agent-sdk] rewindFiles() is not supported in sandbox environments');
+    this.logger.warn('rewindFiles() is not supported in sandbox environments');
   }
 
   async setPermissionMode(mode: PermissionMode): Promise<void> {
-    if (mode !== 'bypassPermissions') {
-      console.warn(
-        `[claude-agent-sdk] setPermissionMode('${mode}') is not supported in sandbox environments. ` +
-        `Sandbox always uses 'bypassPermissions'.`
-      );
-    }
+    this.options.permissionMode = mode;
   }
 
   async setModel(model?: string): Promise<void> {
@@ -798,6 +1352,58 @@ IMPORTANT: When asked to perform a task that matches one of these tools, you MUS
       .join('');
   }
 
+  async output(): Promise<TOutput> {
+    if (!this.outputSchema) {
+      throw new ValidationError('output() requires query({ outputSchema })');
+    }
+    await this.collect();
+    if (this._output) {
+      return this._output.value;
+    }
+    throw this.outputError ?? new ValidationError('The query ended without a final result');
+  }
+
+  /**
+   * Validate a final answer against the output schema, keeping the parsed
+   * value or the validation error.
+   */
+  private settleOutput(text: string): ValidationError | null {
+    try {
+      this._output = { value: parseOutput(this.outputSchema!, text) as TOutput };
+      this.outputError = null;
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      this.outputError = error;
+    }
+    return this.outputError;
+  }
+
+  async *textStream(): AsyncGenerator<string, void, undefined> {
+    if (!this.isStarted) {
+      this.options.includePartialMessages ??= true;
+    }
+
+    // Whether the text of the next assistant message was already streamed
+    let streamed = false;
+    for await (const message of this) {
+      if (isStreamEvent(message)) {
+        const delta = extractTextDelta(message);
+        if (delta) {
+          streamed = true;
+          yield delta;
+        }
+      } else if (isAssistantMessage(message)) {
+        const text = streamed ? '' : extractText(message);
+        streamed = false;
+        if (text) {
+          yield text;
+        }
+      }
+    }
+  }
+
   // ============================================================================
   // Snapshot Methods
   // ============================================================================
@@ -832,6 +1438,10 @@ interface TransportOptions {
   oauthToken?: string;
   snapshotId?: string;
   teamId?: string;
+  provider?: SandboxProviderSpec;
+  cassette?: CassetteOptions;
+  pool?: SandboxPool;
+  cliVersion?: string;
 }
 
 /**
@@ -849,16 +1459,21 @@ interface QueryArgsInternal {
   setup?: SetupConfig;
   snapshotEnabled?: boolean;
   snapshot?: SnapshotOptions;
+  sessionStore?: SessionStore;
+  resumeSessionId?: string;
+  outputSchema?: ToolSchema;
+  outputRetries?: number;
 }
 
 /**
  * Arguments for the query function
  */
-export interface QueryArgs {
+export interface QueryArgs<TSchema extends ToolSchema = ToolSchema> {
   /**
-   * The prompt to send to Claude
+   * The prompt to send to Claude. Pass an AsyncIterable of user messages
+   * to stream input into a single live CLI session (e.g. chat follow-ups).
    */
-  prompt: string;
+  prompt: string | AsyncIterable<SDKUserMessage>;
 
   /**
    * Query options
@@ -885,6 +1500,42 @@ export interface QueryArgs {
    */
   teamId?: string;
 
+  /**
+   * Sandbox provider to run the CLI on. Accepts any SandboxProvider
+   * implementation or the name of a built-in provider.
+   * @default 'vercel'
+   */
+  provider?: SandboxProviderSpec;
+
+  /**
+   * Record CLI output to a cassette file, or replay a recorded cassette
+   * without creating a sandbox.
+   *
+   * @example
+   * ```typescript
+   * // In production
+   * cassette: { mode: 'record', path: './cassettes/incident.json' }
+   *
+   * // Locally, no sandbox or API key needed
+   * cassette: { mode: 'replay', path: './cassettes/incident.json' }
+   * ```
+   */
+  cassette?: CassetteOptions;
+
+  /**
+   * Check a warm sandbox out of a pool instead of creating one. The sandbox
+   * is returned to the pool when the query ends, so snapshots are off by
+   * default for pooled queries.
+   */
+  pool?: SandboxPool;
+
+  /**
+   * Exact Claude CLI version to run, e.g. '1.0.98'. A restored snapshot or
+   * pooled sandbox with a matching install is used as is.
+   * @default latest
+   */
+  cliVersion?: string;
+
   // ============================================================================
   // Setup & Hooks
   // ============================================================================
@@ -937,6 +1588,54 @@ export interface QueryArgs {
    * ```
    */
   snapshot?: SnapshotOptions;
+
+  // ============================================================================
+  // Session Persistence
+  // ============================================================================
+
+  /**
+   * Where CLI session transcripts are persisted. When set, the transcript
+   * is copied out of the sandbox at teardown, keyed by `q.cliSessionId`.
+   *
+   * @example
+   * ```typescript
+   * sessionStore: new FileSessionStore('./sessions')
+   * ```
+   */
+  sessionStore?: SessionStore;
+
+  /**
+   * CLI session to continue. The transcript is loaded from `sessionStore`
+   * into the new sandbox and resumed with --resume.
+   */
+  resumeSessionId?: string;
+
+  // ============================================================================
+  // Structured Output
+  // ============================================================================
+
+  /**
+   * Zod object schema for the final answer. Claude is asked to reply with
+   * matching JSON, which `q.output()` returns parsed and typed.
+   *
+   * @example
+   * ```typescript
+   * const q = query({
+   *   prompt: 'Extract the invoice fields',
+   *   outputSchema: z.object({ number: z.string(), total: z.number() }),
+   * });
+   * const { number, total } = await q.output();
+   * ```
+   */
+  outputSchema?: TSchema;
+
+  /**
+   * How many times Claude is re-prompted with the validation errors when
+   * its answer does not match `outputSchema`. Only string prompts are
+   * re-prompted.
+   * @default 2
+   */
+  outputRetries?: number;
 }
 
 /**
@@ -987,23 +1686,31 @@ export interface QueryArgs {
  * const response = await q.text();
  * ```
  */
-export function query(args: QueryArgs): Query {
+export function query<TSchema extends ToolSchema = ToolSchema>(args: QueryArgs<TSchema>): Query<z.infer<TSchema>> {
   const transportOptions: TransportOptions = {
     apiKey: args.apiKey,
     oauthToken: args.oauthToken,
     snapshotId: args.snapshotId,
     teamId: args.teamId,
+    provider: args.provider,
+    cassette: args.cassette,
+    pool: args.pool,
+    cliVersion: args.cliVersion,
   };
 
   // Build internal query args for setup/snapshot
   const queryArgsInternal: QueryArgsInternal = {
     hooks: args.hooks,
     setup: args.setup,
-    snapshotEnabled: args.snapshotEnabled,
+    snapshotEnabled: args.snapshotEnabled ?? (args.pool ? false : undefined),
     snapshot: args.snapshot,
+    sessionStore: args.sessionStore,
+    resumeSessionId: args.resumeSessionId,
+    outputSchema: args.outputSchema,
+    outputRetries: args.outputRetries,
   };
 
-  return new QueryImpl(args.prompt, args.options ?? {}, transportOptions, queryArgsInternal);
+  return new QueryImpl<z.infer<TSchema>>(args.prompt, args.options ?? {}, transportOptions, queryArgsInternal);
 }
 
 // Re-export types for convenience
@@ -6,9 +6,16 @@
  */
 
 import { Sandbox } from '@vercel/sandbox';
+import { SandboxInstance, toSandboxInstance } from '../providers/index.js';
 import { SandboxError, wrapError } from '../types/errors.js';
 import { VFSFile, GitHubRepoConfig } from '../types/options.js';
 
+/**
+ * Any sandbox these helpers can operate on: a provider instance
+ * or a raw Vercel Sandbox.
+ */
+export type SandboxLike = Sandbox | SandboxInstance;
+
 /**
  * Write files to the sandbox filesystem.
  *
@@ -21,16 +28,11 @@ import { VFSFile, GitHubRepoConfig } from '../types/options.js';
  * ```
  */
 export async function writeFiles(
-  sandbox: Sandbox,
+  sandbox: SandboxLike,
   files: VFSFile[]
 ): Promise<void> {
   try {
-    await sandbox.writeFiles(
-      files.map((f) => ({
-        path: f.path,
-        content: Buffer.from(f.content, 'utf-8'),
-      }))
-    );
+    await toSandboxInstance(sandbox).writeFiles(files);
   } catch (error) {
     throw wrapError(error, 'Failed to write files');
   }
@@ -44,9 +46,9 @@ export async function writeFiles(
  * const content = await readFile(sandbox, '/vercel/sandbox/index.ts');
  * ```
  */
-export async function readFile(sandbox: Sandbox, path: string): Promise<string> {
+export async function readFile(sandbox: SandboxLike, path: string): Promise<string> {
   try {
-    const buffer = await sandbox.readFileToBuffer({ path });
+    const buffer = await toSandboxInstance(sandbox).readFile(path);
     if (buffer === null) {
       throw new SandboxError(`File not found: ${path}`);
     }
@@ -69,19 +71,17 @@ export async function readFile(sandbox: Sandbox, path: string): Promise<string>
  * ```
  */
 export async function listFiles(
-  sandbox: Sandbox,
+  sandbox: SandboxLike,
   path: string
 ): Promise<string[]> {
   try {
-    const result = await sandbox.runCommand('ls', ['-1', path]);
+    const result = await toSandboxInstance(sandbox).runCommand('ls', ['-1', path]);
 
     if (result.exitCode !== 0) {
-      const stderr = await result.stderr();
-      throw new SandboxError(`Failed to list directory: ${stderr}`);
+      throw new SandboxError(`Failed to list directory: ${result.stderr}`);
     }
 
-    const stdout = await result.stdout();
-    return stdout.split('\n').filter((line) => line.trim());
+    return result.stdout.split('\n').filter((line) => line.trim());
   } catch (error) {
     if (error instanceof SandboxError) {
       throw error;
@@ -101,11 +101,11 @@ export async function listFiles(
  * ```
  */
 export async function fileExists(
-  sandbox: Sandbox,
+  sandbox: SandboxLike,
   path: string
 ): Promise<boolean> {
   try {
-    const result = await sandbox.runCommand('test', ['-e', path]);
+    const result = await toSandboxInstance(sandbox).runCommand('test', ['-e', path]);
     return result.exitCode === 0;
   } catch {
     return false;
@@ -126,19 +126,20 @@ export async function fileExists(
  * ```
  */
 export async function mountGitHubRepo(
-  sandbox: Sandbox,
+  sandbox: SandboxLike,
   config: GitHubRepoConfig
 ): Promise<void> {
+  const instance = toSandboxInstance(sandbox);
   const {
     repo,
     branch = 'main',
     path,
-    destination = '/vercel/sandbox/project',
+    destination = `${instance.workingDirectory}/project`,
   } = config;
 
   try {
     // Create destination directory
-    await sandbox.mkDir(destination);
+    await instance.mkdir(destination);
 
     if (path) {
       // Sparse checkout for a specific path
@@ -153,14 +154,13 @@ export async function mountGitHubRepo(
         rm -rf .git
       `;
 
-      const result = await sandbox.runCommand('bash', ['-c', script]);
+      const result = await instance.runCommand('bash', ['-c', script]);
       if (result.exitCode !== 0) {
-        const stderr = await result.stderr();
-        throw new SandboxError(`Git sparse checkout failed: ${stderr}`);
+        throw new SandboxError(`Git sparse checkout failed: ${result.stderr}`);
       }
     } else {
       // Full clone (shallow)
-      const result = await sandbox.runCommand('git', [
+      const result = await instance.runCommand('git', [
         'clone',
         '--depth=1',
         '--single-branch',
@@ -171,12 +171,11 @@ export async function mountGitHubRepo(
       ]);
 
       if (result.exitCode !== 0) {
-        const stderr = await result.stderr();
-        throw new SandboxError(`Git clone failed: ${stderr}`);
+        throw new SandboxError(`Git clone failed: ${result.stderr}`);
       }
 
       // Remove .git directory to save space
-      await sandbox.runCommand('rm', ['-rf', `${destination}/.git`]);
+      await instance.runCommand('rm', ['-rf', `${destination}/.git`]);
     }
   } catch (error) {
     if (error instanceof SandboxError) {
@@ -198,22 +197,22 @@ export async function mountGitHubRepo(
  * ```
  */
 export async function extractTarball(
-  sandbox: Sandbox,
+  sandbox: SandboxLike,
   config: { url: string; destination: string }
 ): Promise<void> {
   const { url, destination } = config;
+  const instance = toSandboxInstance(sandbox);
 
   try {
-    await sandbox.mkDir(destination);
+    await instance.mkdir(destination);
 
-    const result = await sandbox.runCommand('bash', [
+    const result = await instance.runCommand('bash', [
       '-c',
       `curl -sL "${url}" | tar -xz -C "${destination}" --strip-components=1`,
     ]);
 
     if (result.exitCode !== 0) {
-      const stderr = await result.stderr();
-      throw new SandboxError(`Failed to extract tarball: ${stderr}`);
+      throw new SandboxError(`Failed to extract tarball: ${result.stderr}`);
     }
   } catch (error) {
     if (error instanceof SandboxError) {
@@ -236,12 +235,14 @@ export async function extractTarball(
  * ```
  */
 export async function createDirectories(
-  sandbox: Sandbox,
+  sandbox: SandboxLike,
   paths: string[]
 ): Promise<void> {
+  const instance = toSandboxInstance(sandbox);
+
   try {
     for (const path of paths) {
-      await sandbox.mkDir(path);
+      await instance.mkdir(path);
     }
   } catch (error) {
     throw wrapError(error, 'Failed to create directories');
@@ -257,16 +258,15 @@ export async function createDirectories(
  * ```
  */
 export async function copyFile(
-  sandbox: Sandbox,
+  sandbox: SandboxLike,
   source: string,
   destination: string
 ): Promise<void> {
   try {
-    const result = await sandbox.runCommand('cp', ['-r', source, destination]);
+    const result = await toSandboxInstance(sandbox).runCommand('cp', ['-r', source, destination]);
 
     if (result.exitCode !== 0) {
-      const stderr = await result.stderr();
-      throw new SandboxError(`Copy failed: ${stderr}`);
+      throw new SandboxError(`Copy failed: ${result.stderr}`);
     }
   } catch (error) {
     if (error instanceof SandboxError) {
@@ -285,17 +285,16 @@ export async function copyFile(
  * ```
  */
 export async function deleteFile(
-  sandbox: Sandbox,
+  sandbox: SandboxLike,
   path: string,
   recursive: boolean = false
 ): Promise<void> {
   try {
     const args = recursive ? ['-rf', path] : [path];
-    const result = await sandbox.runCommand('rm', args);
+    const result = await toSandboxInstance(sandbox).runCommand('rm', args);
 
     if (result.exitCode !== 0) {
-      const stderr = await result.stderr();
-      throw new SandboxError(`Delete failed: ${stderr}`);
+      throw new SandboxError(`Delete failed: ${result.stderr}`);
     }
   } catch (error) {
     if (error instanceof SandboxError) {
@@ -5,13 +5,18 @@
 export {
   createSnapshot,
   restoreFromSnapshot,
+  restoreSandboxSnapshot,
   createCustomSnapshot,
+  createCustomSandboxSnapshot,
   getSnapshotInfo,
   deleteSnapshot,
   listSnapshots,
 } from './snapshot.js';
 export type { SnapshotOptions, SnapshotInfo } from './snapshot.js';
 
+export { SandboxPool } from './pool.js';
+export type { SandboxPoolOptions, SandboxPoolStats, ReleaseOptions } from './pool.js';
+
 export {
   writeFiles,
   readFile,
@@ -23,3 +28,4 @@ export {
   copyFile,
   deleteFile,
 } from './file-system.js';
+export type { SandboxLike } from './file-system.js';
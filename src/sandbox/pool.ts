@@ -0,0 +1,439 @@
+/**
+ * Sandbox Pool
+ *
+ * Keeps pre-booted sandboxes warm so queries can skip sandbox creation and
+ * CLI installation on the request path.
+ */
+
+import { SandboxInstance, SandboxProvider, SandboxProviderSpec, resolveProvider } from '../providers/index.js';
+import { assertValidCliVersion, ensureClaudeCli, installClaudeCli } from '../transport/cli-install.js';
+import { SandboxError, SandboxTimeoutError, ValidationError } from '../types/errors.js';
+import { Logger, errorFields, silentLogger, withLogFields } from '../logger.js';
+
+export interface SandboxPoolOptions {
+  /**
+   * Sandbox provider to create instances with.
+   * @default 'vercel'
+   */
+  provider?: SandboxProviderSpec;
+
+  /**
+   * Snapshot to boot instances from. Without one, instances are created
+   * fresh and the CLI is installed before they join the pool.
+   */
+  snapshotId?: string;
+
+  /**
+   * Exact Claude CLI version instances must run, e.g. '1.0.98'.
+   * @default latest
+   */
+  cliVersion?: string;
+
+  /**
+   * Number of instances kept warm, including checked-out ones.
+   * @default 0
+   */
+  min?: number;
+
+  /**
+   * Maximum number of instances, including checked-out ones.
+   * @default 10
+   */
+  max?: number;
+
+  /**
+   * Lifetime of each sandbox in milliseconds. Instances within a minute
+   * of expiring are not handed out.
+   * @default 1800000 (30 minutes)
+   */
+  timeout?: number;
+
+  /**
+   * Idle instances above `min` are stopped after this long.
+   * @default 300000 (5 minutes)
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * How long acquire() waits for an instance when the pool is at `max`.
+   * @default 60000
+   */
+  acquireTimeoutMs?: number;
+
+  /**
+   * Check that the CLI responds before handing out an idle instance.
+   * @default true
+   */
+  healthCheck?: boolean;
+
+  /**
+   * Clear the working directory and CLI session transcripts when an
+   * instance is checked back in, so requests never see each other's files.
+   * @default true
+   */
+  resetOnRelease?: boolean;
+
+  /**
+   * Logger for pool diagnostics.
+   * @default silent
+   */
+  logger?: Logger;
+}
+
+export interface SandboxPoolStats {
+  idle: number;
+  busy: number;
+  creating: number;
+  /** Idle instances being health-checked for an acquire() */
+  checking: number;
+}
+
+export interface ReleaseOptions {
+  /**
+   * Stop the instance instead of returning it to the pool.
+   * @default false
+   */
+  discard?: boolean;
+}
+
+interface PoolEntry {
+  sandbox: SandboxInstance;
+  createdAt: number;
+  idleSince: number;
+}
+
+interface Waiter {
+  resolve: (sandbox: SandboxInstance) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Instances this close to their lifetime limit are retired. */
+const EXPIRY_MARGIN_MS = 60000;
+
+/**
+ * Removes request files: the working directory contents and CLI transcripts.
+ * Transcripts live in the CLI config directory, which providers running on
+ * the host (such as the local provider) point at a per-instance directory
+ * through CLAUDE_CONFIG_DIR.
+ * Usage: bash -c RESET_SCRIPT bash <workingDirectory>
+ */
+const RESET_SCRIPT = 'find "$1" -mindepth 1 -delete && rm -rf "${CLAUDE_CONFIG_DIR:-$HOME/.claude}/projects"';
+
+/**
+ * Pool of warm sandboxes shared across queries.
+ *
+ * @example
+ * ```typescript
+ * const pool = new SandboxPool({ snapshotId: process.env.CLAUDE_SANDBOX_SNAPSHOT_ID, min: 2, max: 8 });
+ * await pool.start();
+ *
+ * // Each query checks an instance out and returns it when done
+ * const text = await query({ prompt: 'Hello!', pool }).text();
+ *
+ * // On shutdown
+ * await pool.close();
+ * ```
+ */
+export class SandboxPool {
+  private provider: SandboxProvider;
+  private min: number;
+  private max: number;
+  private timeout: number;
+  private idleTimeoutMs: number;
+  private acquireTimeoutMs: number;
+  private healthCheck: boolean;
+  private resetOnRelease: boolean;
+  private logger: Logger;
+
+  private idle: PoolEntry[] = [];
+  private busy = new Map<SandboxInstance, PoolEntry>();
+  private creating = 0;
+  private checking = 0;
+  private waiters: Waiter[] = [];
+  private evictionTimer: ReturnType<typeof setInterval> | null = null;
+  private closed = false;
+
+  constructor(private options: SandboxPoolOptions = {}) {
+    this.provider = resolveProvider(options.provider);
+    this.min = options.min ?? 0;
+    this.max = options.max ?? 10;
+    this.timeout = options.timeout ?? 1800000;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 300000;
+    this.acquireTimeoutMs = options.acquireTimeoutMs ?? 60000;
+    this.healthCheck = options.healthCheck ?? true;
+    this.resetOnRelease = options.resetOnRelease ?? true;
+    this.logger = options.logger ?? silentLogger;
+
+    if (options.cliVersion) {
+      assertValidCliVersion(options.cliVersion);
+    }
+    if (this.max < 1 || this.min < 0 || this.min > this.max) {
+      throw new ValidationError('SandboxPool requires 0 <= min <= max and max >= 1', {
+        min: this.min,
+        max: this.max,
+      });
+    }
+  }
+
+  /**
+   * Current pool occupancy.
+   */
+  get stats(): SandboxPoolStats {
+    return { idle: this.idle.length, busy: this.busy.size, creating: this.creating, checking: this.checking };
+  }
+
+  private get total(): number {
+    return this.idle.length + this.busy.size + this.creating + this.checking;
+  }
+
+  /**
+   * Boot instances up to `min` and start idle eviction.
+   */
+  async start(): Promise<void> {
+    if (this.closed) {
+      throw new SandboxError('Sandbox pool is closed');
+    }
+    if (!this.evictionTimer) {
+      this.evictionTimer = setInterval(() => {
+        void this.evict();
+      }, Math.max(1000, Math.min(this.idleTimeoutMs, EXPIRY_MARGIN_MS) / 2));
+      this.evictionTimer.unref?.();
+    }
+    await this.fill();
+  }
+
+  /**
+   * Check out a warm instance, creating one if the pool has room, or
+   * waiting for a release when it is at `max`.
+   */
+  async acquire(): Promise<SandboxInstance> {
+    if (this.closed) {
+      throw new SandboxError('Sandbox pool is closed');
+    }
+
+    // Most recently used first: it is the least likely to have expired
+    let entry = this.idle.pop();
+    while (entry) {
+      // Still counted while checked, so concurrent calls can't exceed max
+      let healthy = false;
+      this.checking++;
+      try {
+        healthy = await this.isHealthy(entry);
+        if (!healthy) {
+          await this.destroy(entry);
+        }
+      } finally {
+        this.checking--;
+      }
+
+      if (healthy) {
+        this.busy.set(entry.sandbox, entry);
+        void this.fill();
+        return entry.sandbox;
+      }
+      entry = this.idle.pop();
+    }
+
+    if (this.total < this.max) {
+      this.creating++;
+      let created: PoolEntry;
+      try {
+        created = await this.createEntry();
+      } finally {
+        this.creating--;
+      }
+      this.busy.set(created.sandbox, created);
+      void this.fill();
+      return created.sandbox;
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          reject(new SandboxTimeoutError(this.acquireTimeoutMs, undefined, 'acquire'));
+        }, this.acquireTimeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Check an instance back in. It is reset and made available again, or
+   * stopped if discarded, expired, or the pool is closed.
+   */
+  async release(sandbox: SandboxInstance, options: ReleaseOptions = {}): Promise<void> {
+    const entry = this.busy.get(sandbox);
+    if (!entry) {
+      return;
+    }
+    this.busy.delete(sandbox);
+
+    if (options.discard || this.closed || this.isExpired(entry)) {
+      await this.destroy(entry);
+    } else if (this.resetOnRelease && !(await this.reset(entry))) {
+      await this.destroy(entry);
+    } else {
+      entry.idleSince = Date.now();
+      this.idle.push(entry);
+    }
+
+    this.wakeWaiter();
+    void this.fill();
+  }
+
+  /**
+   * Stop idle instances and reject pending acquires. Checked-out instances
+   * are stopped when they are released.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new SandboxError('Sandbox pool is closed'));
+    }
+
+    await Promise.all(this.idle.splice(0).map((entry) => this.destroy(entry)));
+  }
+
+  /**
+   * Stop idle instances above `min` that have idled too long, and expired
+   * ones, then top the pool back up.
+   */
+  async evict(): Promise<void> {
+    const now = Date.now();
+    const keep: PoolEntry[] = [];
+    const evicted: PoolEntry[] = [];
+    let surplus = this.total - this.min;
+
+    // Oldest idle first
+    for (const entry of [...this.idle].sort((a, b) => a.idleSince - b.idleSince)) {
+      if (this.isExpired(entry) || (surplus > 0 && now - entry.idleSince >= this.idleTimeoutMs)) {
+        evicted.push(entry);
+        surplus--;
+      } else {
+        keep.push(entry);
+      }
+    }
+
+    this.idle = keep.sort((a, b) => a.idleSince - b.idleSince);
+    await Promise.all(evicted.map((entry) => this.destroy(entry)));
+    await this.fill();
+  }
+
+  /**
+   * Boot instances until the pool holds `min`.
+   */
+  private async fill(): Promise<void> {
+    const missing = this.min - this.total;
+    if (this.closed || missing <= 0) {
+      return;
+    }
+
+    await Promise.all(
+      Array.from({ length: missing }, async () => {
+        this.creating++;
+        try {
+          const entry = await this.createEntry();
+          if (this.closed) {
+            await this.destroy(entry);
+            return;
+          }
+          this.idle.push(entry);
+          this.wakeWaiter();
+        } catch (error) {
+          this.logger.error('Failed to create pooled sandbox', errorFields(error));
+        } finally {
+          this.creating--;
+        }
+      })
+    );
+  }
+
+  private async createEntry(): Promise<PoolEntry> {
+    const createdAt = Date.now();
+
+    const { snapshotId, cliVersion } = this.options;
+    const sandbox = snapshotId
+      ? await this.provider.restore(snapshotId, { timeout: this.timeout })
+      : await this.provider.create({ runtime: 'node24', timeout: this.timeout });
+
+    const logger = withLogFields(this.logger, { sandboxId: sandbox.sandboxId });
+    try {
+      if (!snapshotId && !this.provider.managesCli) {
+        await installClaudeCli(sandbox, cliVersion, logger);
+      } else if (snapshotId && cliVersion) {
+        await ensureClaudeCli(sandbox, cliVersion, logger);
+      }
+    } catch (error) {
+      await sandbox.stop().catch(() => {});
+      throw error;
+    }
+    return { sandbox, createdAt, idleSince: createdAt };
+  }
+
+  /**
+   * Hand capacity freed by a release to the oldest waiting acquire().
+   */
+  private wakeWaiter(): void {
+    if (this.closed || (this.idle.length === 0 && this.total >= this.max)) {
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.acquire().then(waiter.resolve, waiter.reject);
+    }
+  }
+
+  private isExpired(entry: PoolEntry): boolean {
+    return Date.now() - entry.createdAt > this.timeout - EXPIRY_MARGIN_MS;
+  }
+
+  private async isHealthy(entry: PoolEntry): Promise<boolean> {
+    if (this.isExpired(entry)) {
+      return false;
+    }
+    if (!this.healthCheck) {
+      return true;
+    }
+
+    try {
+      const result = await entry.sandbox.runCommand('claude', ['--version']);
+      return result.exitCode === 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private async reset(entry: PoolEntry): Promise<boolean> {
+    try {
+      const result = await entry.sandbox.runCommand('bash', [
+        '-c',
+        RESET_SCRIPT,
+        'bash',
+        entry.sandbox.workingDirectory,
+      ]);
+      return result.exitCode === 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private async destroy(entry: PoolEntry): Promise<void> {
+    try {
+      await entry.sandbox.stop();
+    } catch {
+      // Ignore stop errors
+    }
+  }
+}
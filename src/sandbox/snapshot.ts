@@ -5,8 +5,18 @@
  * to optimize cold start times.
  */
 
-import { Sandbox, Snapshot } from '@vercel/sandbox';
+import { Sandbox } from '@vercel/sandbox';
+import {
+  SandboxInstance,
+  SandboxProvider,
+  SandboxProviderSpec,
+  VercelSandboxInstance,
+  VercelSandboxProvider,
+  resolveProvider,
+} from '../providers/index.js';
 import { SandboxError, wrapError } from '../types/errors.js';
+import { installClaudeCli } from '../transport/cli-install.js';
+import { Logger, silentLogger, withLogFields } from '../logger.js';
 
 export interface SnapshotOptions {
   /**
@@ -14,6 +24,24 @@ export interface SnapshotOptions {
    * @default 300000
    */
   timeout?: number;
+
+  /**
+   * Sandbox provider to create and snapshot the sandbox with.
+   * @default 'vercel'
+   */
+  provider?: SandboxProviderSpec;
+
+  /**
+   * Exact Claude CLI version to install, e.g. '1.0.98'.
+   * @default latest
+   */
+  cliVersion?: string;
+
+  /**
+   * Logger for snapshot progress.
+   * @default silent
+   */
+  logger?: Logger;
 }
 
 export interface SnapshotInfo {
@@ -69,45 +97,33 @@ export async function createSnapshot(
   options: SnapshotOptions = {}
 ): Promise<string> {
   const timeout = options.timeout ?? 300000;
+  const provider = resolveProvider(options.provider);
+  let logger = options.logger ?? silentLogger;
 
-  let sandbox: Sandbox | null = null;
+  let sandbox: SandboxInstance | null = null;
 
   try {
-    console.log('Creating sandbox for snapshot...');
+    logger.info('Creating sandbox for snapshot');
 
     // Create a fresh sandbox
-    sandbox = await Sandbox.create({
+    sandbox = await provider.create({
       runtime: 'node24',
       timeout,
     });
+    logger = withLogFields(logger, { sandboxId: sandbox.sandboxId });
 
-    console.log('Installing Claude CLI...');
+    // Install and verify Claude CLI
+    await installClaudeCli(sandbox, options.cliVersion, logger);
 
-    // Install Claude CLI
-    const installResult = await sandbox.runCommand('npm', [
-      'install',
-      '-g',
-      '@anthropic-ai/claude-code',
-    ]);
-
-    if (installResult.exitCode !== 0) {
-      const stderr = await installResult.stderr();
-      throw new SandboxError(`Failed to install Claude CLI: ${stderr}`);
-    }
-
-    // Verify installation
-    const verifyResult = await sandbox.runCommand('which', ['claude']);
-    if (verifyResult.exitCode !== 0) {
-      throw new SandboxError('Claude CLI not found after installation');
-    }
-
-    console.log('Creating snapshot...');
+    logger.info('Creating snapshot');
 
     // Create the snapshot (this also stops the sandbox)
     const snapshot = await sandbox.snapshot();
 
-    console.log(`Snapshot created: ${snapshot.snapshotId}`);
-    console.log(`Expires: ${snapshot.expiresAt.toISOString()}`);
+    logger.info('Snapshot created', {
+      snapshotId: snapshot.snapshotId,
+      expiresAt: snapshot.expiresAt?.toISOString(),
+    });
 
     return snapshot.snapshotId;
   } catch (error) {
@@ -124,7 +140,10 @@ export async function createSnapshot(
 }
 
 /**
- * Restore a sandbox from a snapshot.
+ * Restore a Vercel sandbox from a snapshot.
+ *
+ * Returns the Vercel `Sandbox` itself. To restore through another sandbox
+ * provider, use restoreSandboxSnapshot().
  *
  * @example
  * ```typescript
@@ -134,7 +153,7 @@ export async function createSnapshot(
  */
 export async function restoreFromSnapshot(
   snapshotId: string,
-  options: SnapshotOptions = {}
+  options: Pick<SnapshotOptions, 'timeout'> = {}
 ): Promise<Sandbox> {
   const timeout = options.timeout ?? 300000;
 
@@ -153,20 +172,53 @@ export async function restoreFromSnapshot(
   }
 }
 
+/**
+ * Restore a sandbox from a snapshot with any sandbox provider.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = await restoreSandboxSnapshot(snapshotId, { provider: 'local' });
+ * await sandbox.runCommand('claude', ['--version']);
+ * ```
+ */
+export async function restoreSandboxSnapshot(
+  snapshotId: string,
+  options: SnapshotOptions = {}
+): Promise<SandboxInstance> {
+  const timeout = options.timeout ?? 300000;
+  const provider = resolveProvider(options.provider);
+
+  try {
+    return await provider.restore(snapshotId, { timeout });
+  } catch (error) {
+    throw wrapError(error, `Failed to restore snapshot ${snapshotId}`);
+  }
+}
+
+/**
+ * Ensure a provider implements an optional snapshot management method.
+ */
+function requireCapability<K extends 'getSnapshot' | 'deleteSnapshot' | 'listSnapshots'>(
+  provider: SandboxProvider,
+  method: K
+): NonNullable<SandboxProvider[K]> {
+  const fn = provider[method];
+  if (!fn) {
+    throw new SandboxError(`Provider '${provider.name}' does not support ${method}()`);
+  }
+  return fn.bind(provider) as NonNullable<SandboxProvider[K]>;
+}
+
 /**
  * Get information about a snapshot.
  */
-export async function getSnapshotInfo(snapshotId: string): Promise<SnapshotInfo> {
+export async function getSnapshotInfo(
+  snapshotId: string,
+  options: Pick<SnapshotOptions, 'provider'> = {}
+): Promise<SnapshotInfo> {
   try {
-    const snapshot = await Snapshot.get({ snapshotId });
-
-    return {
-      id: snapshot.snapshotId,
-      createdAt: snapshot.createdAt,
-      expiresAt: snapshot.expiresAt,
-      sizeBytes: snapshot.sizeBytes,
-      status: snapshot.status,
-    };
+    const getSnapshot = requireCapability(resolveProvider(options.provider), 'getSnapshot');
+    return await getSnapshot(snapshotId);
   } catch (error) {
     throw wrapError(error, `Failed to get snapshot info: ${snapshotId}`);
   }
@@ -175,10 +227,13 @@ export async function getSnapshotInfo(snapshotId: string): Promise<SnapshotInfo>
 /**
  * Delete a snapshot.
  */
-export async function deleteSnapshot(snapshotId: string): Promise<void> {
+export async function deleteSnapshot(
+  snapshotId: string,
+  options: Pick<SnapshotOptions, 'provider'> = {}
+): Promise<void> {
   try {
-    const snapshot = await Snapshot.get({ snapshotId });
-    await snapshot.delete();
+    const remove = requireCapability(resolveProvider(options.provider), 'deleteSnapshot');
+    await remove(snapshotId);
   } catch (error) {
     throw wrapError(error, `Failed to delete snapshot: ${snapshotId}`);
   }
@@ -191,31 +246,43 @@ export async function listSnapshots(options?: {
   limit?: number;
   since?: Date;
   until?: Date;
+  provider?: SandboxProviderSpec;
 }): Promise<SnapshotInfo[]> {
   try {
-    const result = await Snapshot.list({
+    const list = requireCapability(resolveProvider(options?.provider), 'listSnapshots');
+    return await list({
       limit: options?.limit,
       since: options?.since,
       until: options?.until,
     });
-
-    return result.json.snapshots.map((s) => ({
-      id: s.id,
-      createdAt: new Date(s.createdAt),
-      expiresAt: new Date(s.expiresAt),
-      sizeBytes: s.sizeBytes,
-      status: s.status,
-    }));
   } catch (error) {
     throw wrapError(error, 'Failed to list snapshots');
   }
 }
 
 /**
- * Create a snapshot with additional setup beyond just the CLI.
+ * Setup run in a sandbox before it is snapshotted.
+ */
+interface CustomSnapshotSetup<TSandbox> {
+  /**
+   * Custom setup function to run before creating the snapshot.
+   */
+  setup?: (sandbox: TSandbox) => Promise<void>;
+
+  /**
+   * Whether to install Claude CLI.
+   * @default true
+   */
+  installCli?: boolean;
+}
+
+/**
+ * Create a Vercel snapshot with additional setup beyond just the CLI.
  *
  * Use this when you want to include project files, dependencies,
- * or other setup in your snapshot.
+ * or other setup in your snapshot. `setup` receives the Vercel `Sandbox`;
+ * to snapshot through another sandbox provider, use
+ * createCustomSandboxSnapshot().
  *
  * @example
  * ```typescript
@@ -237,55 +304,66 @@ export async function listSnapshots(options?: {
  * ```
  */
 export async function createCustomSnapshot(
-  options: SnapshotOptions & {
-    /**
-     * Custom setup function to run before creating the snapshot.
-     */
-    setup?: (sandbox: Sandbox) => Promise<void>;
-
-    /**
-     * Whether to install Claude CLI.
-     * @default true
-     */
-    installCli?: boolean;
-  }
+  options: Omit<SnapshotOptions, 'provider'> & CustomSnapshotSetup<Sandbox>
+): Promise<string> {
+  const { setup, ...snapshotOptions } = options;
+
+  return createCustomSandboxSnapshot({
+    ...snapshotOptions,
+    provider: new VercelSandboxProvider(),
+    setup: setup && ((instance) => setup((instance as VercelSandboxInstance).sandbox)),
+  });
+}
+
+/**
+ * Create a snapshot with additional setup with any sandbox provider.
+ * `setup` receives the provider's SandboxInstance.
+ *
+ * @example
+ * ```typescript
+ * const snapshotId = await createCustomSandboxSnapshot({
+ *   provider: 'local',
+ *   setup: async (sandbox) => {
+ *     await sandbox.runCommand('npm', ['install'], {
+ *       cwd: `${sandbox.workingDirectory}/project`
+ *     });
+ *   },
+ * });
+ * ```
+ */
+export async function createCustomSandboxSnapshot(
+  options: SnapshotOptions & CustomSnapshotSetup<SandboxInstance>
 ): Promise<string> {
   const { setup, installCli = true, ...snapshotOptions } = options;
   const timeout = snapshotOptions.timeout ?? 300000;
+  const provider = resolveProvider(snapshotOptions.provider);
+  let logger = snapshotOptions.logger ?? silentLogger;
 
-  let sandbox: Sandbox | null = null;
+  let sandbox: SandboxInstance | null = null;
 
   try {
     // Create a fresh sandbox
-    sandbox = await Sandbox.create({
+    sandbox = await provider.create({
       runtime: 'node24',
       timeout,
     });
+    logger = withLogFields(logger, { sandboxId: sandbox.sandboxId });
 
     // Install Claude CLI if requested
     if (installCli) {
-      console.log('Installing Claude CLI...');
-      const installResult = await sandbox.runCommand('npm', [
-        'install',
-        '-g',
-        '@anthropic-ai/claude-code',
-      ]);
-
-      if (installResult.exitCode !== 0) {
-        const stderr = await installResult.stderr();
-        throw new SandboxError(`Failed to install Claude CLI: ${stderr}`);
-      }
+      await installClaudeCli(sandbox, snapshotOptions.cliVersion, logger);
     }
 
     // Run custom setup
     if (setup) {
-      console.log('Running custom setup...');
+      logger.info('Running custom setup');
       await setup(sandbox);
     }
 
     // Create the snapshot
-    console.log('Creating snapshot...');
+    logger.info('Creating snapshot');
     const snapshot = await sandbox.snapshot();
+    logger.info('Snapshot created', { snapshotId: snapshot.snapshotId });
 
     return snapshot.snapshotId;
   } catch (error) {
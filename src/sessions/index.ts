@@ -0,0 +1,17 @@
+/**
+ * Session Persistence Exports
+ */
+
+export {
+  MemorySessionStore,
+  FileSessionStore,
+  assertValidSessionId,
+  type SessionStore,
+} from './store.js';
+
+export {
+  exportTranscript,
+  importTranscript,
+  projectDirName,
+  cliSessionIdFrom,
+} from './transcript.js';
@@ -0,0 +1,99 @@
+/**
+ * Session Stores
+ *
+ * Storage adapters for CLI session transcripts (the JSONL files the CLI
+ * keeps under ~/.claude/projects). Persisting a transcript lets a later
+ * query resume the conversation in a brand-new sandbox, without keeping
+ * a snapshot alive.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ValidationError } from '../types/errors.js';
+
+/**
+ * Pluggable storage for CLI session transcripts.
+ * Implement this to keep transcripts in S3, a database, KV, etc.
+ */
+export interface SessionStore {
+  /**
+   * Save (or overwrite) the transcript for a session.
+   */
+  save(sessionId: string, transcript: string): Promise<void>;
+
+  /**
+   * Load a transcript, or null if the session is unknown.
+   */
+  load(sessionId: string): Promise<string | null>;
+
+  /**
+   * Delete a stored transcript (optional).
+   */
+  delete?(sessionId: string): Promise<void>;
+}
+
+/**
+ * Ensure a session ID is safe to use as a file name.
+ *
+ * @throws {ValidationError} if the ID contains anything but letters,
+ * digits, '-' and '_'
+ */
+export function assertValidSessionId(sessionId: string): void {
+  if (!/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+    throw new ValidationError(`Invalid session ID: ${sessionId}`, { sessionId });
+  }
+}
+
+/**
+ * In-memory session store (per process). Useful for tests and
+ * long-running servers.
+ */
+export class MemorySessionStore implements SessionStore {
+  private transcripts = new Map<string, string>();
+
+  async save(sessionId: string, transcript: string): Promise<void> {
+    this.transcripts.set(sessionId, transcript);
+  }
+
+  async load(sessionId: string): Promise<string | null> {
+    return this.transcripts.get(sessionId) ?? null;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.transcripts.delete(sessionId);
+  }
+}
+
+/**
+ * Session store that keeps each transcript as `<sessionId>.jsonl`
+ * in a directory on the host.
+ */
+export class FileSessionStore implements SessionStore {
+  constructor(private directory: string) {}
+
+  private pathFor(sessionId: string): string {
+    assertValidSessionId(sessionId);
+    return join(this.directory, `${sessionId}.jsonl`);
+  }
+
+  async save(sessionId: string, transcript: string): Promise<void> {
+    const path = this.pathFor(sessionId);
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path, transcript, 'utf-8');
+  }
+
+  async load(sessionId: string): Promise<string | null> {
+    try {
+      return await readFile(this.pathFor(sessionId), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await rm(this.pathFor(sessionId), { force: true });
+  }
+}
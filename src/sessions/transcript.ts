@@ -0,0 +1,95 @@
+/**
+ * Session Transcripts
+ *
+ * Move CLI session transcripts between a sandbox and the host.
+ * The CLI stores each session as
+ * `<config>/projects/<project>/<sessionId>.jsonl`, where `<config>` is
+ * `$CLAUDE_CONFIG_DIR` (default `$HOME/.claude`) and `<project>` is the
+ * session's working directory with every non-alphanumeric character
+ * replaced by '-'.
+ */
+
+import { SandboxInstance } from '../providers/types.js';
+import { SDKMessage, isResultMessage } from '../types/messages.js';
+import { SandboxError } from '../types/errors.js';
+import { assertValidSessionId } from './store.js';
+
+/** The CLI's config directory, as seen by commands in the sandbox */
+const CONFIG_DIR = '${CLAUDE_CONFIG_DIR:-$HOME/.claude}';
+
+/**
+ * Name of the CLI's project directory for a working directory.
+ */
+export function projectDirName(cwd: string): string {
+  return cwd.replace(/[^A-Za-z0-9]/g, '-');
+}
+
+/**
+ * The CLI's own session ID carried by an init or result message, or null.
+ * Messages without one carry an SDK-generated ID (`generatedId`), which the
+ * CLI cannot resume.
+ */
+export function cliSessionIdFrom(message: SDKMessage, generatedId: string | null): string | null {
+  const isSessionMessage =
+    (message.type === 'system' && message.subtype === 'init') || isResultMessage(message);
+
+  if (isSessionMessage && message.session_id && message.session_id !== generatedId) {
+    return message.session_id;
+  }
+  return null;
+}
+
+/**
+ * Read a session transcript from the sandbox, or null if the CLI
+ * did not write one.
+ */
+export async function exportTranscript(
+  sandbox: SandboxInstance,
+  sessionId: string
+): Promise<string | null> {
+  assertValidSessionId(sessionId);
+
+  const found = await sandbox.runCommand('bash', [
+    '-c',
+    `find "${CONFIG_DIR}/projects" -name "$1" -print -quit 2>/dev/null`,
+    'bash',
+    `${sessionId}.jsonl`,
+  ]);
+  const path = found.stdout.trim();
+  if (!path) {
+    return null;
+  }
+
+  const content = await sandbox.readFile(path);
+  return content === null ? null : content.toString('utf-8');
+}
+
+/**
+ * Write a session transcript into the sandbox so the CLI can
+ * `--resume` it from `cwd`.
+ */
+export async function importTranscript(
+  sandbox: SandboxInstance,
+  sessionId: string,
+  transcript: string,
+  cwd: string
+): Promise<void> {
+  assertValidSessionId(sessionId);
+
+  // Ask the sandbox where the CLI will look: providers may map `cwd` (and
+  // resolve symlinks in it) and give each instance its own config directory
+  const located = await sandbox.runCommand('bash', [
+    '-c',
+    `(cd "$1" 2>/dev/null && pwd -P) || printf '%s\\n' "$1"; printf %s "${CONFIG_DIR}"`,
+    'bash',
+    cwd,
+  ]);
+  const [projectCwd, configDirectory] = located.stdout.split('\n').map((line) => line.trim());
+  if (located.exitCode !== 0 || !projectCwd || !configDirectory) {
+    throw new SandboxError('Failed to locate the sandbox CLI config directory');
+  }
+
+  const directory = `${configDirectory}/projects/${projectDirName(projectCwd)}`;
+  await sandbox.mkdir(directory);
+  await sandbox.writeFiles([{ path: `${directory}/${sessionId}.jsonl`, content: transcript }]);
+}
@@ -0,0 +1,493 @@
+/**
+ * Fake Sandbox Provider
+ *
+ * A scriptable, in-memory SandboxProvider for deterministic tests.
+ * It plays back scripted NDJSON output, exit codes and stderr for each
+ * command, keeps an in-memory filesystem, and records every command and
+ * file write for assertions. No network or processes are involved.
+ */
+
+import { CommandResult } from '../types/options.js';
+import { SandboxError } from '../types/errors.js';
+import { generateUuid } from '../types/messages.js';
+import {
+  SandboxProvider,
+  SandboxInstance,
+  SandboxCommand,
+  SandboxCreateOptions,
+  RunCommandOptions,
+  DetachedCommandParams,
+  CommandLog,
+  InstanceSnapshot,
+} from '../providers/types.js';
+
+/**
+ * A command invocation recorded by the fake provider.
+ */
+export interface RecordedCommand {
+  sandboxId: string;
+  cmd: string;
+  args: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  detached: boolean;
+  /** Data written to stdin (detached commands started with `stdin: true`) */
+  stdin?: string[];
+}
+
+/**
+ * A file write recorded by the fake provider.
+ */
+export interface RecordedFileWrite {
+  sandboxId: string;
+  path: string;
+  content: string;
+}
+
+/**
+ * Scripted response for one (or every) matching command.
+ */
+export interface FakeCommandScript {
+  /**
+   * Which commands this script answers. A string matches the executable
+   * name, a RegExp is tested against "cmd arg1 arg2...", and a function
+   * receives the recorded command.
+   * @default matches any command
+   */
+  match?: string | RegExp | ((command: RecordedCommand) => boolean);
+
+  /**
+   * Raw stdout chunks, emitted in order.
+   */
+  stdout?: string[];
+
+  /**
+   * Messages to emit on stdout as NDJSON lines (after `stdout` chunks).
+   */
+  messages?: Array<Record<string, unknown>>;
+
+  /**
+   * Stderr output, emitted after stdout.
+   */
+  stderr?: string;
+
+  /**
+   * Exit code of the command.
+   * @default 0
+   */
+  exitCode?: number;
+
+  /**
+   * Delay in milliseconds before each output chunk (detached commands only).
+   */
+  delayMs?: number;
+
+  /**
+   * Reply to NDJSON lines written to stdin (commands started with
+   * `stdin: true`). Returned messages are emitted on stdout; the command
+   * exits once stdin is closed.
+   */
+  onInput?: (input: Record<string, unknown>) => Array<Record<string, unknown>>;
+
+  /**
+   * Answer every matching call instead of being consumed by the first one.
+   * @default false
+   */
+  repeat?: boolean;
+}
+
+export interface FakeSandboxProviderOptions {
+  /**
+   * Scripts consulted in order for each command.
+   */
+  scripts?: FakeCommandScript[];
+
+  /**
+   * Files present in every new instance.
+   */
+  files?: Record<string, string>;
+
+  /**
+   * Working directory reported by instances.
+   * @default '/vercel/sandbox'
+   */
+  workingDirectory?: string;
+
+  /**
+   * Version printed by the default `claude --version` response.
+   * @default '1.0.0 (Claude Code)'
+   */
+  cliVersion?: string;
+}
+
+/**
+ * Build a script for one Claude CLI run that streams the given messages.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FakeSandboxProvider({
+ *   scripts: [
+ *     fakeClaudeRun([
+ *       { type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: 'Hi' }] } },
+ *       { type: 'result', subtype: 'success', result: 'Hi', total_cost_usd: 0.001 },
+ *     ]),
+ *   ],
+ * });
+ * ```
+ */
+export function fakeClaudeRun(
+  messages: Array<Record<string, unknown>>,
+  options: Omit<FakeCommandScript, 'match' | 'messages'> = {}
+): FakeCommandScript {
+  return {
+    ...options,
+    match: isClaudeRun,
+    messages,
+  };
+}
+
+/**
+ * Whether a recorded command is a Claude CLI session (not a version check).
+ */
+export function isClaudeRun(command: RecordedCommand): boolean {
+  return command.cmd === 'claude' && command.args.includes('--print');
+}
+
+function matches(script: FakeCommandScript, command: RecordedCommand): boolean {
+  const { match } = script;
+  if (match === undefined) {
+    return true;
+  }
+  if (typeof match === 'string') {
+    return command.cmd === match;
+  }
+  if (match instanceof RegExp) {
+    return match.test([command.cmd, ...command.args].join(' '));
+  }
+  return match(command);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Output chunks a script produces, in emission order.
+ */
+function scriptLogs(script: FakeCommandScript): CommandLog[] {
+  const logs: CommandLog[] = [];
+  for (const data of script.stdout ?? []) {
+    logs.push({ stream: 'stdout', data });
+  }
+  for (const message of script.messages ?? []) {
+    logs.push({ stream: 'stdout', data: JSON.stringify(message) + '\n' });
+  }
+  if (script.stderr) {
+    logs.push({ stream: 'stderr', data: script.stderr });
+  }
+  return logs;
+}
+
+/**
+ * Detached command that replays a script.
+ */
+class FakeSandboxCommand implements SandboxCommand {
+  private killed = false;
+  private started = false;
+  private done: Promise<void>;
+  private markDone!: () => void;
+  private stdinOpen: boolean;
+  private stdinBuffer = '';
+  private replies: CommandLog[] = [];
+  private wake: (() => void) | null = null;
+
+  constructor(
+    private script: FakeCommandScript,
+    private recorded: RecordedCommand,
+    stdin: boolean
+  ) {
+    this.stdinOpen = stdin;
+    this.done = new Promise((resolve) => {
+      this.markDone = resolve;
+    });
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+
+  async *logs(): AsyncGenerator<CommandLog, void, undefined> {
+    this.started = true;
+    try {
+      for (const log of scriptLogs(this.script)) {
+        if (this.script.delayMs) {
+          await delay(this.script.delayMs);
+        }
+        if (this.killed) {
+          return;
+        }
+        yield log;
+      }
+
+      // Emit replies to stdin input until stdin is closed
+      while (!this.killed) {
+        const reply = this.replies.shift();
+        if (reply) {
+          yield reply;
+          continue;
+        }
+        if (!this.stdinOpen) {
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          this.wake = resolve;
+        });
+      }
+    } finally {
+      this.markDone();
+    }
+  }
+
+  async writeStdin(data: string): Promise<void> {
+    if (!this.stdinOpen) {
+      throw new SandboxError('Command stdin is not open');
+    }
+    this.recorded.stdin?.push(data);
+
+    this.stdinBuffer += data;
+    const lines = this.stdinBuffer.split('\n');
+    this.stdinBuffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim() || !this.script.onInput) {
+        continue;
+      }
+      for (const message of this.script.onInput(JSON.parse(line) as Record<string, unknown>)) {
+        this.replies.push({ stream: 'stdout', data: JSON.stringify(message) + '\n' });
+      }
+    }
+    this.notify();
+  }
+
+  async closeStdin(): Promise<void> {
+    this.stdinOpen = false;
+    this.notify();
+  }
+
+  async wait(): Promise<{ exitCode: number }> {
+    // Wait for streaming output to finish if it is being consumed
+    if (this.started && !this.killed) {
+      await this.done;
+    }
+    return { exitCode: this.killed ? 143 : (this.script.exitCode ?? 0) };
+  }
+
+  async kill(): Promise<void> {
+    this.killed = true;
+    this.notify();
+    this.markDone();
+  }
+}
+
+/**
+ * In-memory sandbox instance.
+ */
+export class FakeSandboxInstance implements SandboxInstance {
+  readonly sandboxId = `fake_${generateUuid()}`;
+  readonly files = new Map<string, string>();
+  stopped = false;
+
+  constructor(
+    readonly workingDirectory: string,
+    private provider: FakeSandboxProvider,
+    files: Record<string, string> | Map<string, string> = {}
+  ) {
+    const entries = files instanceof Map ? files.entries() : Object.entries(files);
+    for (const [path, content] of entries) {
+      this.files.set(this.resolvePath(path), content);
+    }
+  }
+
+  private resolvePath(path: string): string {
+    return path.startsWith('/') ? path : `${this.workingDirectory}/${path}`;
+  }
+
+  private ensureRunning(): void {
+    if (this.stopped) {
+      throw new SandboxError(`Sandbox ${this.sandboxId} is stopped`);
+    }
+  }
+
+  private record(cmd: string, args: string[], options: RunCommandOptions, detached: boolean): RecordedCommand {
+    this.ensureRunning();
+    const command: RecordedCommand = {
+      sandboxId: this.sandboxId,
+      cmd,
+      args,
+      cwd: options.cwd,
+      env: options.env,
+      detached,
+    };
+    this.provider.commands.push(command);
+    return command;
+  }
+
+  async runCommand(
+    cmd: string,
+    args: string[] = [],
+    options: RunCommandOptions = {}
+  ): Promise<CommandResult> {
+    const script = this.provider.nextScript(this.record(cmd, args, options, false));
+    const logs = scriptLogs(script);
+    return {
+      exitCode: script.exitCode ?? 0,
+      stdout: logs.filter((l) => l.stream === 'stdout').map((l) => l.data).join(''),
+      stderr: logs.filter((l) => l.stream === 'stderr').map((l) => l.data).join(''),
+    };
+  }
+
+  async runDetached(params: DetachedCommandParams): Promise<SandboxCommand> {
+    const command = this.record(params.cmd, params.args ?? [], params, true);
+    if (params.stdin) {
+      command.stdin = [];
+    }
+    return new FakeSandboxCommand(this.provider.nextScript(command), command, params.stdin ?? false);
+  }
+
+  async writeFiles(files: Array<{ path: string; content: string | Buffer }>): Promise<void> {
+    this.ensureRunning();
+    for (const file of files) {
+      const path = this.resolvePath(file.path);
+      const content = file.content.toString();
+      this.files.set(path, content);
+      this.provider.fileWrites.push({ sandboxId: this.sandboxId, path, content });
+    }
+  }
+
+  async readFile(path: string): Promise<Buffer | null> {
+    this.ensureRunning();
+    const content = this.files.get(this.resolvePath(path));
+    return content === undefined ? null : Buffer.from(content, 'utf-8');
+  }
+
+  async mkdir(path: string): Promise<void> {
+    this.ensureRunning();
+    this.provider.directories.add(this.resolvePath(path));
+  }
+
+  async snapshot(): Promise<InstanceSnapshot> {
+    this.ensureRunning();
+    const snapshotId = `fake_snap_${generateUuid()}`;
+    this.provider.snapshots.set(snapshotId, new Map(this.files));
+    this.stopped = true;
+    return { snapshotId, createdAt: new Date() };
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+  }
+}
+
+/**
+ * Scriptable in-memory provider for unit tests.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FakeSandboxProvider({
+ *   scripts: [fakeClaudeRun([{ type: 'result', subtype: 'success', result: 'done' }])],
+ * });
+ *
+ * const q = query({ prompt: 'Hi', provider, apiKey: 'test', snapshotEnabled: false });
+ * await q.collect();
+ *
+ * expect(provider.commands.filter(isClaudeRun)).toHaveLength(1);
+ * ```
+ */
+export class FakeSandboxProvider implements SandboxProvider {
+  readonly name = 'fake';
+
+  /** Every command run on any instance, in order. */
+  readonly commands: RecordedCommand[] = [];
+
+  /** Every file write on any instance, in order. */
+  readonly fileWrites: RecordedFileWrite[] = [];
+
+  /** Directories created with mkdir(). */
+  readonly directories = new Set<string>();
+
+  /** Instances created by this provider. */
+  readonly instances: FakeSandboxInstance[] = [];
+
+  /** Snapshot contents by snapshot ID. */
+  readonly snapshots = new Map<string, Map<string, string>>();
+
+  private scripts: FakeCommandScript[];
+  private workingDirectory: string;
+  private initialFiles: Record<string, string>;
+  private cliVersion: string;
+
+  constructor(options: FakeSandboxProviderOptions = {}) {
+    this.scripts = [...(options.scripts ?? [])];
+    this.workingDirectory = options.workingDirectory ?? '/vercel/sandbox';
+    this.initialFiles = options.files ?? {};
+    this.cliVersion = options.cliVersion ?? '1.0.0 (Claude Code)';
+  }
+
+  /**
+   * Append a script to the queue.
+   */
+  script(script: FakeCommandScript): this {
+    this.scripts.push(script);
+    return this;
+  }
+
+  /**
+   * Claude CLI session runs recorded so far (excluding version checks).
+   */
+  claudeRuns(): RecordedCommand[] {
+    return this.commands.filter(isClaudeRun);
+  }
+
+  /**
+   * Find the script answering a command, consuming it unless it repeats.
+   * Unscripted commands succeed with no output, except `claude --version`.
+   * @internal
+   */
+  nextScript(command: RecordedCommand): FakeCommandScript {
+    const index = this.scripts.findIndex((script) => matches(script, command));
+    if (index >= 0) {
+      const script = this.scripts[index]!;
+      if (!script.repeat) {
+        this.scripts.splice(index, 1);
+      }
+      return script;
+    }
+
+    if (command.cmd === 'claude' && command.args.includes('--version')) {
+      return { stdout: [`${this.cliVersion}\n`] };
+    }
+    return {};
+  }
+
+  async create(_options: SandboxCreateOptions = {}): Promise<FakeSandboxInstance> {
+    const instance = new FakeSandboxInstance(this.workingDirectory, this, this.initialFiles);
+    this.instances.push(instance);
+    return instance;
+  }
+
+  async restore(snapshotId: string, _options: SandboxCreateOptions = {}): Promise<FakeSandboxInstance> {
+    const files = this.snapshots.get(snapshotId);
+    if (!files) {
+      throw new SandboxError(`Snapshot not found: ${snapshotId}`);
+    }
+    const instance = new FakeSandboxInstance(this.workingDirectory, this, files);
+    this.instances.push(instance);
+    return instance;
+  }
+
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    this.snapshots.delete(snapshotId);
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Testing Utilities Exports
+ */
+
+export {
+  FakeSandboxProvider,
+  FakeSandboxInstance,
+  fakeClaudeRun,
+  isClaudeRun,
+} from './fake-provider.js';
+export type {
+  FakeSandboxProviderOptions,
+  FakeCommandScript,
+  RecordedCommand,
+  RecordedFileWrite,
+} from './fake-provider.js';
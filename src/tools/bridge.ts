@@ -0,0 +1,540 @@
+/**
+ * Host Tool Bridge
+ *
+ * Exposes host-side custom tools to the Claude CLI inside a sandbox as a
+ * genuine MCP server. A small dependency-free stdio MCP server runs in the
+ * sandbox; each tools/call it receives is written to a request file. A
+ * watcher process in the sandbox streams new request files to the host over
+ * its stdout (falling back to polling if it can't run); the host runs the
+ * tool with executeTool() and answers with a response file. Tool use therefore happens natively mid-turn, with real
+ * tool_use/tool_result blocks, while handlers keep access to host resources.
+ * Host agent hooks are relayed through the same request files.
+ */
+
+import { z } from 'zod';
+import { SandboxCommand, SandboxInstance } from '../providers/types.js';
+import { SandboxError } from '../types/errors.js';
+import { Logger, errorFields, silentLogger } from '../logger.js';
+import { SpanNames, Tracer, withSpan } from '../tracing.js';
+import type { CanUseTool, HookEvent, PermissionResult } from '../types/options.js';
+import { generateUuid } from '../types/messages.js';
+import { ToolDefinition, toolToJsonSchema } from './types.js';
+import { executeTool, tool, textResult } from './tool.js';
+import { toCallToolResult } from './mcp-server.js';
+import { HOOK_RELAY_SCRIPT, HookCallbacks, HookRequest, buildHookSettings, runHookCallbacks } from './hooks.js';
+
+/**
+ * Default MCP server name for bridged tools.
+ * The CLI exposes them as `mcp__<serverName>__<toolName>`.
+ */
+export const DEFAULT_BRIDGE_SERVER_NAME = 'host-tools';
+
+export interface ToolBridgeOptions {
+  /**
+   * MCP server name the tools are registered under.
+   * @default 'host-tools'
+   */
+  serverName?: string;
+
+  /**
+   * Directory inside the sandbox used for the server script and
+   * request/response files.
+   * @default `/tmp/claude-tool-bridge-<uuid>`
+   */
+  directory?: string;
+
+  /**
+   * How often the host polls for tool calls, in milliseconds, when the
+   * request watcher can't run in the sandbox.
+   * @default 250
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * How long the in-sandbox server waits for the host to answer a call.
+   * @default 600000
+   */
+  callTimeoutMs?: number;
+
+  /**
+   * Logger for bridge diagnostics.
+   * @default silent
+   */
+  logger?: Logger;
+
+  /**
+   * Tracer receiving a span per tool call.
+   */
+  tracer?: Tracer;
+
+  /**
+   * Host agent hook callbacks to relay. See hookSettings().
+   */
+  hooks?: HookCallbacks;
+
+  /**
+   * Signal passed to hook callbacks.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Name of the bridged tool answering the CLI's permission prompts.
+ */
+export const PERMISSION_PROMPT_TOOL_NAME = 'permission_prompt';
+
+/**
+ * Build the tool the CLI calls (via --permission-prompt-tool) before using
+ * a tool that needs permission. The decision comes from canUseTool on the
+ * host; a failing callback denies the request.
+ */
+export function createPermissionPromptTool(canUseTool: CanUseTool, signal: AbortSignal): ToolDefinition {
+  return tool(
+    PERMISSION_PROMPT_TOOL_NAME,
+    'Decide whether a tool may be used',
+    {
+      tool_name: z.string(),
+      input: z.record(z.string(), z.unknown()),
+      tool_use_id: z.string().optional(),
+    },
+    async ({ tool_name, input }) => {
+      let decision: PermissionResult;
+      try {
+        decision = await canUseTool(tool_name, input, { signal });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        decision = { behavior: 'deny', message: `Permission check failed: ${message}` };
+      }
+
+      const response = decision.behavior === 'allow'
+        ? { behavior: 'allow', updatedInput: decision.updatedInput ?? input }
+        : { behavior: 'deny', message: decision.message };
+      return textResult(JSON.stringify(response));
+    }
+  );
+}
+
+/**
+ * A tool call or hook event relayed from the sandbox.
+ */
+interface BridgeRequest {
+  id: string;
+  /** Absent for tool calls */
+  kind?: 'hook';
+  /** Tool name, or hook event name */
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * MCP stdio server run by the CLI inside the sandbox.
+ * Usage: node mcp-bridge.cjs <directory> <serverName>
+ */
+const BRIDGE_SERVER_SCRIPT = `'use strict';
+const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+
+const dir = process.argv[2];
+const serverName = process.argv[3] || 'host-tools';
+const tools = JSON.parse(fs.readFileSync(path.join(dir, 'tools.json'), 'utf8'));
+const pollMs = Number(process.env.TOOL_BRIDGE_POLL_MS || 50);
+const timeoutMs = Number(process.env.TOOL_BRIDGE_TIMEOUT_MS || 600000);
+let counter = 0;
+
+function send(message) {
+  process.stdout.write(JSON.stringify(message) + '\\n');
+}
+
+function callTool(params) {
+  const id = process.pid + '-' + (++counter) + '-' + Date.now();
+  const request = path.join(dir, 'requests', id + '.json');
+  const response = path.join(dir, 'responses', id + '.json');
+  fs.writeFileSync(request + '.tmp', JSON.stringify({ id: id, name: params.name, arguments: params.arguments || {} }));
+  fs.renameSync(request + '.tmp', request);
+
+  const started = Date.now();
+  return new Promise(function (resolve) {
+    function poll() {
+      let text = null;
+      try { text = fs.readFileSync(response, 'utf8'); } catch (e) { /* not answered yet */ }
+      if (text) {
+        try {
+          const result = JSON.parse(text);
+          fs.rmSync(response, { force: true });
+          return resolve(result);
+        } catch (e) { /* partially written */ }
+      }
+      if (Date.now() - started > timeoutMs) {
+        return resolve({ content: [{ type: 'text', text: 'Tool call timed out waiting for the host' }], isError: true });
+      }
+      setTimeout(poll, pollMs);
+    }
+    poll();
+  });
+}
+
+async function handle(method, params) {
+  switch (method) {
+    case 'initialize':
+      return {
+        protocolVersion: (params && params.protocolVersion) || '2024-11-05',
+        capabilities: { tools: {} },
+        serverInfo: { name: serverName, version: '1.0.0' },
+      };
+    case 'tools/list':
+      return { tools: tools };
+    case 'tools/call':
+      return callTool(params || {});
+    case 'ping':
+      return {};
+    default:
+      throw { code: -32601, message: 'Method not found: ' + method };
+  }
+}
+
+readline.createInterface({ input: process.stdin }).on('line', function (line) {
+  let message;
+  try { message = JSON.parse(line); } catch (e) { return; }
+  if (message.id === undefined || message.id === null) {
+    return; // notification
+  }
+  handle(message.method, message.params).then(
+    function (result) { send({ jsonrpc: '2.0', id: message.id, result: result }); },
+    function (error) {
+      send({ jsonrpc: '2.0', id: message.id, error: { code: error.code || -32603, message: error.message || String(error) } });
+    }
+  );
+});
+`;
+
+/**
+ * Long-running process that prints and removes each request file as it
+ * appears, one JSON object per line. Exits when its stdin closes.
+ * Usage: node request-watcher.cjs <directory>
+ */
+const REQUEST_WATCHER_SCRIPT = `'use strict';
+const fs = require('fs');
+const path = require('path');
+
+const requests = path.join(process.argv[2], 'requests');
+const pollMs = Number(process.env.TOOL_BRIDGE_POLL_MS || 50);
+
+function drain() {
+  let names = [];
+  try { names = fs.readdirSync(requests).filter(function (name) { return name.endsWith('.json'); }).sort(); } catch (e) { return; }
+  for (const name of names) {
+    const file = path.join(requests, name);
+    let text;
+    try {
+      text = fs.readFileSync(file, 'utf8');
+      fs.rmSync(file, { force: true });
+    } catch (e) {
+      continue; // picked up by an earlier drain
+    }
+    process.stdout.write(text + '\\n');
+  }
+}
+
+let watching = false;
+try {
+  fs.watch(requests, drain);
+  watching = true;
+} catch (e) { /* no file events here: poll */ }
+// Also poll, slowly when events arrive, in case a file event is missed
+setInterval(drain, watching ? 1000 : pollMs);
+drain();
+
+process.stdin.on('end', function () { process.exit(0); });
+process.stdin.resume();
+`;
+
+/**
+ * Prints and removes every pending request file, one JSON object per line.
+ * Usage: bash -c DRAIN_REQUESTS_SCRIPT bash <directory>
+ */
+const DRAIN_REQUESTS_SCRIPT =
+  'for f in "$1"/requests/*.json; do [ -e "$f" ] || continue; cat "$f"; echo; rm -f "$f"; done';
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Relays MCP tool calls from a sandbox to host-side tool handlers.
+ *
+ * @example
+ * ```typescript
+ * const bridge = new ToolBridge(sandbox, [weatherTool]);
+ * const server = await bridge.install();
+ * bridge.start();
+ *
+ * // Run the CLI with mcpServers: { [bridge.serverName]: server }
+ *
+ * await bridge.stop();
+ * ```
+ */
+export class ToolBridge {
+  readonly serverName: string;
+  readonly directory: string;
+
+  private toolMap = new Map<string, ToolDefinition>();
+  private pollIntervalMs: number;
+  private callTimeoutMs: number;
+  private logger: Logger;
+  private tracer: Tracer | undefined;
+  private hooks: HookCallbacks;
+  private signal: AbortSignal;
+  private polling: Promise<void> | null = null;
+  private watcher: SandboxCommand | null = null;
+  private stopped = false;
+  private inFlight = new Set<Promise<void>>();
+
+  constructor(
+    private sandbox: SandboxInstance,
+    tools: ToolDefinition[],
+    options: ToolBridgeOptions = {}
+  ) {
+    for (const t of tools) {
+      this.toolMap.set(t.name, t);
+    }
+    this.serverName = options.serverName ?? DEFAULT_BRIDGE_SERVER_NAME;
+    this.directory = options.directory ?? `/tmp/claude-tool-bridge-${generateUuid()}`;
+    this.pollIntervalMs = options.pollIntervalMs ?? 250;
+    this.callTimeoutMs = options.callTimeoutMs ?? 600000;
+    this.logger = options.logger ?? silentLogger;
+    this.tracer = options.tracer;
+    this.hooks = options.hooks ?? {};
+    this.signal = options.signal ?? new AbortController().signal;
+  }
+
+  /**
+   * Names under which the CLI exposes the bridged tools.
+   */
+  get toolNames(): string[] {
+    return [...this.toolMap.keys()].map((name) => this.toolName(name));
+  }
+
+  /**
+   * Name under which the CLI exposes a bridged tool.
+   */
+  toolName(name: string): string {
+    return `mcp__${this.serverName}__${name}`;
+  }
+
+  /**
+   * CLI settings registering the relayed hooks, to pass with --settings.
+   * Null when no hooks are configured.
+   */
+  hookSettings(): { hooks: Record<string, unknown[]> } | null {
+    return buildHookSettings(this.hooks, `${this.directory}/hook-relay.cjs`, this.directory, this.callTimeoutMs);
+  }
+
+  /**
+   * Write the MCP server script, hook relay and tool list into the sandbox.
+   * Returns the stdio server configuration to pass to the CLI.
+   */
+  async install(): Promise<{ command: string; args: string[]; env: Record<string, string> }> {
+    await this.sandbox.mkdir(`${this.directory}/requests`);
+    await this.sandbox.mkdir(`${this.directory}/responses`);
+    await this.sandbox.writeFiles([
+      { path: `${this.directory}/mcp-bridge.cjs`, content: BRIDGE_SERVER_SCRIPT },
+      { path: `${this.directory}/hook-relay.cjs`, content: HOOK_RELAY_SCRIPT },
+      { path: `${this.directory}/request-watcher.cjs`, content: REQUEST_WATCHER_SCRIPT },
+      {
+        path: `${this.directory}/tools.json`,
+        content: JSON.stringify([...this.toolMap.values()].map(toolToJsonSchema)),
+      },
+    ]);
+
+    return {
+      command: 'node',
+      args: [`${this.directory}/mcp-bridge.cjs`, this.directory, this.serverName],
+      env: { TOOL_BRIDGE_TIMEOUT_MS: String(this.callTimeoutMs) },
+    };
+  }
+
+  /**
+   * Start answering tool calls and hook events in the background.
+   * Does nothing when the bridge has no tools or hooks to serve.
+   */
+  start(): void {
+    const hasHooks = Object.values(this.hooks).some((matchers) => matchers && matchers.length > 0);
+    if (this.polling || (this.toolMap.size === 0 && !hasHooks)) {
+      return;
+    }
+    this.stopped = false;
+    this.polling = this.watchRequests();
+  }
+
+  /**
+   * Stop listening and wait for in-flight tool calls to be answered.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await this.watcher?.kill('SIGTERM').catch(() => {});
+    await this.polling;
+    this.polling = null;
+    this.watcher = null;
+    await Promise.all(this.inFlight);
+  }
+
+  /**
+   * Pick up pending tool calls once and start answering them.
+   * Returns the number of calls picked up.
+   */
+  async poll(): Promise<number> {
+    const result = await this.sandbox.runCommand('bash', ['-c', DRAIN_REQUESTS_SCRIPT, 'bash', this.directory]);
+    if (result.exitCode !== 0) {
+      throw new SandboxError(`Failed to read tool requests: ${result.stderr}`);
+    }
+
+    let count = 0;
+    for (const line of result.stdout.split('\n')) {
+      if (this.dispatch(line)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Start answering the request on one line of watcher or drain output.
+   * Returns whether it held a valid request.
+   */
+  private dispatch(line: string): boolean {
+    if (!line.trim()) {
+      return false;
+    }
+
+    let request: BridgeRequest;
+    try {
+      request = JSON.parse(line) as BridgeRequest;
+    } catch {
+      this.logger.warn('Ignoring malformed tool request', { line });
+      return false;
+    }
+    if (typeof request.id !== 'string' || !/^[\w.-]+$/.test(request.id)) {
+      this.logger.warn('Ignoring tool request with invalid id', { line });
+      return false;
+    }
+
+    const call = this.answer(request)
+      .catch((error) => this.answerWithError(request, error))
+      .finally(() => this.inFlight.delete(call));
+    this.inFlight.add(call);
+    return true;
+  }
+
+  /**
+   * Read requests from the watcher's stdout as they are written, and poll
+   * instead if the watcher can't be started or exits early.
+   */
+  private async watchRequests(): Promise<void> {
+    try {
+      const watcher = await this.sandbox.runDetached({
+        cmd: 'node',
+        args: [`${this.directory}/request-watcher.cjs`, this.directory],
+        stdin: true,
+      });
+      this.watcher = watcher;
+      if (this.stopped) {
+        await watcher.kill('SIGTERM').catch(() => {});
+        return;
+      }
+
+      let buffer = '';
+      for await (const log of watcher.logs()) {
+        if (log.stream !== 'stdout') {
+          continue;
+        }
+        buffer += log.data;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          this.dispatch(line);
+        }
+      }
+    } catch (error) {
+      if (!this.stopped) {
+        this.logger.warn('Tool request watcher failed', errorFields(error));
+      }
+    }
+
+    if (!this.stopped) {
+      this.logger.warn('Tool request watcher exited; polling for requests instead');
+      await this.pollLoop();
+    }
+  }
+
+  private async pollLoop(): Promise<void> {
+    while (!this.stopped) {
+      try {
+        await this.poll();
+      } catch (error) {
+        this.logger.error('Tool bridge poll failed', errorFields(error));
+      }
+      if (!this.stopped) {
+        await delay(this.pollIntervalMs);
+      }
+    }
+  }
+
+  /**
+   * Run the requested tool or hook on the host and write its result back.
+   */
+  private async answer(request: BridgeRequest): Promise<void> {
+    if (request.kind === 'hook') {
+      const event = request.name as HookEvent;
+      const response = await withSpan(
+        this.tracer,
+        SpanNames.AGENT_HOOK,
+        { 'claude.hook.event': event, 'sandbox.id': this.sandbox.sandboxId },
+        () => runHookCallbacks(this.hooks, event, request.arguments as unknown as HookRequest, this.signal, this.logger)
+      );
+      await this.respond(request, response);
+      return;
+    }
+
+    const tool = this.toolMap.get(request.name);
+    const result = tool
+      ? toCallToolResult(
+          await withSpan(
+            this.tracer,
+            SpanNames.TOOL,
+            { 'gen_ai.tool.name': request.name, 'sandbox.id': this.sandbox.sandboxId },
+            async (span) => {
+              const toolResult = await executeTool(tool, request.arguments);
+              span.setAttribute('claude.tool.is_error', toolResult.isError === true);
+              return toolResult;
+            }
+          )
+        )
+      : { content: [{ type: 'text' as const, text: `Unknown tool: ${request.name}` }], isError: true };
+
+    await this.respond(request, result);
+  }
+
+  /**
+   * Answer a call that failed on the host, so the CLI isn't left waiting
+   * for it until the call timeout.
+   */
+  private async answerWithError(request: BridgeRequest, error: unknown): Promise<void> {
+    this.logger.error('Tool bridge request failed', { tool: request.name, ...errorFields(error) });
+    const message = `${request.name} failed: ${error instanceof Error ? error.message : String(error)}`;
+    await this.respond(
+      request,
+      request.kind === 'hook' ? { error: message } : { content: [{ type: 'text', text: message }], isError: true }
+    );
+  }
+
+  private async respond(request: BridgeRequest, result: unknown): Promise<void> {
+    try {
+      await this.sandbox.writeFiles([
+        { path: `${this.directory}/responses/${request.id}.json`, content: JSON.stringify(result) },
+      ]);
+    } catch (error) {
+      this.logger.error('Failed to answer tool call', { tool: request.name, ...errorFields(error) });
+    }
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Host Agent Hooks
+ *
+ * Runs PreToolUse, PostToolUse, UserPromptSubmit, Stop and Notification
+ * hook callbacks on the host. Each matcher group is registered with the CLI
+ * (via --settings) as a command hook running a small relay script. The
+ * relay forwards the hook input through the tool bridge's request files and
+ * prints the host's answer as the hook's JSON output.
+ */
+
+import { posix } from 'node:path';
+import type { HookCallbackMatcher, HookEvent, HookInput, HookJSONOutput } from '../types/options.js';
+import type { SandboxInstance } from '../providers/types.js';
+import { ValidationError } from '../types/errors.js';
+import { Logger, errorFields, silentLogger } from '../logger.js';
+
+/**
+ * Host hook callbacks by event, as given in Options.hooks.
+ */
+export type HookCallbacks = Partial<Record<HookEvent, HookCallbackMatcher[]>>;
+
+/**
+ * A hook event relayed from the sandbox.
+ */
+export interface HookRequest {
+  /** Index of the matcher group whose callbacks run */
+  index: number;
+  input: HookInput & { tool_use_id?: string };
+}
+
+/**
+ * Host answer to a hook request: the merged output, or an error the CLI
+ * reports as a non-blocking hook failure.
+ */
+export type HookResponse = { output: HookJSONOutput } | { error: string };
+
+/**
+ * Command hook run by the CLI inside the sandbox.
+ * Usage: node hook-relay.cjs <directory> <event> <index>
+ */
+export const HOOK_RELAY_SCRIPT = `'use strict';
+const fs = require('fs');
+const path = require('path');
+
+const dir = process.argv[2];
+const event = process.argv[3];
+const index = Number(process.argv[4]);
+const pollMs = Number(process.env.TOOL_BRIDGE_POLL_MS || 50);
+const timeoutMs = Number(process.env.TOOL_BRIDGE_TIMEOUT_MS || 600000);
+
+let stdin = '';
+process.stdin.on('data', function (chunk) { stdin += chunk; });
+process.stdin.on('end', function () {
+  let input = {};
+  try { input = JSON.parse(stdin); } catch (e) { /* empty input */ }
+
+  const id = 'hook-' + process.pid + '-' + Date.now();
+  const request = path.join(dir, 'requests', id + '.json');
+  const response = path.join(dir, 'responses', id + '.json');
+  fs.writeFileSync(request + '.tmp', JSON.stringify({ id: id, kind: 'hook', name: event, arguments: { index: index, input: input } }));
+  fs.renameSync(request + '.tmp', request);
+
+  const started = Date.now();
+  (function poll() {
+    let text = null;
+    try { text = fs.readFileSync(response, 'utf8'); } catch (e) { /* not answered yet */ }
+    if (text) {
+      try {
+        const result = JSON.parse(text);
+        fs.rmSync(response, { force: true });
+        if (result.error) {
+          process.stderr.write(String(result.error));
+          process.exit(1);
+        }
+        process.stdout.write(JSON.stringify(result.output || {}));
+        process.exit(0);
+      } catch (e) { /* partially written */ }
+    }
+    if (Date.now() - started > timeoutMs) {
+      process.stderr.write('Hook timed out waiting for the host');
+      process.exit(1);
+    }
+    setTimeout(poll, pollMs);
+  })();
+});
+`;
+
+/**
+ * CLI settings registering a relay command hook per matcher group.
+ * Returns null when no callbacks are configured.
+ */
+export function buildHookSettings(
+  hooks: HookCallbacks,
+  relayPath: string,
+  directory: string,
+  timeoutMs: number
+): { hooks: Record<string, unknown[]> } | null {
+  const settings: Record<string, unknown[]> = {};
+  for (const [event, matchers] of Object.entries(hooks) as Array<[HookEvent, HookCallbackMatcher[]]>) {
+    if (!matchers?.length) {
+      continue;
+    }
+    settings[event] = matchers.map((group, index) => ({
+      ...(group.matcher !== undefined && { matcher: group.matcher }),
+      hooks: [
+        {
+          type: 'command',
+          command: `node '${relayPath}' '${directory}' ${event} ${index}`,
+          timeout: Math.ceil(timeoutMs / 1000),
+        },
+      ],
+    }));
+  }
+  return Object.keys(settings).length > 0 ? { hooks: settings } : null;
+}
+
+/**
+ * Read the user's CLI settings, given like --settings as a JSON string or a
+ * path to a JSON file in the sandbox (relative paths resolve against `cwd`).
+ *
+ * @throws {ValidationError} if the file is missing or isn't a JSON object
+ */
+export async function loadCliSettings(
+  sandbox: SandboxInstance,
+  settings: string | undefined,
+  cwd: string
+): Promise<Record<string, unknown>> {
+  if (!settings) {
+    return {};
+  }
+
+  let raw = settings;
+  if (!settings.trim().startsWith('{')) {
+    const path = posix.resolve(cwd, settings);
+    const content = await sandbox.readFile(path);
+    if (!content) {
+      throw new ValidationError(`Settings file not found in the sandbox: ${path}`, { path });
+    }
+    raw = content.toString('utf-8');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ValidationError('Settings are not valid JSON', { settings, error: String(error) });
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ValidationError('Settings must be a JSON object', { settings });
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Add the relay hooks to the user's CLI settings. For each event the relay
+ * matchers come after any the user already configured.
+ */
+export function mergeHookSettings(
+  settings: Record<string, unknown>,
+  hookSettings: { hooks: Record<string, unknown[]> }
+): Record<string, unknown> {
+  const existing = (settings['hooks'] ?? {}) as Record<string, unknown[] | undefined>;
+  const hooks: Record<string, unknown[]> = { ...existing } as Record<string, unknown[]>;
+  for (const [event, matchers] of Object.entries(hookSettings.hooks)) {
+    hooks[event] = [...(existing[event] ?? []), ...matchers];
+  }
+  return { ...settings, hooks };
+}
+
+/**
+ * Run a matcher group's callbacks in order and merge their outputs.
+ * A callback that blocks, denies or stops the agent ends the group; for
+ * PreToolUse, later callbacks see any input an earlier one replaced.
+ */
+export async function runHookCallbacks(
+  hooks: HookCallbacks,
+  event: HookEvent,
+  request: HookRequest,
+  signal: AbortSignal,
+  logger: Logger = silentLogger
+): Promise<HookResponse> {
+  const group = hooks[event]?.[request.index];
+  if (!group) {
+    return { error: `No ${event} hook registered at index ${request.index}` };
+  }
+
+  const input = { ...request.input };
+  let merged: HookJSONOutput = {};
+  try {
+    for (const callback of group.hooks) {
+      const output = (await callback(input, input.tool_use_id, { signal })) ?? {};
+      merged = {
+        ...merged,
+        ...output,
+        ...((merged.hookSpecificOutput || output.hookSpecificOutput) && {
+          hookSpecificOutput: { ...merged.hookSpecificOutput, ...output.hookSpecificOutput } as HookJSONOutput['hookSpecificOutput'],
+        }),
+      };
+
+      const specific = output.hookSpecificOutput;
+      if (specific?.hookEventName === 'PreToolUse') {
+        if (specific.updatedInput && input.hook_event_name === 'PreToolUse') {
+          input.tool_input = specific.updatedInput;
+        }
+        if (specific.permissionDecision === 'deny') {
+          break;
+        }
+      }
+      if (output.continue === false || output.decision === 'block') {
+        break;
+      }
+    }
+  } catch (error) {
+    logger.warn('Hook callback failed', { event, ...errorFields(error) });
+    return { error: `${event} hook failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  return { output: merged };
+}
@@ -11,6 +11,17 @@ export {
 } from './mcp-server.js';
 export type { McpServerConfig, McpServer, ToolCallRequest } from './mcp-server.js';
 
+export { createMcpHttpHandler } from './mcp-http.js';
+export type { McpHttpHandler, McpHttpHandlerOptions } from './mcp-http.js';
+
+export {
+  ToolBridge,
+  DEFAULT_BRIDGE_SERVER_NAME,
+  PERMISSION_PROMPT_TOOL_NAME,
+  createPermissionPromptTool,
+} from './bridge.js';
+export type { ToolBridgeOptions } from './bridge.js';
+
 export type {
   ToolDefinition,
   ToolResult,
@@ -0,0 +1,322 @@
+/**
+ * HTTP Transport for SDK MCP Servers
+ *
+ * Serves an MCP server over Streamable HTTP and the legacy SSE transport,
+ * so tools hosted by your application can be reached from a sandbox or
+ * any other process over the network.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessageSchema, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { generateUuid } from '../types/messages.js';
+
+export interface McpHttpHandlerOptions {
+  /**
+   * Require `Authorization: Bearer <token>` on every request.
+   */
+  bearerToken?: string;
+
+  /**
+   * Path suffix that opens a legacy SSE stream (GET).
+   * @default '/sse'
+   */
+  ssePath?: string;
+
+  /**
+   * Path suffix that receives legacy SSE client messages (POST).
+   * @default '/messages'
+   */
+  messagesPath?: string;
+
+  /**
+   * Maximum number of open legacy SSE streams. Further streams are refused
+   * with 503 until one closes.
+   * @default 100
+   */
+  maxSseSessions?: number;
+
+  /**
+   * Close a legacy SSE stream after this many milliseconds without a
+   * message in either direction.
+   * @default 600000
+   */
+  sseIdleTimeoutMs?: number;
+}
+
+/**
+ * Handles MCP HTTP requests.
+ *
+ * Call it with a Web `Request` to get a `Response` (Next.js route handlers,
+ * Hono, Workers), or with Node's `IncomingMessage`/`ServerResponse` pair
+ * (`http.createServer`, Express).
+ */
+export interface McpHttpHandler {
+  (request: Request): Promise<Response>;
+  (req: IncomingMessage, res: ServerResponse): Promise<void>;
+}
+
+/**
+ * Legacy SSE transport over Web streams, one per open SSE connection.
+ */
+class SseSessionTransport implements Transport {
+  readonly sessionId = generateUuid();
+  readonly stream: ReadableStream<Uint8Array>;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  private encoder = new TextEncoder();
+  private closed = false;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    endpoint: string,
+    private idleTimeoutMs: number
+  ) {
+    this.stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.controller = controller;
+        this.write('endpoint', `${endpoint}?sessionId=${this.sessionId}`);
+      },
+      cancel: () => {
+        this.markClosed();
+      },
+    });
+  }
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    this.write('message', JSON.stringify(message));
+  }
+
+  async close(): Promise<void> {
+    if (!this.closed) {
+      this.controller?.close();
+    }
+    this.markClosed();
+  }
+
+  receive(message: JSONRPCMessage): void {
+    this.touch();
+    this.onmessage?.(message);
+  }
+
+  private write(event: string, data: string): void {
+    if (!this.closed) {
+      this.touch();
+      this.controller?.enqueue(this.encoder.encode(`event: ${event}\ndata: ${data}\n\n`));
+    }
+  }
+
+  /**
+   * Restart the idle timer; the stream closes when it expires.
+   */
+  private touch(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => void this.close(), this.idleTimeoutMs);
+    this.idleTimer.unref?.();
+  }
+
+  private markClosed(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.onclose?.();
+  }
+}
+
+function isWebRequest(value: unknown): value is Request {
+  return typeof (value as Request).headers?.get === 'function';
+}
+
+/**
+ * Compare secrets in constant time. Hashing first gives both sides the
+ * same length, so the comparison doesn't reveal the expected length.
+ */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+function jsonError(status: number, message: string, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }),
+    { status, headers: { 'Content-Type': 'application/json', ...headers } }
+  );
+}
+
+/**
+ * Convert a Node request into a Web Request.
+ */
+async function toWebRequest(req: IncomingMessage): Promise<Request> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer));
+  }
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach((v) => headers.append(name, v));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+
+  const method = req.method ?? 'GET';
+  const hasBody = chunks.length > 0 && method !== 'GET' && method !== 'HEAD';
+  return new Request(new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`), {
+    method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+  });
+}
+
+/**
+ * Write a Web Response to a Node response, streaming the body.
+ */
+async function writeWebResponse(response: Response, res: ServerResponse): Promise<void> {
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  res.on('close', () => {
+    reader.cancel().catch(() => {});
+  });
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+  } finally {
+    res.end();
+  }
+}
+
+/**
+ * Create an HTTP handler serving MCP servers built by `createServer`.
+ *
+ * Streamable HTTP requests are handled statelessly with a fresh server per
+ * request. Legacy SSE clients open a stream at `ssePath` and post messages
+ * to `messagesPath`; each stream gets its own server until it closes, goes
+ * idle for `sseIdleTimeoutMs`, or the handler refuses it at `maxSseSessions`.
+ */
+export function createMcpHttpHandler(
+  createServer: () => Server,
+  options: McpHttpHandlerOptions = {}
+): McpHttpHandler {
+  const {
+    bearerToken,
+    ssePath = '/sse',
+    messagesPath = '/messages',
+    maxSseSessions = 100,
+    sseIdleTimeoutMs = 600000,
+  } = options;
+  const sseSessions = new Map<string, SseSessionTransport>();
+
+  async function openSseStream(url: URL): Promise<Response> {
+    if (sseSessions.size >= maxSseSessions) {
+      return jsonError(503, 'Too many SSE sessions', { 'Retry-After': '5' });
+    }
+
+    const endpoint = url.pathname.slice(0, url.pathname.length - ssePath.length) + messagesPath;
+    const transport = new SseSessionTransport(endpoint, sseIdleTimeoutMs);
+    const server = createServer();
+
+    sseSessions.set(transport.sessionId, transport);
+    transport.onclose = () => {
+      sseSessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+
+    return new Response(transport.stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  }
+
+  async function postSseMessage(request: Request, url: URL): Promise<Response> {
+    const transport = sseSessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!transport) {
+      return jsonError(404, 'Unknown SSE session');
+    }
+
+    let message: JSONRPCMessage;
+    try {
+      message = JSONRPCMessageSchema.parse(await request.json());
+    } catch {
+      return jsonError(400, 'Invalid JSON-RPC message');
+    }
+
+    transport.receive(message);
+    return new Response('Accepted', { status: 202 });
+  }
+
+  async function handleStreamableHttp(request: Request): Promise<Response> {
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+    const server = createServer();
+    await server.connect(transport);
+
+    try {
+      return await transport.handleRequest(request);
+    } finally {
+      await server.close();
+    }
+  }
+
+  async function handle(request: Request): Promise<Response> {
+    if (bearerToken !== undefined) {
+      const authorization = request.headers.get('authorization') ?? '';
+      if (!safeEqual(authorization, `Bearer ${bearerToken}`)) {
+        return jsonError(401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+      }
+    }
+
+    const url = new URL(request.url);
+    if (request.method === 'GET' && url.pathname.endsWith(ssePath)) {
+      return openSseStream(url);
+    }
+    if (request.method === 'POST' && url.pathname.endsWith(messagesPath) && url.searchParams.has('sessionId')) {
+      return postSseMessage(request, url);
+    }
+    return handleStreamableHttp(request);
+  }
+
+  async function handler(request: Request): Promise<Response>;
+  async function handler(req: IncomingMessage, res: ServerResponse): Promise<void>;
+  async function handler(req: Request | IncomingMessage, res?: ServerResponse): Promise<Response | void> {
+    if (isWebRequest(req)) {
+      return handle(req);
+    }
+    if (!res) {
+      throw new TypeError('A ServerResponse is required when handling a Node request');
+    }
+    await writeWebResponse(await handle(await toWebRequest(req)), res);
+  }
+
+  return handler;
+}
@@ -11,8 +11,9 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { ToolDefinition, toolToJsonSchema } from './types.js';
+import { ToolDefinition, ToolResult, toolToJsonSchema } from './types.js';
 import { executeTool } from './tool.js';
+import { createMcpHttpHandler, McpHttpHandler, McpHttpHandlerOptions } from './mcp-http.js';
 
 export interface McpServerConfig {
   /**
@@ -43,12 +44,47 @@ export interface McpServer {
    */
   start(): Promise<void>;
 
+  /**
+   * Create a handler serving the tools over Streamable HTTP and legacy SSE.
+   * Works with Node's http server and with Web Request/Response handlers.
+   */
+  createHttpHandler(options?: McpHttpHandlerOptions): McpHttpHandler;
+
   /**
    * Get the list of tools exposed by this server.
    */
   getTools(): ToolDefinition[];
 }
 
+/**
+ * Convert a ToolResult to an MCP tools/call result.
+ */
+export function toCallToolResult(result: ToolResult) {
+  return {
+    content: result.content.map((c) => {
+      if (c.type === 'text') {
+        return { type: 'text' as const, text: c.text };
+      }
+      if (c.type === 'image') {
+        return { type: 'image' as const, data: c.data, mimeType: c.mimeType };
+      }
+      if (c.type === 'resource') {
+        return {
+          type: 'resource' as const,
+          resource: {
+            uri: c.uri,
+            mimeType: c.mimeType,
+            text: c.text,
+            blob: c.blob,
+          },
+        };
+      }
+      return { type: 'text' as const, text: JSON.stringify(c) };
+    }),
+    isError: result.isError,
+  };
+}
+
 /**
  * Create an MCP server that exposes custom tools to Claude.
  *
@@ -78,10 +114,39 @@ export interface McpServer {
  * // For standalone use:
  * await server.start();
  *
+ * // Or over HTTP, e.g. as a Next.js route handler:
+ * export const POST = server.createHttpHandler({ bearerToken: process.env.MCP_TOKEN });
+ *
  * // Or use server.server directly with custom transports
  * ```
  */
 export function createSdkMcpServer(config: McpServerConfig): McpServer {
+  const { tools } = config;
+  const server = buildServer(config);
+
+  return {
+    server,
+
+    async start() {
+      const transport = new StdioServerTransport();
+      await server.connect(transport);
+    },
+
+    createHttpHandler(options?: McpHttpHandlerOptions) {
+      return createMcpHttpHandler(() => buildServer(config), options);
+    },
+
+    getTools() {
+      return [...tools];
+    },
+  };
+}
+
+/**
+ * Build an MCP server instance with tool list/call handlers.
+ * Each transport connection needs its own instance.
+ */
+function buildServer(config: McpServerConfig): Server {
   const { name, version = '1.0.0', tools } = config;
 
   // Create the MCP server
@@ -128,44 +193,10 @@ export function createSdkMcpServer(config: McpServerConfig): McpServer {
     }
 
     const result = await executeTool(tool, args);
-
-    return {
-      content: result.content.map((c) => {
-        if (c.type === 'text') {
-          return { type: 'text' as const, text: c.text };
-        }
-        if (c.type === 'image') {
-          return { type: 'image' as const, data: c.data, mimeType: c.mimeType };
-        }
-        if (c.type === 'resource') {
-          return {
-            type: 'resource' as const,
-            resource: {
-              uri: c.uri,
-              mimeType: c.mimeType,
-              text: c.text,
-              blob: c.blob,
-            },
-          };
-        }
-        return { type: 'text' as const, text: JSON.stringify(c) };
-      }),
-      isError: result.isError,
-    };
+    return toCallToolResult(result);
   });
 
-  return {
-    server,
-
-    async start() {
-      const transport = new StdioServerTransport();
-      await server.connect(transport);
-    },
-
-    getTools() {
-      return [...tools];
-    },
-  };
+  return server;
 }
 
 /**
@@ -169,10 +169,12 @@ function zodTypeToJsonSchema(zodType: z.ZodTypeAny): Record<string, unknown> {
 
   // Handle default wrappers
   if (typeName === 'ZodDefault' || typeName === 'default') {
-    const def = (zodType as unknown as { _def?: { innerType?: z.ZodTypeAny; defaultValue?: () => unknown } });
+    // v3 stores a factory in defaultValue, v4 stores the value itself
+    const def = (zodType as unknown as { _def?: { innerType?: z.ZodTypeAny; defaultValue?: unknown } });
     if (def._def?.innerType) {
       const inner = zodTypeToJsonSchema(def._def.innerType);
-      return { ...inner, default: def._def.defaultValue?.() };
+      const { defaultValue } = def._def;
+      return { ...inner, default: typeof defaultValue === 'function' ? defaultValue() : defaultValue };
     }
   }
 
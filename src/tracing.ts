@@ -0,0 +1,193 @@
+/**
+ * Tracing
+ *
+ * The SDK emits spans through an optional Tracer. The interfaces below are
+ * the subset of the OpenTelemetry API the SDK uses, so an OpenTelemetry
+ * tracer can be passed directly without the SDK depending on it.
+ */
+
+import { AsyncResource } from 'node:async_hooks';
+import { SDKMessage, extractCostUsd } from './types/messages.js';
+
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Span attributes. Undefined values are dropped.
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/** OpenTelemetry `SpanStatusCode.ERROR` */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Span as used by the SDK. Satisfied by OpenTelemetry's `Span`.
+ */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  recordException(exception: Error | string): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): unknown;
+}
+
+/**
+ * Options for starting a span.
+ */
+export interface SpanOptions {
+  attributes?: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * Tracer as used by the SDK. Satisfied by OpenTelemetry's `Tracer`, e.g.
+ * `trace.getTracer('my-app')`. Spans are started in the caller's active
+ * context.
+ */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+
+  /**
+   * Start a span and call `fn` in a context where it is active, so spans
+   * started from that context are its children.
+   */
+  startActiveSpan?<T>(name: string, options: SpanOptions, fn: (span: Span) => T): T;
+}
+
+/**
+ * Span names emitted by the SDK.
+ */
+export const SpanNames = {
+  QUERY: 'claude.query',
+  SANDBOX_CREATE: 'sandbox.create',
+  CLI_INSTALL: 'claude.cli.install',
+  SETUP_STEP: 'sandbox.setup',
+  HOOK: 'sandbox.hook',
+  AGENT_HOOK: 'claude.hook',
+  CLI_RUN: 'claude.cli.run',
+  TOOL: 'claude.tool',
+  SNAPSHOT: 'sandbox.snapshot',
+} as const;
+
+const noopSpan: Span = {
+  setAttribute() {},
+  recordException() {},
+  setStatus() {},
+  end() {},
+};
+
+/**
+ * Start a span, or a no-op span when no tracer is configured.
+ */
+export function startSpan(tracer: Tracer | undefined, name: string, attributes: SpanAttributes = {}): Span {
+  if (!tracer) {
+    return noopSpan;
+  }
+  return tracer.startSpan(name, { attributes: definedAttributes(attributes) });
+}
+
+/**
+ * Start a span that outlives the current call, and a tracer whose spans are
+ * its children. With a tracer that has `startActiveSpan`, the context in
+ * which the span is active is captured and child spans start in it; other
+ * tracers start the children without a parent.
+ */
+export function startParentSpan(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: SpanAttributes = {}
+): { span: Span; tracer: Tracer | undefined } {
+  if (!tracer) {
+    return { span: noopSpan, tracer };
+  }
+  const options = { attributes: definedAttributes(attributes) };
+  if (!tracer.startActiveSpan) {
+    return { span: tracer.startSpan(name, options), tracer };
+  }
+
+  return tracer.startActiveSpan(name, options, (span) => {
+    const inSpanContext = AsyncResource.bind(<T>(fn: () => T): T => fn());
+    const children: Tracer = {
+      startSpan: (childName, childOptions) => inSpanContext(() => tracer.startSpan(childName, childOptions)),
+    };
+    return { span, tracer: children };
+  });
+}
+
+/**
+ * Set attributes on a span, skipping undefined values.
+ */
+export function setSpanAttributes(span: Span, attributes: SpanAttributes): void {
+  for (const [key, value] of Object.entries(definedAttributes(attributes))) {
+    span.setAttribute(key, value);
+  }
+}
+
+/**
+ * Mark a span as failed with the given error.
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  const exception = error instanceof Error ? error : String(error);
+  span.recordException(exception);
+  span.setStatus({
+    code: SPAN_STATUS_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Run `fn` inside a span that ends when it settles and records any error.
+ */
+export async function withSpan<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = startSpan(tracer, name, attributes);
+  try {
+    return await fn(span);
+  } catch (error) {
+    recordSpanError(span, error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Span attributes describing a CLI message: the model from assistant
+ * messages, and token counts and cost from result messages.
+ */
+export function messageSpanAttributes(message: SDKMessage): SpanAttributes {
+  const raw = message as unknown as Record<string, unknown>;
+
+  if (message.type === 'assistant') {
+    const model = (raw['message'] as Record<string, unknown> | undefined)?.['model'];
+    return { 'gen_ai.response.model': typeof model === 'string' ? model : undefined };
+  }
+
+  if (message.type === 'result') {
+    // The CLI reports raw API usage; the SDK's structured usage uses totals
+    const usage = (raw['usage'] ?? {}) as Record<string, unknown>;
+    const number = (value: unknown) => (typeof value === 'number' ? value : undefined);
+    return {
+      'gen_ai.usage.input_tokens':
+        number(usage['input_tokens']) ?? number(usage['total_input_tokens']) ?? message.tokens_in,
+      'gen_ai.usage.output_tokens':
+        number(usage['output_tokens']) ?? number(usage['total_output_tokens']) ?? message.tokens_out,
+      'claude.cost_usd': extractCostUsd(message),
+      'claude.num_turns': message.num_turns,
+      'claude.result_subtype': message.subtype,
+    };
+  }
+
+  return {};
+}
+
+function definedAttributes(attributes: SpanAttributes): Record<string, SpanAttributeValue> {
+  const defined: Record<string, SpanAttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      defined[key] = value;
+    }
+  }
+  return defined;
+}
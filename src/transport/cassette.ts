@@ -0,0 +1,288 @@
+/**
+ * Session Cassettes
+ *
+ * Record the raw stdout/stderr stream, exit code and timing of Claude CLI
+ * runs to a JSON file, and replay them later without creating a sandbox.
+ * Replayed output goes through the same parsing, enrichment and tool loop
+ * as live output, which makes production misbehaviour reproducible locally.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { CommandResult } from '../types/options.js';
+import { AbortError, SandboxError, SandboxTimeoutError, TimeoutPhase } from '../types/errors.js';
+import { generateUuid } from '../types/messages.js';
+import {
+  SandboxInstance,
+  SandboxCommand,
+  RunCommandOptions,
+  DetachedCommandParams,
+  CommandLog,
+  InstanceSnapshot,
+} from '../providers/types.js';
+
+/**
+ * Options for recording or replaying CLI sessions.
+ */
+export interface CassetteOptions {
+  /**
+   * 'record' captures every CLI run to the cassette file.
+   * 'replay' serves previously recorded runs without creating a sandbox.
+   */
+  mode: 'record' | 'replay';
+
+  /**
+   * Path to the cassette file on the host.
+   */
+  path: string;
+
+  /**
+   * When replaying, reproduce the original delays between output chunks.
+   * @default false
+   */
+  realtime?: boolean;
+}
+
+/**
+ * A single chunk of recorded output.
+ */
+export interface CassetteEvent {
+  /** Milliseconds since the command started */
+  offsetMs: number;
+  stream: 'stdout' | 'stderr';
+  data: string;
+}
+
+/**
+ * Why a recorded run ended without exiting on its own:
+ * - `timeout`: a watchdog timeout expired
+ * - `aborted`: the caller's abort signal fired
+ * - `killed`: the run failed or the caller stopped reading, e.g. at a budget limit
+ */
+export interface CassetteTermination {
+  reason: 'timeout' | 'aborted' | 'killed';
+  /** The limit that expired, for timeouts */
+  timeoutMs?: number;
+  phase?: TimeoutPhase;
+}
+
+/**
+ * One recorded CLI run.
+ */
+export interface CassetteSession {
+  cmd: string;
+  args: string[];
+  startedAt: string;
+  durationMs: number;
+  /** Null when the run was stopped before the CLI exited */
+  exitCode: number | null;
+  /** Set when the run was stopped rather than exiting on its own */
+  terminated?: CassetteTermination;
+  events: CassetteEvent[];
+}
+
+/**
+ * Cassette file contents.
+ */
+export interface Cassette {
+  version: 1;
+  createdAt: string;
+  sessions: CassetteSession[];
+}
+
+/**
+ * Load a cassette from disk.
+ */
+export async function loadCassette(path: string): Promise<Cassette> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch (error) {
+    throw new SandboxError(`Failed to read cassette: ${path}`, error);
+  }
+
+  let cassette: Cassette;
+  try {
+    cassette = JSON.parse(raw) as Cassette;
+  } catch (error) {
+    throw new SandboxError(`Cassette is not valid JSON: ${path}`, error);
+  }
+  if (cassette.version !== 1 || !Array.isArray(cassette.sessions)) {
+    throw new SandboxError(`Unsupported cassette format: ${path}`);
+  }
+  return cassette;
+}
+
+/**
+ * Write a cassette to disk.
+ */
+export async function saveCassette(path: string, cassette: Cassette): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * A CLI run being recorded.
+ */
+export interface CassetteRecording {
+  record(log: CommandLog): void;
+  finish(exitCode: number | null, terminated?: CassetteTermination): Promise<void>;
+}
+
+/**
+ * Records CLI runs into a cassette file.
+ * The file is rewritten after every run, including runs that timed out
+ * or were stopped, so partial sessions survive a crash.
+ */
+export class CassetteRecorder {
+  private cassette: Cassette = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    sessions: [],
+  };
+
+  constructor(private path: string) {}
+
+  begin(cmd: string, args: string[]): CassetteRecording {
+    const startedAt = Date.now();
+    const events: CassetteEvent[] = [];
+
+    return {
+      record: (log) => {
+        events.push({ offsetMs: Date.now() - startedAt, stream: log.stream, data: log.data });
+      },
+      finish: async (exitCode, terminated) => {
+        this.cassette.sessions.push({
+          cmd,
+          args,
+          startedAt: new Date(startedAt).toISOString(),
+          durationMs: Date.now() - startedAt,
+          exitCode,
+          ...(terminated && { terminated }),
+          events,
+        });
+        await saveCassette(this.path, this.cassette);
+      },
+    };
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Command that replays one recorded session.
+ * A session that timed out or was aborted fails the same way after its
+ * recorded output.
+ */
+class ReplayCommand implements SandboxCommand {
+  private killed = false;
+
+  constructor(
+    private session: CassetteSession,
+    private realtime: boolean
+  ) {}
+
+  async *logs(): AsyncGenerator<CommandLog, void, undefined> {
+    let elapsed = 0;
+    for (const event of this.session.events) {
+      if (this.realtime && event.offsetMs > elapsed) {
+        await delay(event.offsetMs - elapsed);
+        elapsed = event.offsetMs;
+      }
+      if (this.killed) {
+        return;
+      }
+      yield { stream: event.stream, data: event.data };
+    }
+
+    const { terminated } = this.session;
+    if (terminated?.reason === 'timeout') {
+      throw new SandboxTimeoutError(terminated.timeoutMs ?? this.session.durationMs, undefined, terminated.phase);
+    }
+    if (terminated?.reason === 'aborted') {
+      throw new AbortError('Operation was aborted');
+    }
+  }
+
+  async wait(): Promise<{ exitCode: number }> {
+    // A run stopped before it exited reports SIGTERM's exit code
+    return { exitCode: this.killed ? 143 : (this.session.exitCode ?? 143) };
+  }
+
+  async kill(): Promise<void> {
+    this.killed = true;
+  }
+
+  async writeStdin(_data: string): Promise<void> {
+    // Input is not replayed; the recorded output already reflects it
+  }
+
+  async closeStdin(): Promise<void> {
+    // Nothing to close
+  }
+}
+
+/**
+ * Stand-in sandbox that serves recorded CLI runs in order.
+ * Other commands succeed without output, and file operations use an
+ * in-memory map, so setup steps and hooks still run.
+ */
+export class ReplaySandboxInstance implements SandboxInstance {
+  readonly sandboxId = `replay_${generateUuid()}`;
+  readonly workingDirectory = '/vercel/sandbox';
+
+  private nextSession = 0;
+  private files = new Map<string, Buffer>();
+
+  constructor(
+    private cassette: Cassette,
+    private realtime: boolean = false
+  ) {}
+
+  async runCommand(
+    cmd: string,
+    args: string[] = [],
+    _options: RunCommandOptions = {}
+  ): Promise<CommandResult> {
+    if (cmd === 'claude' && args.includes('--version')) {
+      return { exitCode: 0, stdout: 'replay (cassette)\n', stderr: '' };
+    }
+    return { exitCode: 0, stdout: '', stderr: '' };
+  }
+
+  async runDetached(params: DetachedCommandParams): Promise<SandboxCommand> {
+    const session = this.cassette.sessions[this.nextSession];
+    if (!session) {
+      throw new SandboxError(
+        `Cassette exhausted: ${this.cassette.sessions.length} recorded session(s), ` +
+        `but '${params.cmd}' was started again`
+      );
+    }
+    this.nextSession++;
+    return new ReplayCommand(session, this.realtime);
+  }
+
+  async writeFiles(files: Array<{ path: string; content: string | Buffer }>): Promise<void> {
+    for (const file of files) {
+      this.files.set(file.path, Buffer.from(file.content));
+    }
+  }
+
+  async readFile(path: string): Promise<Buffer | null> {
+    return this.files.get(path) ?? null;
+  }
+
+  async mkdir(_path: string): Promise<void> {
+    // Directories are implicit in the in-memory file map
+  }
+
+  async snapshot(): Promise<InstanceSnapshot> {
+    throw new SandboxError('Snapshots are not available when replaying a cassette');
+  }
+
+  async stop(): Promise<void> {
+    // Nothing to release
+  }
+}
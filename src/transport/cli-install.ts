@@ -0,0 +1,134 @@
+/**
+ * Claude CLI Installation
+ *
+ * Installs, pins and detects the Claude CLI inside sandboxes. Detected
+ * versions are cached per sandbox instance, so warm or pooled sandboxes
+ * are only probed once.
+ */
+
+import { SandboxInstance } from '../providers/types.js';
+import { CLIInstallError, ValidationError } from '../types/errors.js';
+import { Logger, silentLogger } from '../logger.js';
+
+const CLI_PACKAGE = '@anthropic-ai/claude-code';
+
+const EXACT_VERSION = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/;
+
+const detectedVersions = new WeakMap<SandboxInstance, string>();
+
+/**
+ * Extract the version from `claude --version` output, e.g. "1.0.98 (Claude Code)".
+ */
+export function parseCliVersion(output: string): string | null {
+  const match = /\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?/.exec(output);
+  return match ? match[0] : null;
+}
+
+/**
+ * Throw unless `version` is an exact CLI version such as '1.0.98'.
+ */
+export function assertValidCliVersion(version: string): void {
+  if (!EXACT_VERSION.test(version)) {
+    throw new ValidationError(`cliVersion must be an exact version like '1.0.98', got '${version}'`, {
+      cliVersion: version,
+    });
+  }
+}
+
+/**
+ * Detect the CLI version installed in a sandbox.
+ * Returns null if the CLI is missing or its output is not recognised.
+ */
+export async function detectCliVersion(sandbox: SandboxInstance): Promise<string | null> {
+  const cached = detectedVersions.get(sandbox);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const result = await sandbox.runCommand('claude', ['--version']);
+    const version = result.exitCode === 0 ? parseCliVersion(result.stdout) : null;
+    if (version) {
+      detectedVersions.set(sandbox, version);
+    }
+    return version;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Install the Claude CLI globally in a sandbox and verify it is on PATH.
+ * Installs `version` when given, otherwise the latest release.
+ *
+ * @returns The installed version, if it could be detected
+ */
+export async function installClaudeCli(
+  sandbox: SandboxInstance,
+  version?: string,
+  logger: Logger = silentLogger
+): Promise<string | null> {
+  if (version) {
+    assertValidCliVersion(version);
+  }
+
+  try {
+    logger.info('Installing Claude CLI in sandbox', { cliVersion: version ?? 'latest' });
+
+    // Install Claude CLI globally
+    const installResult = await sandbox.runCommand('npm', [
+      'install',
+      '-g',
+      version ? `${CLI_PACKAGE}@${version}` : CLI_PACKAGE,
+    ]);
+
+    if (installResult.exitCode !== 0) {
+      throw new CLIInstallError(installResult.stderr || 'Unknown installation error');
+    }
+
+    // Verify installation
+    const verifyResult = await sandbox.runCommand('which', ['claude']);
+    if (verifyResult.exitCode !== 0) {
+      throw new CLIInstallError('Claude CLI not found after installation');
+    }
+
+    detectedVersions.delete(sandbox);
+    const installed = await detectCliVersion(sandbox);
+    if (version && installed && installed !== version) {
+      throw new CLIInstallError(`expected version ${version} but found ${installed}`);
+    }
+
+    logger.info('Claude CLI installed', { cliVersion: installed });
+    return installed;
+  } catch (error) {
+    if (error instanceof CLIInstallError) {
+      throw error;
+    }
+    throw new CLIInstallError(
+      error instanceof Error ? error.message : 'Unknown error',
+      error
+    );
+  }
+}
+
+/**
+ * Make sure the sandbox runs the pinned CLI version, reinstalling only
+ * when the installed version differs (e.g. in a stale snapshot).
+ *
+ * @returns The installed version
+ */
+export async function ensureClaudeCli(
+  sandbox: SandboxInstance,
+  version: string,
+  logger: Logger = silentLogger
+): Promise<string | null> {
+  assertValidCliVersion(version);
+
+  const installed = await detectCliVersion(sandbox);
+  if (installed === version) {
+    return installed;
+  }
+
+  logger.info('Installed Claude CLI does not match the pinned version', { installed, cliVersion: version });
+  return installClaudeCli(sandbox, version, logger);
+}
@@ -12,10 +12,47 @@ export {
 } from './sandbox-transport.js';
 
 export {
+  CassetteRecorder,
+  ReplaySandboxInstance,
+  loadCassette,
+  saveCassette,
+  type CassetteOptions,
+  type Cassette,
+  type CassetteSession,
+  type CassetteEvent,
+  type CassetteRecording,
+} from './cassette.js';
+
+export {
+  installClaudeCli,
+  ensureClaudeCli,
+  detectCliVersion,
+  parseCliVersion,
+} from './cli-install.js';
+
+export {
+  Retrier,
+  backoffDelay,
+  isRetryableError,
+  isTransientApiError,
+  type RetryPolicy,
+  type RetryInfo,
+  type RetryOperation,
+} from './retry.js';
+
+export {
+  DEFAULT_MAX_LINE_LENGTH,
+  NDJSONLineSplitter,
+  readNDJSONLines,
+  readNDJSONMessages,
+  type NDJSONParserOptions,
   parseLine,
   parseNDJSONStream,
   parseNDJSONString,
   parseProcessOutput,
   serializeMessage,
+  serializeUserInput,
   createToolResultMessage,
 } from './protocol.js';
+
+export { RingBuffer } from './ring-buffer.js';
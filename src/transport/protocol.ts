@@ -5,7 +5,7 @@
  * Each line is a complete JSON object representing a message.
  */
 
-import { SDKMessage } from '../types/messages.js';
+import { SDKMessage, SDKUserMessage, createUserMessage } from '../types/messages.js';
 import { ParseError } from '../types/errors.js';
 
 /**
@@ -20,7 +20,7 @@ export function parseLine(line: string): SDKMessage | null {
   try {
     const parsed = JSON.parse(trimmed) as SDKMessage;
     if (typeof parsed !== 'object' || parsed === null || !('type' in parsed)) {
-      throw new ParseError('Invalid message format: missing type field', trimmed);
+      throw new ParseError('Invalid message format: missing type field', trimmed, undefined, 'invalid_message');
     }
     return parsed;
   } catch (error) {
@@ -30,50 +30,185 @@ export function parseLine(line: string): SDKMessage | null {
     throw new ParseError(
       `Failed to parse JSON: ${error instanceof Error ? error.message : 'unknown error'}`,
       trimmed,
-      error
+      error,
+      'invalid_json'
     );
   }
 }
 
+/** Default longest NDJSON line accepted, in characters */
+export const DEFAULT_MAX_LINE_LENGTH = 10 * 1024 * 1024;
+
+/** Characters of an oversize line kept on its ParseError */
+const OVERSIZE_PREVIEW_LENGTH = 200;
+
+export interface NDJSONParserOptions {
+  /**
+   * Longest line accepted, in characters. Longer lines are skipped and
+   * reported as a ParseError; the lines after them are still parsed.
+   * @default 10 MiB
+   */
+  maxLineLength?: number;
+
+  /**
+   * Called with each line that can't be parsed, including oversize lines.
+   * Without it, the first parse error ends the stream.
+   */
+  onError?: (error: ParseError) => void;
+}
+
+/**
+ * Incremental NDJSON line splitter with bounded buffering. It holds at most
+ * one partial line of up to `maxLineLength` characters; the rest of an
+ * oversize line is discarded as it arrives.
+ */
+export class NDJSONLineSplitter {
+  private buffer = '';
+  /** Discarding the remainder of an oversize line */
+  private skipping = false;
+
+  constructor(private readonly maxLineLength: number = DEFAULT_MAX_LINE_LENGTH) {}
+
+  /**
+   * Add a chunk of output. Returns the lines it completes, and a ParseError
+   * in place of each oversize line.
+   */
+  push(chunk: string): Array<string | ParseError> {
+    const lines: Array<string | ParseError> = [];
+    let start = 0;
+    let newline = chunk.indexOf('\n');
+
+    while (newline !== -1) {
+      const piece = chunk.slice(start, newline);
+      if (this.skipping) {
+        this.skipping = false;
+      } else if (this.buffer.length + piece.length > this.maxLineLength) {
+        lines.push(this.oversize(this.buffer + piece.slice(0, OVERSIZE_PREVIEW_LENGTH)));
+      } else {
+        lines.push(this.buffer + piece);
+      }
+      this.buffer = '';
+      start = newline + 1;
+      newline = chunk.indexOf('\n', start);
+    }
+
+    const rest = chunk.slice(start);
+    if (!this.skipping && rest) {
+      if (this.buffer.length + rest.length > this.maxLineLength) {
+        lines.push(this.oversize(this.buffer + rest.slice(0, OVERSIZE_PREVIEW_LENGTH)));
+        this.buffer = '';
+        this.skipping = true;
+      } else {
+        this.buffer += rest;
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * End of output: the final line, if it wasn't newline-terminated.
+   */
+  flush(): string | null {
+    const line = this.skipping ? '' : this.buffer;
+    this.buffer = '';
+    this.skipping = false;
+    return line.trim() ? line : null;
+  }
+
+  private oversize(line: string): ParseError {
+    return new ParseError(
+      `NDJSON line exceeds the maximum length of ${this.maxLineLength} characters`,
+      line.slice(0, OVERSIZE_PREVIEW_LENGTH),
+      undefined,
+      'line_too_long'
+    );
+  }
+}
+
+/**
+ * Split a stream of output chunks into NDJSON lines, yielding a ParseError
+ * in place of each oversize line. Empty lines are skipped.
+ */
+export async function* readNDJSONLines(
+  chunks: AsyncIterable<string | Uint8Array>,
+  options: Pick<NDJSONParserOptions, 'maxLineLength'> = {}
+): AsyncGenerator<string | ParseError, void, undefined> {
+  const splitter = new NDJSONLineSplitter(options.maxLineLength);
+  const decoder = new TextDecoder();
+
+  for await (const chunk of chunks) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    for (const line of splitter.push(text)) {
+      if (line instanceof ParseError || line.trim()) {
+        yield line;
+      }
+    }
+  }
+
+  const last = splitter.flush();
+  if (last) {
+    yield last;
+  }
+}
+
+/**
+ * Parse a stream of output chunks into messages, yielding a ParseError in
+ * place of each line that can't be used; its `reason` says why. This is the
+ * parser behind both parseNDJSONStream() and the sandbox transport.
+ */
+export async function* readNDJSONMessages(
+  chunks: AsyncIterable<string | Uint8Array>,
+  options: Pick<NDJSONParserOptions, 'maxLineLength'> = {}
+): AsyncGenerator<SDKMessage | ParseError, void, undefined> {
+  for await (const line of readNDJSONLines(chunks, options)) {
+    if (line instanceof ParseError) {
+      yield line;
+      continue;
+    }
+    try {
+      const message = parseLine(line);
+      if (message) {
+        yield message;
+      }
+    } catch (error) {
+      if (!(error instanceof ParseError)) {
+        throw error;
+      }
+      yield error;
+    }
+  }
+}
+
 /**
  * Create an async generator that parses NDJSON from a stream
  */
 export async function* parseNDJSONStream(
-  stream: ReadableStream<Uint8Array>
+  stream: ReadableStream<Uint8Array> | AsyncIterable<string | Uint8Array>,
+  options: NDJSONParserOptions = {}
 ): AsyncGenerator<SDKMessage, void, undefined> {
-  const reader = stream.getReader();
-  const decoder = new TextDecoder();
-  let buffer = '';
+  const chunks = 'getReader' in stream ? readStream(stream) : stream;
+
+  for await (const message of readNDJSONMessages(chunks, options)) {
+    if (message instanceof ParseError) {
+      if (!options.onError) {
+        throw message;
+      }
+      options.onError(message);
+      continue;
+    }
+    yield message;
+  }
+}
 
+async function* readStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array, void, undefined> {
+  const reader = stream.getReader();
   try {
     while (true) {
       const { done, value } = await reader.read();
-
       if (done) {
-        // Process any remaining content in the buffer
-        if (buffer.trim()) {
-          const message = parseLine(buffer);
-          if (message) {
-            yield message;
-          }
-        }
-        break;
-      }
-
-      // Decode the chunk and add to buffer
-      buffer += decoder.decode(value, { stream: true });
-
-      // Process complete lines
-      const lines = buffer.split('\n');
-      // Keep the last (potentially incomplete) line in the buffer
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        const message = parseLine(line);
-        if (message) {
-          yield message;
-        }
+        return;
       }
+      yield value;
     }
   } finally {
     reader.releaseLock();
@@ -100,7 +235,8 @@ export function* parseNDJSONString(input: string): Generator<SDKMessage, void, u
 export async function* parseProcessOutput(
   stdout: ReadableStream<Uint8Array>,
   stderr?: ReadableStream<Uint8Array>,
-  onStderr?: (data: string) => void
+  onStderr?: (data: string) => void,
+  options: NDJSONParserOptions = {}
 ): AsyncGenerator<SDKMessage, void, undefined> {
   // Start consuming stderr in the background if provided
   if (stderr && onStderr) {
@@ -123,7 +259,7 @@ export async function* parseProcessOutput(
   }
 
   // Yield messages from stdout
-  yield* parseNDJSONStream(stdout);
+  yield* parseNDJSONStream(stdout, options);
 }
 
 /**
@@ -133,6 +269,22 @@ export function serializeMessage(message: Record<string, unknown>): string {
   return JSON.stringify(message) + '\n';
 }
 
+/**
+ * Serialize a user message as a stream-json input line for the CLI's stdin
+ */
+export function serializeUserInput(
+  message: string | SDKUserMessage,
+  sessionId: string | null = null
+): string {
+  const input = typeof message === 'string' ? createUserMessage(message) : message;
+  return serializeMessage({
+    type: 'user',
+    message: input.message,
+    parent_tool_use_id: input.parent_tool_use_id ?? null,
+    session_id: input.session_id || sessionId || '',
+  });
+}
+
 /**
  * Create a tool result message for sending back to Claude
  */
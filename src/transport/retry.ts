@@ -0,0 +1,235 @@
+/**
+ * Retry Policy
+ *
+ * Retries transient sandbox and API failures with exponential backoff and
+ * jitter. A single Retrier is shared by everything one transport does, so
+ * its budget caps retries across sandbox creation, CLI install and CLI runs.
+ */
+
+import {
+  AbortError,
+  AuthenticationError,
+  CLIExecutionError,
+  CLIInstallError,
+  SDKError,
+  ValidationError,
+} from '../types/errors.js';
+import type { ResultMessage, SDKMessage } from '../types/messages.js';
+
+/**
+ * Operation a retry applies to.
+ */
+export type RetryOperation = 'sandbox_create' | 'cli_install' | 'cli_run';
+
+export interface RetryInfo {
+  operation: RetryOperation;
+  /** The attempt that failed, starting at 1 */
+  attempt: number;
+  /** Delay before the next attempt */
+  delayMs: number;
+  error: Error;
+}
+
+export interface RetryPolicy {
+  /**
+   * Maximum attempts per operation, including the first.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry; doubles on each further retry.
+   * @default 1000
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for a single delay.
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomize each delay between half and the full backoff, so many
+   * clients hitting the same overload do not retry in lockstep.
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * Total retries allowed across all operations of one connection.
+   * @default 5
+   */
+  budget?: number;
+
+  /**
+   * Called before each retry.
+   */
+  onRetry?: (info: RetryInfo) => void | Promise<void>;
+}
+
+/** Anthropic overload and rate-limit errors, as reported by the CLI */
+const TRANSIENT_API_ERROR =
+  /overloaded_error|rate_limit_error|\boverloaded\b|rate limit|too many requests|API Error: (?:429|500|502|503|529)\b/i;
+
+/** npm and network failures while downloading the CLI */
+const TRANSIENT_INSTALL_ERROR =
+  /ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|ENOTFOUND|socket hang up|network|\bE(?:429|5\d\d)\b/i;
+
+/** Network failures reaching a sandbox provider's API */
+const TRANSIENT_NETWORK_ERROR =
+  /ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|ENOTFOUND|EPIPE|UND_ERR_\w+|socket hang up|fetch failed|network/i;
+
+/**
+ * Whether an error is a network failure or an HTTP 429 or 5xx response,
+ * looking through its causes. Errors raised by the SDK itself only count
+ * when caused by one.
+ */
+function isTransientRequestError(error: unknown, depth: number = 0): boolean {
+  if (!(error instanceof Error) || depth > 5) {
+    return false;
+  }
+
+  const fields = error as Error & {
+    code?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+  };
+  const status = fields.response?.status ?? fields.status ?? fields.statusCode;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+  if (typeof fields.code === 'string' && TRANSIENT_NETWORK_ERROR.test(fields.code)) {
+    return true;
+  }
+  if (!(error instanceof SDKError) && TRANSIENT_NETWORK_ERROR.test(error.message)) {
+    return true;
+  }
+  return isTransientRequestError(error.cause, depth + 1);
+}
+
+/**
+ * Whether CLI output reports an Anthropic overload or rate-limit error.
+ */
+export function isTransientApiError(text: string): boolean {
+  return TRANSIENT_API_ERROR.test(text);
+}
+
+/**
+ * Whether a result message reports a transient API failure.
+ */
+export function isTransientResult(message: SDKMessage): message is ResultMessage {
+  if (message.type !== 'result') {
+    return false;
+  }
+  const raw = message as unknown as Record<string, unknown>;
+  const failed = message.subtype !== 'success' || raw['is_error'] === true;
+  return failed && isTransientApiError(`${message.result ?? ''} ${message.error ?? ''}`);
+}
+
+/**
+ * Whether an error from an operation is worth retrying.
+ */
+export function isRetryableError(operation: RetryOperation, error: unknown): boolean {
+  if (error instanceof AbortError || error instanceof AuthenticationError || error instanceof ValidationError) {
+    return false;
+  }
+
+  switch (operation) {
+    case 'sandbox_create':
+      return isTransientRequestError(error);
+    case 'cli_install':
+      return error instanceof CLIInstallError && TRANSIENT_INSTALL_ERROR.test(error.message);
+    case 'cli_run':
+      return (
+        error instanceof CLIExecutionError && isTransientApiError(`${error.stderr ?? ''} ${error.message}`)
+      );
+  }
+}
+
+/**
+ * Backoff delay after the given failed attempt.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy = {}, random: () => number = Math.random): number {
+  const initial = policy.initialDelayMs ?? 1000;
+  const max = policy.maxDelayMs ?? 30000;
+  const delay = Math.min(max, initial * 2 ** (attempt - 1));
+  return policy.jitter === false ? delay : Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Applies a RetryPolicy and tracks its budget.
+ */
+export class Retrier {
+  private remaining: number;
+
+  constructor(private policy: RetryPolicy = {}) {
+    this.remaining = policy.budget ?? 5;
+  }
+
+  get maxAttempts(): number {
+    return this.policy.maxAttempts ?? 3;
+  }
+
+  /**
+   * Whether another attempt is allowed after `attempt` failed.
+   */
+  canRetry(attempt: number): boolean {
+    return attempt < this.maxAttempts && this.remaining > 0;
+  }
+
+  /**
+   * Consume budget, report the retry and wait out the backoff.
+   */
+  async backoff(operation: RetryOperation, attempt: number, error: unknown, signal?: AbortSignal): Promise<void> {
+    this.remaining--;
+    const delayMs = backoffDelay(attempt, this.policy);
+    await this.policy.onRetry?.({
+      operation,
+      attempt,
+      delayMs,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    await sleep(delayMs, signal);
+  }
+
+  /**
+   * Run `fn`, retrying retryable failures.
+   */
+  async run<T>(operation: RetryOperation, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (!isRetryableError(operation, error) || !this.canRetry(attempt) || signal?.aborted) {
+          throw error;
+        }
+        await this.backoff(operation, attempt, error, signal);
+      }
+    }
+  }
+}
+
+/**
+ * Retrier that never retries, used when no policy is configured.
+ */
+export const noRetry = new Retrier({ maxAttempts: 1, budget: 0 });
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError('Operation was aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError('Operation was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
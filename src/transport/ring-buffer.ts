@@ -0,0 +1,53 @@
+/**
+ * Ring Buffer
+ *
+ * Keeps the most recent output of a command, up to a fixed number of
+ * characters, for error messages and debug logs.
+ */
+
+export class RingBuffer {
+  private chunks: string[] = [];
+  private length = 0;
+  private dropped = false;
+
+  /**
+   * @param capacity - Characters kept; 0 keeps nothing
+   */
+  constructor(readonly capacity: number) {}
+
+  append(text: string): void {
+    if (!text) {
+      return;
+    }
+    if (text.length >= this.capacity) {
+      this.dropped ||= this.length > 0 || text.length > this.capacity;
+      this.chunks = this.capacity > 0 ? [text.slice(-this.capacity)] : [];
+      this.length = Math.max(this.capacity, 0);
+      return;
+    }
+
+    this.chunks.push(text);
+    this.length += text.length;
+    while (this.length > this.capacity) {
+      const first = this.chunks[0]!;
+      const overflow = this.length - this.capacity;
+      if (first.length <= overflow) {
+        this.chunks.shift();
+        this.length -= first.length;
+      } else {
+        this.chunks[0] = first.slice(overflow);
+        this.length -= overflow;
+      }
+      this.dropped = true;
+    }
+  }
+
+  /** Whether older output was discarded */
+  get truncated(): boolean {
+    return this.dropped;
+  }
+
+  toString(): string {
+    return this.chunks.join('');
+  }
+}
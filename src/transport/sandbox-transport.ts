@@ -1,13 +1,18 @@
 /**
- * Vercel Sandbox Transport
+ * Sandbox Transport
  *
- * This is the core of the SDK - it creates a Vercel Sandbox microVM,
- * installs the Claude CLI, and streams messages back to the caller.
+ * This is the core of the SDK - it creates a sandbox through the configured
+ * provider (a Vercel Sandbox microVM by default), installs the Claude CLI,
+ * and streams messages back to the caller.
  */
 
 import { Sandbox } from '@vercel/sandbox';
+import { SandboxInstance, SandboxCommand, CommandLog, resolveProvider, toSandboxInstance } from '../providers/index.js';
+import { CassetteRecorder, CassetteRecording, CassetteTermination, ReplaySandboxInstance, loadCassette } from './cassette.js';
 import {
   SDKMessage,
+  SDKUserMessage,
+  ResultMessage,
   isResultMessage,
   isErrorMessage,
   generateUuid,
@@ -22,36 +27,33 @@ import {
 } from '../types/options.js';
 import {
   SandboxError,
-  CLIInstallError,
   CLIExecutionError,
   AuthenticationError,
   AbortError,
   wrapError,
   ParseError,
 } from '../types/errors.js';
+import { readNDJSONMessages, serializeUserInput } from './protocol.js';
+import { Logger, errorFields, silentLogger, withLogFields } from '../logger.js';
+import { SchemaDrift, isKnownMessageType, validateMessage } from '../types/schemas.js';
+import { SpanNames, messageSpanAttributes, recordSpanError, setSpanAttributes, startSpan, withSpan } from '../tracing.js';
+import { assertValidCliVersion, detectCliVersion, ensureClaudeCli, installClaudeCli } from './cli-install.js';
+import { Retrier, isRetryableError, isTransientResult, noRetry } from './retry.js';
+import { ToolActivityTracker } from './tool-activity.js';
+import { RingBuffer } from './ring-buffer.js';
+import { RunWatchdog } from './watchdog.js';
+
+/** Characters of recent stdout and stderr kept for diagnostics */
+const DEFAULT_DIAGNOSTIC_BUFFER_SIZE = 64 * 1024;
 
 export interface Transport {
   connect(options: SandboxTransportOptions): Promise<void>;
-  startSession(prompt: string, options?: Options): AsyncGenerator<SDKMessage>;
-  sendInput(message: string): Promise<void>;
+  startSession(prompt: string | AsyncIterable<SDKUserMessage>, options?: Options): AsyncGenerator<SDKMessage>;
+  sendInput(message: string | SDKUserMessage): Promise<void>;
   close(): Promise<void>;
   createSnapshotWithInfo(metadata?: Record<string, string>): Promise<SnapshotResult>;
 }
 
-/**
- * Valid message types from Claude CLI NDJSON output.
- * Used for runtime validation of incoming messages.
- */
-const VALID_MESSAGE_TYPES = new Set([
-  'system',
-  'user',
-  'assistant',
-  'result',
-  'tool_use',
-  'progress',
-  'error',
-]);
-
 /**
  * Validates that a raw object has the minimum required structure
  * to be considered an SDK message.
@@ -66,24 +68,39 @@ function isValidMessageStructure(obj: unknown): obj is { type: string; [key: str
 
   const record = obj as Record<string, unknown>;
 
-  // Must have a valid 'type' field
-  if (typeof record['type'] !== 'string') {
-    return false;
-  }
-
-  // Type must be one of the known message types
-  if (!VALID_MESSAGE_TYPES.has(record['type'])) {
-    return false;
-  }
-
-  return true;
+  // Must have a valid 'type' field; unknown types are handled by enrichMessage
+  return typeof record['type'] === 'string' && record['type'] !== '';
 }
 
 export class SandboxTransport implements Transport {
-  private sandbox: Sandbox | null = null;
+  private sandbox: SandboxInstance | null = null;
   private isConnected = false;
   private options: SandboxTransportOptions = {};
   private currentSessionId: string | null = null;
+  private recorder: CassetteRecorder | null = null;
+  private inputCommand: SandboxCommand | null = null;
+  private watchdog: RunWatchdog | null = null;
+  private deadline: { at: number; timeoutMs: number } | null = null;
+  private _cliVersion: string | null = null;
+  private retrier: Retrier = noRetry;
+
+  /**
+   * Logger carrying the current sandbox and session IDs.
+   */
+  private get logger(): Logger {
+    return withLogFields(this.options.logger ?? silentLogger, {
+      sandboxId: this.sandbox?.sandboxId,
+      sessionId: this.currentSessionId,
+    });
+  }
+
+  /**
+   * Whether sessions are served from a recorded cassette.
+   * Replay needs no sandbox and no credentials.
+   */
+  private get replaying(): boolean {
+    return this.options.cassette?.mode === 'replay';
+  }
 
   /**
    * Get authentication credentials from options or environment variables.
@@ -123,10 +140,26 @@ export class SandboxTransport implements Transport {
   }
 
   /**
-   * Create and connect to a Vercel Sandbox
+   * Create and connect to a sandbox using the configured provider
    */
   async connect(options: SandboxTransportOptions = {}): Promise<void> {
     this.options = options;
+    this._cliVersion = null;
+    this.retrier = options.retry ? new Retrier(options.retry) : noRetry;
+    const timeoutMs = options.timeout || 300000;
+    this.deadline = { at: Date.now() + timeoutMs, timeoutMs };
+
+    // Replay recorded sessions without creating a sandbox
+    if (options.cassette?.mode === 'replay') {
+      const cassette = await loadCassette(options.cassette.path);
+      this.sandbox = new ReplaySandboxInstance(cassette, options.cassette.realtime);
+      this.isConnected = true;
+      return;
+    }
+
+    if (options.cassette?.mode === 'record') {
+      this.recorder = new CassetteRecorder(options.cassette.path);
+    }
 
     // Check for authentication (API key or OAuth token)
     const authCredentials = this.getAuthCredentials();
@@ -136,24 +169,62 @@ export class SandboxTransport implements Transport {
       );
     }
 
+    if (options.cliVersion) {
+      assertValidCliVersion(options.cliVersion);
+    }
+
+    const provider = resolveProvider(options.provider);
+    const source = options.pool ? 'pool' : options.snapshotId ? 'snapshot' : 'fresh';
+
     try {
-      // Create sandbox from snapshot or fresh
-      if (options.snapshotId) {
-        this.sandbox = await Sandbox.create({
-          source: {
-            type: 'snapshot',
-            snapshotId: options.snapshotId,
-          },
-          timeout: options.timeout || 300000,
-        });
-      } else {
-        this.sandbox = await Sandbox.create({
-          runtime: 'node24',
-          timeout: options.timeout || 300000,
-        });
+      let installed = false;
+
+      // Create sandbox from the pool, a snapshot, or fresh
+      this.sandbox = await this.retrier.run('sandbox_create', () =>
+        withSpan(
+          options.tracer,
+          SpanNames.SANDBOX_CREATE,
+          { 'sandbox.source': source, 'sandbox.snapshot_id': options.snapshotId },
+          async (span) => {
+            const sandbox = options.pool
+              ? await options.pool.acquire()
+              : options.snapshotId
+                ? await provider.restore(options.snapshotId, { timeout: options.timeout || 300000 })
+                : await provider.create({ runtime: 'node24', timeout: options.timeout || 300000 });
+            span.setAttribute('sandbox.id', sandbox.sandboxId);
+            return sandbox;
+          }
+        )
+      );
 
-        // Install Claude CLI
+      // Install Claude CLI in fresh sandboxes (unless the provider supplies its own)
+      if (source === 'fresh' && !provider.managesCli) {
         await this.installCLI();
+        installed = true;
+      }
+
+      // Pin the CLI version, keeping a matching install (e.g. from a snapshot)
+      if (options.cliVersion && !installed) {
+        if (provider.managesCli && !options.pool) {
+          const version = await detectCliVersion(this.sandbox);
+          if (version !== options.cliVersion) {
+            this.logger.warn('Provider supplies a different Claude CLI version than requested', {
+              cliVersion: options.cliVersion,
+              installed: version,
+            });
+          }
+          this._cliVersion = version;
+        } else {
+          const sandbox = this.sandbox;
+          this._cliVersion = await this.retrier.run('cli_install', () =>
+            withSpan(
+              options.tracer,
+              SpanNames.CLI_INSTALL,
+              { 'sandbox.id': sandbox.sandboxId, 'claude.cli.requested_version': options.cliVersion },
+              () => ensureClaudeCli(sandbox, options.cliVersion!, this.logger)
+            )
+          );
+        }
       }
 
       this.isConnected = true;
@@ -170,45 +241,103 @@ export class SandboxTransport implements Transport {
       throw new SandboxError('Sandbox not connected');
     }
 
-    try {
-      console.log('Installing Claude CLI in sandbox...');
+    const sandbox = this.sandbox;
+    this._cliVersion = await this.retrier.run('cli_install', () =>
+      withSpan(
+        this.options.tracer,
+        SpanNames.CLI_INSTALL,
+        { 'sandbox.id': sandbox.sandboxId, 'claude.cli.requested_version': this.options.cliVersion },
+        async (span) => {
+          const version = await installClaudeCli(sandbox, this.options.cliVersion, this.logger);
+          setSpanAttributes(span, { 'claude.cli.version': version ?? undefined });
+          return version;
+        }
+      )
+    );
+  }
+
+  /**
+   * Start a Claude session and stream messages.
+   *
+   * A string prompt runs a single non-interactive session. An AsyncIterable
+   * prompt runs the CLI with stream-json input: each message is written to
+   * the CLI's stdin as it arrives, sendInput() can push more messages while
+   * the session is live, and stdin is closed when the iterable ends.
+   *
+   * With a retry policy, string-prompt runs that fail on an Anthropic
+   * overload or rate-limit error before producing any message are re-run.
+   * System messages (such as the CLI's init message) and the failed run's
+   * result are held back until it is known whether the run is retried.
+   * Runs that already delivered other messages are never re-run, since the
+   * caller would see them twice and tools would run again.
+   */
+  async *startSession(
+    prompt: string | AsyncIterable<SDKUserMessage>,
+    options: Options = {}
+  ): AsyncGenerator<SDKMessage, void, undefined> {
+    // Streamed input is consumed by the first run and cannot be replayed
+    if (typeof prompt !== 'string') {
+      yield* this.runSession(prompt, options);
+      return;
+    }
 
-      // Install Claude CLI globally
-      const installResult = await this.sandbox.runCommand('npm', [
-        'install',
-        '-g',
-        '@anthropic-ai/claude-code',
-      ]);
+    const signal = options.signal ?? options.abortController?.signal;
 
-      if (installResult.exitCode !== 0) {
-        const stderr = await installResult.stderr();
-        throw new CLIInstallError(stderr || 'Unknown installation error');
+    for (let attempt = 1; ; attempt++) {
+      let delivered = false;
+      const held: SDKMessage[] = [];
+      let failedResult: ResultMessage | null = null;
+      let error: unknown = null;
+
+      try {
+        for await (const message of this.runSession(prompt, options)) {
+          if (!delivered) {
+            // Withheld until we know whether the run is retried
+            if (isTransientResult(message)) {
+              failedResult = message;
+              continue;
+            }
+            if (message.type === 'system') {
+              held.push(message);
+              continue;
+            }
+            delivered = true;
+            yield* held;
+          }
+          yield message;
+        }
+      } catch (caught) {
+        error = caught;
       }
 
-      // Verify installation
-      const verifyResult = await this.sandbox.runCommand('which', ['claude']);
-      if (verifyResult.exitCode !== 0) {
-        throw new CLIInstallError('Claude CLI not found after installation');
+      const failed = failedResult !== null || error !== null;
+      const transient = error === null || isRetryableError('cli_run', error);
+      if (failed && transient && !delivered && !signal?.aborted && this.retrier.canRetry(attempt)) {
+        const reason = error ?? new CLIExecutionError(failedResult!.result ?? failedResult!.error ?? 'Transient API error');
+        this.logger.warn('Retrying Claude CLI run after a transient API error', { attempt });
+        await this.retrier.backoff('cli_run', attempt, reason, signal);
+        continue;
       }
 
-      console.log('Claude CLI installed successfully');
-    } catch (error) {
-      if (error instanceof CLIInstallError) {
+      if (!delivered) {
+        yield* held;
+      }
+      if (failedResult) {
+        yield failedResult;
+      }
+      if (error !== null) {
         throw error;
       }
-      throw new CLIInstallError(
-        error instanceof Error ? error.message : 'Unknown error',
-        error
-      );
+      return;
     }
   }
 
   /**
-   * Start a Claude session and stream messages
+   * Run the Claude CLI once and stream its messages.
    */
-  async *startSession(
-    prompt: string,
-    options: Options = {}
+  private async *runSession(
+    prompt: string | AsyncIterable<SDKUserMessage>,
+    options: Options
   ): AsyncGenerator<SDKMessage, void, undefined> {
     if (!this.sandbox || !this.isConnected) {
       throw new SandboxError('Sandbox not connected. Call connect() first.');
@@ -216,7 +345,7 @@ export class SandboxTransport implements Transport {
 
     // Verify authentication is available (API key or OAuth token)
     const auth = this.getAuthCredentials();
-    if (!auth.apiKey && !auth.oauthToken) {
+    if (!this.replaying && !auth.apiKey && !auth.oauthToken) {
       throw new AuthenticationError(
         'Authentication required: set ANTHROPIC_API_KEY or CLAUDE_CODE_OAUTH_TOKEN'
       );
@@ -225,8 +354,10 @@ export class SandboxTransport implements Transport {
     // Generate session ID for this session
     this.currentSessionId = generateSessionId();
 
+    const streamingInput = typeof prompt !== 'string';
+
     // Build Claude CLI arguments
-    const args = this.buildCLIArgs(prompt, options);
+    const args = this.buildCLIArgs(streamingInput ? null : prompt, options);
 
     // Set up environment with authentication
     const env = this.buildSandboxEnv(options.env);
@@ -234,107 +365,118 @@ export class SandboxTransport implements Transport {
     // Get the effective signal (from options or abortController)
     const signal = options.signal ?? options.abortController?.signal;
 
+    const span = startSpan(this.options.tracer, SpanNames.CLI_RUN, {
+      'sandbox.id': this.sandbox.sandboxId,
+      'gen_ai.request.model': options.model,
+      'claude.streaming_input': streamingInput,
+    });
+
+    let running: SandboxCommand | null = null;
+    let exited = false;
+    let exitCode: number | null = null;
+    let recording: CassetteRecording | undefined;
+    let onAbort: (() => void) | null = null;
+
     try {
-      // First verify Claude CLI is working
-      console.log('Verifying Claude CLI installation...');
-      const versionCheck = await this.sandbox.runCommand('claude', ['--version']);
-      const version = await versionCheck.stdout();
-      console.log('Claude CLI version:', version.trim());
+      const logger = this.logger;
 
-      console.log('Starting Claude CLI...');
+      // First verify Claude CLI is working (cached per sandbox)
+      this._cliVersion = await detectCliVersion(this.sandbox);
+      logger.info('Starting Claude CLI', { cliVersion: this._cliVersion ?? 'unknown' });
+      setSpanAttributes(span, { 'claude.cli.version': this._cliVersion ?? undefined });
 
       // Start the Claude CLI process in detached mode to get streaming output
-      const command = await this.sandbox.runCommand({
+      const command = await this.sandbox.runDetached({
         cmd: 'claude',
         args,
         env,
-        cwd: options.cwd || '/vercel/sandbox',
-        detached: true,
+        cwd: options.cwd || this.sandbox.workingDirectory,
+        stdin: streamingInput,
       });
+      running = command;
 
-      // Set up abort handler
-      if (signal) {
-        signal.addEventListener('abort', () => {
+      // Enforce the wall-clock, turn and idle timeouts
+      const watchdog = new RunWatchdog(command, {
+        deadline: this.deadline ?? undefined,
+        turnTimeoutMs: options.turnTimeoutMs,
+        idleTimeoutMs: options.idleTimeoutMs,
+      });
+      this.watchdog = watchdog;
+      if (!streamingInput) {
+        watchdog.startTurn();
+      }
+
+      // Feed streamed input to the CLI's stdin in the background
+      let inputError: unknown = null;
+      if (streamingInput) {
+        this.inputCommand = command;
+        this.pumpInput(command, prompt).catch((error) => {
+          inputError = error;
           command.kill('SIGTERM').catch(() => {});
         });
       }
 
-      // Stream logs and parse NDJSON
-      let buffer = '';
-      let allStdout = '';
-      let allStderr = '';
-
-      for await (const log of command.logs()) {
-        if (log.stream === 'stdout') {
-          buffer += log.data;
-          allStdout += log.data;
-
-          // Process complete lines
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-          for (const line of lines) {
-            if (line.trim()) {
-              try {
-                const rawMessage = JSON.parse(line);
-                // Enrich with session metadata and validate structure
-                const message = this.enrichMessage(rawMessage);
-                yield message;
-              } catch (parseError) {
-                // If it's a ParseError from enrichMessage, it means we got valid JSON
-                // but with invalid message structure - this should propagate
-                if (parseError instanceof ParseError) {
-                  console.error('[Claude] Invalid message structure:', line);
-                  // Continue processing other messages instead of failing completely
-                  continue;
-                }
-                // Otherwise it's a JSON.parse error - not JSON, might be debug output
-                console.log('[Claude stdout]', line);
-              }
-            }
-          }
-        } else if (log.stream === 'stderr') {
-          allStderr += log.data;
-          // Log stderr for debugging
-          console.error('[Claude stderr]', log.data);
-        }
+      // Set up abort handler, removed when the run ends so a long-lived signal doesn't collect them
+      if (signal) {
+        onAbort = () => {
+          command.kill('SIGTERM').catch(() => {});
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
       }
 
-      // Log all output if we didn't get any JSON messages
-      if (!allStdout.includes('{')) {
-        console.log('[Full stdout]', allStdout);
+      // Capture the raw stream when recording a cassette
+      recording = this.recorder?.begin('claude', args);
+
+      // Stream logs and parse NDJSON, keeping only a bounded tail of output
+      const toolActivity = new ToolActivityTracker();
+      const bufferSize = this.options.diagnosticBufferSize ?? DEFAULT_DIAGNOSTIC_BUFFER_SIZE;
+      const stdoutTail = new RingBuffer(bufferSize);
+      const stderrTail = new RingBuffer(bufferSize);
+      let sawMessage = false;
+
+      const stdout = this.stdoutChunks(watchdog.watch(command.logs()), stdoutTail, stderrTail, logger, recording);
+      for await (const parsed of readNDJSONMessages(stdout, { maxLineLength: this.options.maxLineLength })) {
+        const message = this.parseCliMessage(parsed, logger);
+        if (!message) {
+          continue;
+        }
+        sawMessage = true;
+        setSpanAttributes(span, messageSpanAttributes(message));
+        if (message.type === 'result') {
+          watchdog.endTurn();
+        }
+        yield message;
+        yield* toolActivity.events(message);
       }
 
-      // Process any remaining buffer content
-      if (buffer.trim()) {
-        try {
-          const rawMessage = JSON.parse(buffer);
-          const message = this.enrichMessage(rawMessage);
-          yield message;
-        } catch (parseError) {
-          // Log validation errors but don't fail
-          if (parseError instanceof ParseError) {
-            console.error('[Claude] Invalid trailing message structure:', buffer);
-          }
-          // Ignore non-JSON trailing content
-        }
+      // Log the output if we didn't get any JSON messages
+      if (!sawMessage) {
+        logger.debug('CLI produced no JSON output', { stdout: stdoutTail.toString() });
       }
 
       // Wait for command to complete and check exit code
-      const result = await command.wait();
+      const result = await watchdog.race(command.wait());
+      exited = true;
+      exitCode = result.exitCode;
+      span.setAttribute('process.exit_code', result.exitCode);
+
+      if (inputError) {
+        throw wrapError(inputError, 'Failed to stream input to Claude CLI');
+      }
+
       if (result.exitCode !== 0) {
-        const stderr = await result.stderr();
-        const stdout = await result.stdout();
-        console.log('[Exit code]', result.exitCode);
-        console.log('[Final stdout]', stdout);
-        console.log('[Final stderr]', stderr);
+        logger.error('Claude CLI failed', { exitCode: result.exitCode });
+        const stderr = stderrTail.toString();
+        const output = stdoutTail.toString();
+        logger.debug('Claude CLI output', { stdout: output, stderr });
         throw new CLIExecutionError(
-          `Claude CLI exited with code ${result.exitCode}: ${stderr || stdout || 'no output'}`,
+          `Claude CLI exited with code ${result.exitCode}: ${stderr || output || 'no output'}`,
           result.exitCode,
           stderr
         );
       }
     } catch (error) {
+      recordSpanError(span, error);
       if (signal?.aborted) {
         throw new AbortError('Operation was aborted');
       }
@@ -342,7 +484,56 @@ export class SandboxTransport implements Transport {
         throw error;
       }
       throw wrapError(error, 'Failed to execute Claude CLI');
+    } finally {
+      span.end();
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+      if (running && !exited) {
+        // The caller stopped reading or the run failed: don't leave the CLI running
+        running.kill('SIGTERM').catch(() => {});
+      }
+      if (recording) {
+        // Save every run, including ones that were stopped, so partial output can be replayed
+        const timeout = this.watchdog?.error;
+        const terminated: CassetteTermination | undefined = timeout
+          ? { reason: 'timeout', timeoutMs: timeout.timeoutMs, phase: timeout.phase }
+          : signal?.aborted
+            ? { reason: 'aborted' }
+            : !exited
+              ? { reason: 'killed' }
+              : undefined;
+        await recording.finish(exitCode, terminated).catch((error) => {
+          this.logger.warn('Failed to save cassette', errorFields(error));
+        });
+      }
+      this.watchdog?.dispose();
+      this.watchdog = null;
+      this.inputCommand = null;
+    }
+  }
+
+  /**
+   * Write each message from an input stream to the CLI's stdin,
+   * then close stdin so the CLI exits after its final turn.
+   */
+  private async pumpInput(
+    command: SandboxCommand,
+    input: AsyncIterable<SDKUserMessage>
+  ): Promise<void> {
+    if (!command.writeStdin || !command.closeStdin) {
+      throw new SandboxError('The sandbox provider does not support streaming input');
+    }
+
+    for await (const message of input) {
+      if (this.inputCommand !== command) {
+        // Session already ended
+        return;
+      }
+      await command.writeStdin(serializeUserInput(message, this.currentSessionId));
+      this.watchdog?.startTurn();
     }
+    await command.closeStdin();
   }
 
   /**
@@ -374,9 +565,35 @@ export class SandboxTransport implements Transport {
         : null,
     };
 
-    // Type-specific validation for critical message types
     const messageType = enriched['type'] as string;
 
+    // Deliver types the SDK doesn't know as they are, rather than dropping them
+    if (!isKnownMessageType(messageType)) {
+      const issues = [{ path: 'type', message: `Unknown message type: ${messageType}` }];
+      this.reportDrift({ kind: 'unknown_type', type: messageType, issues, message: msg });
+      if (this.strictValidation) {
+        throw new ParseError(`Unknown message type: ${messageType}`, JSON.stringify(rawMessage));
+      }
+      return {
+        type: 'unknown',
+        uuid: enriched['uuid'] as string,
+        session_id: enriched['session_id'] as string,
+        parent_tool_use_id: enriched['parent_tool_use_id'] as string | null,
+        original_type: messageType,
+        data: msg,
+      };
+    }
+
+    const issues = validateMessage(enriched as { type: string });
+    if (issues.length > 0) {
+      this.reportDrift({ kind: 'invalid', type: messageType, issues, message: msg });
+      if (this.strictValidation) {
+        const summary = issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+        throw new ParseError(`Invalid ${messageType} message: ${summary}`, JSON.stringify(rawMessage));
+      }
+    }
+
+    // Lenient mode: fill in defaults for the fields the SDK relies on
     switch (messageType) {
       case 'assistant':
       case 'user':
@@ -393,6 +610,13 @@ export class SandboxTransport implements Transport {
         }
         break;
 
+      case 'stream_event':
+        // Stream events are only useful with their API event
+        if (!enriched['event'] || typeof enriched['event'] !== 'object') {
+          throw new ParseError('Invalid stream_event: missing event', JSON.stringify(rawMessage));
+        }
+        break;
+
       case 'error':
         // Error messages should have an error object
         if (!enriched['error'] || typeof enriched['error'] !== 'object') {
@@ -405,7 +629,7 @@ export class SandboxTransport implements Transport {
     }
 
     // The message has been validated to have:
-    // 1. A valid 'type' field (checked by isValidMessageStructure)
+    // 1. A known 'type' field
     // 2. Required base fields: uuid, session_id, parent_tool_use_id
     // 3. Type-specific fields filled with defaults where missing
     // The cast is safe because we've validated the structure at runtime.
@@ -413,24 +637,134 @@ export class SandboxTransport implements Transport {
   }
 
   /**
-   * Build CLI arguments from options
+   * Pass through a command's stdout, recording every log and keeping the
+   * recent output of both streams in the diagnostic buffers.
+   */
+  private async *stdoutChunks(
+    logs: AsyncIterable<CommandLog>,
+    stdoutTail: RingBuffer,
+    stderrTail: RingBuffer,
+    logger: Logger,
+    recording?: CassetteRecording
+  ): AsyncGenerator<string, void, undefined> {
+    for await (const log of logs) {
+      recording?.record(log);
+
+      if (log.stream === 'stdout') {
+        stdoutTail.append(log.data);
+        yield log.data;
+      } else if (log.stream === 'stderr') {
+        stderrTail.append(log.data);
+        // Log stderr for debugging
+        logger.debug('CLI stderr', { data: log.data });
+      }
+    }
+  }
+
+  /**
+   * Enrich one parsed line of CLI stdout. Returns null for lines that aren't
+   * JSON (debug output) or are too long and, unless validation is strict,
+   * for messages with an invalid structure.
+   */
+  private parseCliMessage(parsed: SDKMessage | ParseError, logger: Logger): SDKMessage | null {
+    try {
+      if (parsed instanceof ParseError) {
+        throw parsed;
+      }
+      // Enrich with session metadata and validate structure
+      return this.enrichMessage(parsed);
+    } catch (parseError) {
+      if (!(parseError instanceof ParseError)) {
+        throw parseError;
+      }
+      if (parseError.reason === 'invalid_json') {
+        // Not JSON - might be debug output
+        logger.debug('CLI stdout', { line: parseError.line });
+        return null;
+      }
+      if (parseError.reason === 'line_too_long') {
+        // Oversize lines are dropped, but the rest of the output is still usable
+        logger.warn('Skipping oversize CLI output line', { error: parseError.message });
+        logger.debug('Oversize CLI output line', { line: parseError.line });
+        return null;
+      }
+      if (this.strictValidation) {
+        throw parseError;
+      }
+      logger.warn('Skipping CLI message with invalid structure');
+      logger.debug('Invalid CLI message', { line: parseError.line });
+      // Continue processing other messages instead of failing completely
+      return null;
+    }
+  }
+
+  /**
+   * Whether messages that don't match their schema fail the run.
+   */
+  private get strictValidation(): boolean {
+    return this.options.messageValidation === 'strict';
+  }
+
+  /**
+   * Report a CLI message that doesn't match the SDK's schemas.
    */
-  private buildCLIArgs(prompt: string, options: Options): string[] {
+  private reportDrift(drift: SchemaDrift): void {
+    this.logger.warn('CLI message does not match the SDK schema', {
+      type: drift.type,
+      kind: drift.kind,
+      issues: drift.issues.map((issue) => `${issue.path}: ${issue.message}`).join('; '),
+    });
+    try {
+      this.options.onSchemaDrift?.(drift);
+    } catch (error) {
+      this.logger.error('onSchemaDrift callback failed', errorFields(error));
+    }
+  }
+
+  /**
+   * Build CLI arguments from options.
+   * A null prompt means input is streamed over stdin.
+   */
+  private buildCLIArgs(prompt: string | null, options: Options): string[] {
     const args: string[] = [
       '--print', // Non-interactive mode, print response and exit
       '--output-format', 'stream-json', // NDJSON streaming format
       '--verbose', // Required for stream-json output
-      '--dangerously-skip-permissions', // Skip permission prompts in sandbox
     ];
 
+    const permissionMode = options.permissionMode ?? 'bypassPermissions';
+    if (permissionMode === 'bypassPermissions') {
+      args.push('--dangerously-skip-permissions'); // Skip permission prompts in sandbox
+    } else {
+      args.push('--permission-mode', permissionMode);
+    }
+
+    if (options.permissionPromptToolName) {
+      args.push('--permission-prompt-tool', options.permissionPromptToolName);
+    }
+
+    if (options.settings) {
+      args.push('--settings', options.settings);
+    }
+
     if (options.model) {
       args.push('--model', options.model);
     }
 
+    if (options.resume) {
+      args.push('--resume', options.resume);
+    } else if (options.continue) {
+      args.push('--continue');
+    }
+
     if (options.systemPrompt) {
       args.push('--system-prompt', options.systemPrompt);
     }
 
+    if (options.appendSystemPrompt) {
+      args.push('--append-system-prompt', options.appendSystemPrompt);
+    }
+
     if (options.allowedTools) {
       if (options.allowedTools === 'all') {
         args.push('--allowedTools', 'all');
@@ -444,18 +778,14 @@ export class SandboxTransport implements Transport {
     }
 
     // Handle MCP servers (Record format)
-    if (options.mcpServers) {
+    if (options.mcpServers && Object.keys(options.mcpServers).length > 0) {
+      const mcpServers: Record<string, Record<string, unknown>> = {};
       for (const [name, config] of Object.entries(options.mcpServers)) {
-        args.push('--mcp-config', JSON.stringify({ name, ...config }));
+        mcpServers[name] = config.url && !config.command
+          ? { type: config.type ?? 'sse', url: config.url, ...(config.headers && { headers: config.headers }) }
+          : { type: 'stdio', ...config };
       }
-    }
-
-    // Handle permission mode warning (sandbox always bypasses)
-    if (options.permissionMode && options.permissionMode !== 'bypassPermissions') {
-      console.warn(
-        `[sandbox-transport] Warning: permissionMode '${options.permissionMode}' is ignored in sandbox. ` +
-        `Using --dangerously-skip-permissions.`
-      );
+      args.push('--mcp-config', JSON.stringify({ mcpServers }));
     }
 
     // Handle max turns
@@ -463,27 +793,46 @@ export class SandboxTransport implements Transport {
       args.push('--max-turns', String(options.maxTurns));
     }
 
-    // Add the prompt as the final positional argument
-    args.push(prompt);
+    if (options.includePartialMessages) {
+      args.push('--include-partial-messages');
+    }
+
+    if (prompt === null) {
+      // Read user messages as NDJSON from stdin
+      args.push('--input-format', 'stream-json');
+    } else {
+      // Add the prompt as the final positional argument
+      args.push(prompt);
+    }
 
     return args;
   }
 
   /**
-   * Send input to the running Claude process
-   * Note: This is not fully supported with the current sandbox API
+   * Send a user message into the running Claude session.
+   * Only available while a session started with an AsyncIterable prompt
+   * is streaming.
    */
-  async sendInput(_message: string): Promise<void> {
-    throw new SandboxError(
-      'Interactive input is not supported in sandbox mode. Use non-interactive prompts.'
-    );
+  async sendInput(message: string | SDKUserMessage): Promise<void> {
+    const command = this.inputCommand;
+    if (!command?.writeStdin) {
+      throw new SandboxError(
+        'No streaming session is active. Start a session with an AsyncIterable prompt to send input.'
+      );
+    }
+    await command.writeStdin(serializeUserInput(message, this.currentSessionId));
+    this.watchdog?.startTurn();
   }
 
   /**
    * Close the sandbox connection
    */
   async close(): Promise<void> {
-    if (this.sandbox) {
+    if (this.sandbox && this.options.pool && !this.replaying) {
+      // Check pooled sandboxes back in instead of stopping them
+      await this.options.pool.release(this.sandbox);
+      this.sandbox = null;
+    } else if (this.sandbox) {
       try {
         await this.sandbox.stop();
       } catch {
@@ -494,6 +843,7 @@ export class SandboxTransport implements Transport {
 
     this.isConnected = false;
     this.currentSessionId = null;
+    this.recorder = null;
   }
 
   /**
@@ -513,22 +863,26 @@ export class SandboxTransport implements Transport {
     }
 
     try {
-      const createdAt = new Date();
+      const requestedAt = new Date();
       const snapshot = await this.sandbox.snapshot();
+      const createdAt = snapshot.createdAt ?? requestedAt;
 
-      // Vercel snapshots expire after 7 days
-      const expiresAt = new Date(createdAt.getTime() + 7 * 24 * 60 * 60 * 1000);
+      // Fall back to the Vercel 7-day expiry when the provider doesn't report one
+      const expiresAt = snapshot.expiresAt ?? new Date(createdAt.getTime() + 7 * 24 * 60 * 60 * 1000);
 
       const result: SnapshotResult = {
         snapshotId: snapshot.snapshotId,
         sessionId: this.currentSessionId || '',
         createdAt,
         expiresAt,
-        sizeBytes: 0, // Vercel doesn't expose size, default to 0
+        sizeBytes: snapshot.sizeBytes ?? 0,
         parentSnapshotId: this.options.snapshotId, // If we were created from a snapshot
       };
 
       this.isConnected = false; // Sandbox stops after snapshot
+      if (this.options.pool) {
+        await this.options.pool.release(this.sandbox, { discard: true });
+      }
       this.sandbox = null;
 
       return result;
@@ -555,7 +909,7 @@ export class SandboxTransport implements Transport {
    * Get the underlying sandbox instance (for advanced use cases).
    * Prefer getSandboxContext() for hook implementations.
    */
-  getSandbox(): Sandbox | null {
+  getSandbox(): SandboxInstance | null {
     return this.sandbox;
   }
 
@@ -574,12 +928,7 @@ export class SandboxTransport implements Transport {
       throw new SandboxError('Sandbox not connected');
     }
 
-    await this.sandbox.writeFiles(
-      files.map((f) => ({
-        path: f.path,
-        content: Buffer.from(f.content, 'utf-8'),
-      }))
-    );
+    await this.sandbox.writeFiles(files);
   }
 
   /**
@@ -590,13 +939,20 @@ export class SandboxTransport implements Transport {
       throw new SandboxError('Sandbox not connected');
     }
 
-    const buffer = await this.sandbox.readFileToBuffer({ path });
+    const buffer = await this.sandbox.readFile(path);
     if (buffer === null) {
       throw new SandboxError(`File not found: ${path}`);
     }
     return buffer.toString('utf-8');
   }
 
+  /**
+   * Claude CLI version detected in the sandbox, once known.
+   */
+  get cliVersion(): string | null {
+    return this._cliVersion;
+  }
+
   /**
    * Check if connected to a sandbox
    */
@@ -654,42 +1010,33 @@ export async function getFinalResult(
  * Provides a safe, controlled interface to sandbox operations.
  */
 export class SandboxContextImpl implements SandboxContext {
-  constructor(private sandbox: Sandbox) {}
+  constructor(private sandbox: SandboxInstance) {}
 
   get sandboxId(): string {
     return this.sandbox.sandboxId;
   }
 
+  get workingDirectory(): string {
+    return this.sandbox.workingDirectory;
+  }
+
   async runCommand(
     cmd: string,
     args: string[] = [],
     options: { cwd?: string; env?: Record<string, string> } = {}
   ): Promise<CommandResult> {
-    const result = await this.sandbox.runCommand({
-      cmd,
-      args,
-      cwd: options.cwd || '/vercel/sandbox',
+    return await this.sandbox.runCommand(cmd, args, {
+      cwd: options.cwd || this.sandbox.workingDirectory,
       env: options.env,
     });
-
-    return {
-      exitCode: result.exitCode,
-      stdout: await result.stdout(),
-      stderr: await result.stderr(),
-    };
   }
 
   async writeFiles(files: Array<{ path: string; content: string }>): Promise<void> {
-    await this.sandbox.writeFiles(
-      files.map((f) => ({
-        path: f.path,
-        content: Buffer.from(f.content, 'utf-8'),
-      }))
-    );
+    await this.sandbox.writeFiles(files);
   }
 
   async readFile(path: string): Promise<string> {
-    const buffer = await this.sandbox.readFileToBuffer({ path });
+    const buffer = await this.sandbox.readFile(path);
     if (buffer === null) {
       throw new SandboxError(`File not found: ${path}`);
     }
@@ -698,7 +1045,7 @@ export class SandboxContextImpl implements SandboxContext {
 
   async fileExists(path: string): Promise<boolean> {
     try {
-      const buffer = await this.sandbox.readFileToBuffer({ path });
+      const buffer = await this.sandbox.readFile(path);
       return buffer !== null;
     } catch {
       return false;
@@ -706,17 +1053,14 @@ export class SandboxContextImpl implements SandboxContext {
   }
 
   async mkdir(path: string): Promise<void> {
-    const result = await this.sandbox.runCommand('mkdir', ['-p', path]);
-    if (result.exitCode !== 0) {
-      const stderr = await result.stderr();
-      throw new SandboxError(`Failed to create directory ${path}: ${stderr}`);
-    }
+    await this.sandbox.mkdir(path);
   }
 }
 
 /**
- * Factory function to create a SandboxContext from a Sandbox instance.
+ * Factory function to create a SandboxContext from a sandbox instance
+ * (or a raw Vercel Sandbox).
  */
-export function createSandboxContext(sandbox: Sandbox): SandboxContext {
-  return new SandboxContextImpl(sandbox);
+export function createSandboxContext(sandbox: Sandbox | SandboxInstance): SandboxContext {
+  return new SandboxContextImpl(toSandboxInstance(sandbox));
 }
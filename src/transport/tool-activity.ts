@@ -0,0 +1,66 @@
+/**
+ * Tool Activity
+ *
+ * The CLI reports tool calls as content blocks: `tool_use` blocks in
+ * assistant messages and `tool_result` blocks in the user messages that
+ * follow. ToolActivityTracker turns them into standalone `tool_use` and
+ * `tool_result` SDK messages, correlated by tool_use_id and timed.
+ */
+
+import {
+  SDKMessage,
+  ToolResultMessage,
+  ToolUseMessage,
+  generateUuid,
+} from '../types/messages.js';
+
+export class ToolActivityTracker {
+  private started = new Map<string, { name: string; at: number }>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Normalized tool messages for the content blocks of `message`. They
+   * share its session and parent_tool_use_id, so subagent tool calls stay
+   * attached to the Task call that spawned them.
+   */
+  events(message: SDKMessage): Array<ToolUseMessage | ToolResultMessage> {
+    if (message.type !== 'assistant' && message.type !== 'user') {
+      return [];
+    }
+    const content = message.message?.content;
+    if (!Array.isArray(content)) {
+      return [];
+    }
+
+    const base = { session_id: message.session_id, parent_tool_use_id: message.parent_tool_use_id };
+    const events: Array<ToolUseMessage | ToolResultMessage> = [];
+    for (const block of content) {
+      if (block.type === 'tool_use' && message.type === 'assistant') {
+        this.started.set(block.id, { name: block.name, at: this.now() });
+        events.push({
+          ...base,
+          type: 'tool_use',
+          uuid: generateUuid(),
+          tool_use_id: block.id,
+          name: block.name,
+          input: block.input ?? {},
+        });
+      } else if (block.type === 'tool_result') {
+        const started = this.started.get(block.tool_use_id);
+        this.started.delete(block.tool_use_id);
+        events.push({
+          ...base,
+          type: 'tool_result',
+          uuid: generateUuid(),
+          tool_use_id: block.tool_use_id,
+          name: started?.name,
+          content: block.content,
+          is_error: block.is_error === true,
+          duration_ms: started ? this.now() - started.at : undefined,
+        });
+      }
+    }
+    return events;
+  }
+}
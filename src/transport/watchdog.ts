@@ -0,0 +1,193 @@
+/**
+ * Run Watchdog
+ *
+ * Enforces wall-clock, per-turn and idle timeouts on a running CLI
+ * command. On expiry the command is sent SIGTERM, then SIGKILL if it has
+ * not exited after a grace period, and the watched stream fails with a
+ * SandboxTimeoutError naming the phase that expired.
+ */
+
+import { SandboxCommand } from '../providers/types.js';
+import { SandboxTimeoutError, TimeoutPhase } from '../types/errors.js';
+
+/** How long a command gets to exit after SIGTERM before SIGKILL */
+const KILL_GRACE_MS = 5000;
+
+export interface WatchdogOptions {
+  /** Wall-clock limit: when it ends (epoch ms) and how long it was */
+  deadline?: { at: number; timeoutMs: number };
+  /** Maximum duration of one turn */
+  turnTimeoutMs?: number;
+  /** Maximum time without output during a turn */
+  idleTimeoutMs?: number;
+}
+
+export class RunWatchdog {
+  private turnTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private deadlineTimer: ReturnType<typeof setTimeout> | null = null;
+  private inTurn = false;
+  // Turns started (e.g. queued user messages) that have no result yet
+  private pendingTurns = 0;
+  private expiry: Promise<never>;
+  private expire!: (error: SandboxTimeoutError) => void;
+  private _error: SandboxTimeoutError | null = null;
+
+  constructor(
+    private command: SandboxCommand,
+    private options: WatchdogOptions = {}
+  ) {
+    this.expiry = new Promise<never>((_, reject) => {
+      this.expire = reject;
+    });
+    // Only observed through race(); avoid unhandled rejections otherwise
+    this.expiry.catch(() => {});
+
+    const { deadline } = options;
+    if (deadline) {
+      this.deadlineTimer = setTimeout(
+        () => this.trip('total', deadline.timeoutMs),
+        Math.max(0, deadline.at - Date.now())
+      );
+    }
+  }
+
+  /**
+   * The timeout that expired, if any.
+   */
+  get error(): SandboxTimeoutError | null {
+    return this._error;
+  }
+
+  /**
+   * A turn started: arm the turn and idle timers. A turn queued behind one
+   * in progress is timed once the earlier turns finish.
+   */
+  startTurn(): void {
+    this.pendingTurns++;
+    if (this.pendingTurns === 1) {
+      this.armTurn();
+    }
+  }
+
+  /**
+   * The current turn finished: re-arm the timers for the next queued turn,
+   * or let the CLI wait for input indefinitely when none is queued.
+   */
+  endTurn(): void {
+    this.pendingTurns = Math.max(0, this.pendingTurns - 1);
+    if (this.pendingTurns > 0) {
+      this.armTurn();
+      return;
+    }
+    this.inTurn = false;
+    this.clear('turn');
+    this.clear('idle');
+  }
+
+  /**
+   * The command produced output.
+   */
+  activity(): void {
+    this.clear('idle');
+    const { idleTimeoutMs } = this.options;
+    if (this.inTurn && idleTimeoutMs) {
+      this.idleTimer = setTimeout(() => this.trip('idle', idleTimeoutMs), idleTimeoutMs);
+    }
+  }
+
+  /**
+   * Settle with `promise`, or fail if a timeout expires first.
+   */
+  race<T>(promise: Promise<T>): Promise<T> {
+    return Promise.race([promise, this.expiry]);
+  }
+
+  /**
+   * Iterate `source`, counting each item as activity, until a timeout expires.
+   */
+  async *watch<T>(source: AsyncIterable<T>): AsyncGenerator<T, void, undefined> {
+    const iterator = source[Symbol.asyncIterator]();
+    try {
+      while (true) {
+        const next = await this.race(iterator.next());
+        if (next.done) {
+          return;
+        }
+        this.activity();
+        yield next.value;
+      }
+    } finally {
+      const closing = iterator.return?.();
+      if (this._error) {
+        // The pending next() may never settle for a hung command
+        void closing?.catch(() => {});
+      } else {
+        await closing;
+      }
+    }
+  }
+
+  /**
+   * Stop all timers.
+   */
+  dispose(): void {
+    this.pendingTurns = 0;
+    this.endTurn();
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer);
+      this.deadlineTimer = null;
+    }
+  }
+
+  private armTurn(): void {
+    this.inTurn = true;
+    this.clear('turn');
+    const { turnTimeoutMs } = this.options;
+    if (turnTimeoutMs) {
+      this.turnTimer = setTimeout(() => this.trip('turn', turnTimeoutMs), turnTimeoutMs);
+    }
+    this.activity();
+  }
+
+    private clear(timer: 'turn' | 'idle'): void {
+    if (timer === 'turn' && this.turnTimer) {
+      clearTimeout(this.turnTimer);
+      this.turnTimer = null;
+    } else if (timer === 'idle' && this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private trip(phase: TimeoutPhase, timeoutMs: number): void {
+    if (this._error) {
+      return;
+    }
+    this._error = new SandboxTimeoutError(timeoutMs, undefined, phase);
+    this.dispose();
+    void this.terminate();
+    this.expire(this._error);
+  }
+
+  private async terminate(): Promise<void> {
+    await this.command.kill('SIGTERM').catch(() => {});
+
+    let grace: ReturnType<typeof setTimeout> | undefined;
+    const exited = await Promise.race([
+      this.command.wait().then(
+        () => true,
+        () => true
+      ),
+      new Promise<boolean>((resolve) => {
+        grace = setTimeout(() => resolve(false), KILL_GRACE_MS);
+        grace.unref?.();
+      }),
+    ]);
+    clearTimeout(grace);
+
+    if (!exited) {
+      await this.command.kill('SIGKILL').catch(() => {});
+    }
+  }
+}
@@ -27,15 +27,30 @@ export class SandboxError extends SDKError {
   }
 }
 
+/**
+ * Which limit a SandboxTimeoutError hit:
+ * - `acquire`: waiting for a pooled sandbox
+ * - `total`: the query's wall-clock limit
+ * - `turn`: a single turn ran too long
+ * - `idle`: the CLI produced no output during a turn
+ */
+export type TimeoutPhase = 'acquire' | 'total' | 'turn' | 'idle';
+
 /**
  * Error thrown when the sandbox times out
  */
 export class SandboxTimeoutError extends SandboxError {
   constructor(
     public readonly timeoutMs: number,
-    cause?: unknown
+    cause?: unknown,
+    public readonly phase?: TimeoutPhase
   ) {
-    super(`Sandbox operation timed out after ${timeoutMs}ms`, cause);
+    super(
+      phase
+        ? `Sandbox operation timed out after ${timeoutMs}ms (${phase} timeout)`
+        : `Sandbox operation timed out after ${timeoutMs}ms`,
+      cause
+    );
     this.name = 'SandboxTimeoutError';
   }
 }
@@ -112,6 +127,14 @@ export class AbortError extends SDKError {
   }
 }
 
+/**
+ * Why a line of CLI output could not be used:
+ * - `line_too_long`: the line exceeded the maximum line length
+ * - `invalid_json`: the line is not JSON
+ * - `invalid_message`: the JSON is not a valid message
+ */
+export type ParseErrorReason = 'line_too_long' | 'invalid_json' | 'invalid_message';
+
 /**
  * Error thrown when parsing NDJSON fails
  */
@@ -119,7 +142,8 @@ export class ParseError extends SDKError {
   constructor(
     message: string,
     public readonly line?: string,
-    cause?: unknown
+    cause?: unknown,
+    public readonly reason?: ParseErrorReason
   ) {
     super(message, 'PARSE_ERROR', cause);
     this.name = 'ParseError';
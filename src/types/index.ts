@@ -5,3 +5,4 @@
 export * from './messages.js';
 export * from './options.js';
 export * from './errors.js';
+export * from './schemas.js';
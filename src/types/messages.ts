@@ -81,6 +81,8 @@ export interface ModelUsage {
   output_tokens: number;
   cache_creation_input_tokens?: number;
   cache_read_input_tokens?: number;
+  /** Cost in USD, when reported */
+  cost_usd?: number;
 }
 
 /**
@@ -93,6 +95,10 @@ export interface UsageInfo {
   total_input_tokens: number;
   /** Total output tokens across all models */
   total_output_tokens: number;
+  /** Total tokens written to the prompt cache across all models */
+  total_cache_creation_input_tokens?: number;
+  /** Total tokens read from the prompt cache across all models */
+  total_cache_read_input_tokens?: number;
   /** Total cost in USD */
   total_cost_usd: number;
 }
@@ -122,10 +128,13 @@ export interface ResultMessage extends SDKMessageBase {
   snapshotId?: string;
   /** Full snapshot information if auto-snapshot was enabled */
   snapshotInfo?: import('./options.js').SnapshotResult;
+  /** True for the query-level result summing every CLI run of a query */
+  aggregate?: boolean;
 }
 
 /**
- * Tool use request from Claude
+ * Tool use request from Claude, emitted after the assistant message
+ * containing the tool_use block
  */
 export interface ToolUseMessage extends SDKMessageBase {
   type: 'tool_use';
@@ -134,6 +143,22 @@ export interface ToolUseMessage extends SDKMessageBase {
   input: Record<string, unknown>;
 }
 
+/**
+ * Result of a tool call, emitted after the user message containing the
+ * tool_result block
+ */
+export interface ToolResultMessage extends SDKMessageBase {
+  type: 'tool_result';
+  /** ID of the matching tool_use message */
+  tool_use_id: string;
+  /** Tool name, when its tool_use was seen */
+  name?: string;
+  content: string | ContentBlock[];
+  is_error: boolean;
+  /** Time from the tool_use to its result, when the tool_use was seen */
+  duration_ms?: number;
+}
+
 /**
  * Progress indicator message
  */
@@ -154,6 +179,47 @@ export interface ErrorMessage extends SDKMessageBase {
   };
 }
 
+/**
+ * Incremental update to a content block
+ */
+export type ContentBlockDelta =
+  | { type: 'text_delta'; text: string }
+  | { type: 'input_json_delta'; partial_json: string }
+  | { type: 'thinking_delta'; thinking: string }
+  | { type: string; [key: string]: unknown };
+
+/**
+ * Anthropic API streaming event, as relayed by the CLI
+ */
+export type StreamEvent =
+  | { type: 'message_start'; message: Record<string, unknown> }
+  | { type: 'content_block_start'; index: number; content_block: ContentBlock }
+  | { type: 'content_block_delta'; index: number; delta: ContentBlockDelta }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta: Record<string, unknown>; usage?: Record<string, unknown> }
+  | { type: 'message_stop' };
+
+/**
+ * Partial assistant output, emitted only with `includePartialMessages`.
+ * The complete assistant message still follows each content block.
+ */
+export interface StreamEventMessage extends SDKMessageBase {
+  type: 'stream_event';
+  event: StreamEvent;
+}
+
+/**
+ * Message of a type the SDK doesn't know, delivered as received so newer
+ * CLI output isn't lost
+ */
+export interface UnknownMessage extends SDKMessageBase {
+  type: 'unknown';
+  /** The message's `type` as sent by the CLI */
+  original_type: string;
+  /** The message as received from the CLI */
+  data: Record<string, unknown>;
+}
+
 /**
  * Union of all message types streamed from Claude CLI
  */
@@ -163,8 +229,11 @@ export type SDKMessage =
   | AssistantMessage
   | ResultMessage
   | ToolUseMessage
+  | ToolResultMessage
   | ProgressMessage
-  | ErrorMessage;
+  | ErrorMessage
+  | StreamEventMessage
+  | UnknownMessage;
 
 /**
  * Prefixed type aliases for clarity (aligned with official SDK export names)
@@ -174,8 +243,11 @@ export type SDKUserMessage = UserMessage;
 export type SDKAssistantMessage = AssistantMessage;
 export type SDKResultMessage = ResultMessage;
 export type SDKToolUseMessage = ToolUseMessage;
+export type SDKToolResultMessage = ToolResultMessage;
 export type SDKProgressMessage = ProgressMessage;
 export type SDKErrorMessage = ErrorMessage;
+export type SDKPartialAssistantMessage = StreamEventMessage;
+export type SDKUnknownMessage = UnknownMessage;
 
 /**
  * Type guard functions for message identification
@@ -200,6 +272,10 @@ export function isToolUseMessage(msg: SDKMessage): msg is ToolUseMessage {
   return msg.type === 'tool_use';
 }
 
+export function isToolResultMessage(msg: SDKMessage): msg is ToolResultMessage {
+  return msg.type === 'tool_result';
+}
+
 export function isProgressMessage(msg: SDKMessage): msg is ProgressMessage {
   return msg.type === 'progress';
 }
@@ -208,6 +284,14 @@ export function isErrorMessage(msg: SDKMessage): msg is ErrorMessage {
   return msg.type === 'error';
 }
 
+export function isUnknownMessage(msg: SDKMessage): msg is UnknownMessage {
+  return msg.type === 'unknown';
+}
+
+export function isStreamEvent(msg: SDKMessage): msg is StreamEventMessage {
+  return msg.type === 'stream_event';
+}
+
 /**
  * Extract text content from an assistant message
  */
@@ -218,6 +302,24 @@ export function extractText(message: AssistantMessage): string {
     .join('');
 }
 
+/**
+ * Extract the text added by a stream event, if it is a text delta
+ */
+export function extractTextDelta(message: StreamEventMessage): string | undefined {
+  const { event } = message;
+  if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+    return (event.delta as { text: string }).text;
+  }
+  return undefined;
+}
+
+/**
+ * Extract the cost in USD reported by a result message
+ */
+export function extractCostUsd(message: ResultMessage): number | undefined {
+  return message.total_cost_usd ?? message.cost_usd ?? message.usage?.total_cost_usd;
+}
+
 /**
  * Generate a UUID v4 for message identification.
  * Uses crypto.randomUUID() for cryptographically secure generation.
@@ -234,3 +336,22 @@ export function generateUuid(): string {
 export function generateSessionId(): string {
   return `session_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
 }
+
+/**
+ * Create a user message, e.g. for streaming input into a live session.
+ */
+export function createUserMessage(
+  content: string | ContentBlock[],
+  sessionId: string = ''
+): UserMessage {
+  return {
+    type: 'user',
+    message: {
+      role: 'user',
+      content: typeof content === 'string' ? [{ type: 'text', text: content }] : content,
+    },
+    uuid: generateUuid(),
+    session_id: sessionId,
+    parent_tool_use_id: null,
+  };
+}
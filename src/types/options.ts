@@ -59,6 +59,12 @@ export interface SandboxContext {
    * The unique identifier for this sandbox instance.
    */
   readonly sandboxId: string;
+
+  /**
+   * Default working directory of the sandbox
+   * ('/vercel/sandbox' on Vercel, a temp directory for the local provider).
+   */
+  readonly workingDirectory: string;
 }
 
 /**
@@ -122,7 +128,7 @@ export interface SetupConfig {
 
   /**
    * Working directory for setup operations.
-   * @default '/vercel/sandbox'
+   * @default the sandbox's working directory ('/vercel/sandbox' on Vercel)
    */
   workingDirectory?: string;
 }
@@ -221,6 +227,139 @@ export type ClaudeModel =
  */
 export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
 
+/**
+ * Decision returned by a canUseTool callback (aligned with official SDK)
+ */
+export type PermissionResult =
+  | {
+      behavior: 'allow';
+      /**
+       * Input to run the tool with. Defaults to the requested input.
+       */
+      updatedInput?: Record<string, unknown>;
+    }
+  | {
+      behavior: 'deny';
+      /**
+       * Explanation shown to Claude.
+       */
+      message: string;
+    };
+
+/**
+ * Callback deciding whether Claude may use a tool (aligned with official SDK)
+ */
+export type CanUseTool = (
+  toolName: string,
+  input: Record<string, unknown>,
+  options: { signal: AbortSignal }
+) => Promise<PermissionResult>;
+
+/**
+ * Agent events that host hook callbacks can handle (aligned with official SDK)
+ */
+export type HookEvent = 'PreToolUse' | 'PostToolUse' | 'UserPromptSubmit' | 'Stop' | 'Notification';
+
+/**
+ * Fields the CLI sends with every hook event
+ */
+export interface BaseHookInput {
+  session_id: string;
+  transcript_path: string;
+  cwd: string;
+}
+
+/**
+ * Input passed to a hook callback, by event (aligned with official SDK)
+ */
+export type HookInput =
+  | (BaseHookInput & { hook_event_name: 'PreToolUse'; tool_name: string; tool_input: Record<string, unknown> })
+  | (BaseHookInput & {
+      hook_event_name: 'PostToolUse';
+      tool_name: string;
+      tool_input: Record<string, unknown>;
+      tool_response: unknown;
+    })
+  | (BaseHookInput & { hook_event_name: 'UserPromptSubmit'; prompt: string })
+  | (BaseHookInput & { hook_event_name: 'Stop'; stop_hook_active: boolean })
+  | (BaseHookInput & { hook_event_name: 'Notification'; message: string; title?: string });
+
+/**
+ * Result of a hook callback (aligned with official SDK). Return `{}` to let
+ * the agent carry on unchanged.
+ */
+export interface HookJSONOutput {
+  /**
+   * Set to false to stop the agent after this hook.
+   */
+  continue?: boolean;
+
+  /**
+   * Shown to the user when `continue` is false.
+   */
+  stopReason?: string;
+
+  /**
+   * Hide the hook's output from the transcript.
+   */
+  suppressOutput?: boolean;
+
+  /**
+   * 'block' rejects the tool call (PostToolUse: reports `reason` to Claude),
+   * the prompt (UserPromptSubmit) or stopping (Stop: Claude continues with
+   * `reason` as its instruction).
+   */
+  decision?: 'approve' | 'block';
+
+  /**
+   * Explanation for `decision`, shown to Claude.
+   */
+  reason?: string;
+
+  /**
+   * Warning shown to the user.
+   */
+  systemMessage?: string;
+
+  /**
+   * Event-specific output.
+   */
+  hookSpecificOutput?:
+    | {
+        hookEventName: 'PreToolUse';
+        permissionDecision?: 'allow' | 'deny' | 'ask';
+        permissionDecisionReason?: string;
+        /** Input to run the tool with instead of the requested input */
+        updatedInput?: Record<string, unknown>;
+      }
+    | {
+        hookEventName: 'PostToolUse' | 'UserPromptSubmit';
+        /** Context added to the conversation for Claude */
+        additionalContext?: string;
+      };
+}
+
+/**
+ * Host callback for an agent hook (aligned with official SDK)
+ */
+export type HookCallback = (
+  input: HookInput,
+  toolUseId: string | undefined,
+  options: { signal: AbortSignal }
+) => Promise<HookJSONOutput>;
+
+/**
+ * Hook callbacks for tools matching `matcher`
+ */
+export interface HookCallbackMatcher {
+  /**
+   * Tool name pattern (a regular expression, matched by the CLI) for
+   * PreToolUse and PostToolUse. Omit to match every tool.
+   */
+  matcher?: string;
+  hooks: HookCallback[];
+}
+
 /**
  * MCP server configuration (aligned with official SDK Record format)
  */
@@ -236,10 +375,21 @@ export interface McpServerConfig {
   args?: string[];
 
   /**
-   * URL for SSE transport.
+   * URL for SSE or Streamable HTTP transport.
    */
   url?: string;
 
+  /**
+   * Transport used for `url` servers.
+   * @default 'sse'
+   */
+  type?: 'sse' | 'http';
+
+  /**
+   * HTTP headers sent to `url` servers, e.g. `Authorization`.
+   */
+  headers?: Record<string, string>;
+
   /**
    * Environment variables for the server process.
    */
@@ -263,20 +413,43 @@ export interface Options {
 
   /**
    * System prompt to guide Claude's behavior.
+   * Replaces the CLI's default system prompt.
    */
   systemPrompt?: string;
 
+  /**
+   * Text appended to the system prompt, keeping the CLI's default prompt.
+   */
+  appendSystemPrompt?: string;
+
   /**
    * Maximum number of agentic turns (tool use cycles).
    * @default 10
    */
   maxTurns?: number;
 
+  /**
+   * Emit 'stream_event' messages carrying the API's content-block deltas
+   * as Claude generates them, ahead of each complete assistant message.
+   * @default false
+   */
+  includePartialMessages?: boolean;
+
   /**
    * Custom tools that Claude can use.
    */
   tools?: import('../tools/types.js').ToolDefinition[];
 
+  /**
+   * How custom tools are offered to Claude.
+   * - 'mcp': served by an MCP bridge in the sandbox; calls are relayed to
+   *   the host and happen natively mid-turn as `mcp__host-tools__<name>`.
+   * - 'text': described in the system prompt; Claude prints JSON tool
+   *   requests which are answered in a follow-up turn.
+   * @default 'mcp'
+   */
+  toolMode?: 'mcp' | 'text';
+
   /**
    * Allowed tools for the session.
    * Use 'all' to allow all tools, or specify an array of tool names.
@@ -302,28 +475,148 @@ export interface Options {
    *   'sse-server': {
    *     url: 'http://localhost:3000/sse',
    *   },
+   *   'http-server': {
+   *     type: 'http',
+   *     url: 'https://my-app.vercel.app/api/mcp',
+   *     headers: { Authorization: `Bearer ${process.env.MCP_TOKEN}` },
+   *   },
    * }
    * ```
    */
   mcpServers?: Record<string, McpServerConfig>;
 
+  /**
+   * Logger for SDK diagnostics, including raw CLI output at 'debug'.
+   * Entries carry sessionId and sandboxId fields where known.
+   * @default silent
+   */
+  logger?: import('../logger.js').Logger;
+
+  /**
+   * Tracer receiving spans for sandbox creation, CLI install, setup steps,
+   * hooks, CLI runs, tool calls and snapshots. Accepts an OpenTelemetry
+   * tracer; nothing is traced when omitted.
+   */
+  tracer?: import('../tracing.js').Tracer;
+
+  /**
+   * Retry transient failures: network and HTTP 429/5xx errors while
+   * creating the sandbox or installing the CLI, and CLI runs failing on
+   * Anthropic overload or rate-limit errors. Runs that already delivered
+   * messages are never retried.
+   * @default no retries
+   */
+  retry?: import('../transport/retry.js').RetryPolicy;
+
+  /**
+   * How CLI messages that don't match the SDK's schemas are handled:
+   * 'lenient' fills in defaults and delivers unknown types as 'unknown'
+   * messages; 'strict' fails the run with a ParseError.
+   * @default 'lenient'
+   */
+  messageValidation?: import('./schemas.js').MessageValidationMode;
+
+  /**
+   * Called for each CLI message that doesn't match the SDK's schemas, in
+   * either mode, to detect CLI protocol changes.
+   */
+  onSchemaDrift?: (drift: import('./schemas.js').SchemaDrift) => void;
+
+  /**
+   * Longest CLI output line accepted, in characters. Longer lines are
+   * skipped with a warning and the run continues.
+   * @default 10 MiB
+   */
+  maxLineLength?: number;
+
+  /**
+   * Characters of recent CLI stdout and stderr kept (per stream) for error
+   * messages and debug logs. Set to 0 to keep none.
+   * @default 65536
+   */
+  diagnosticBufferSize?: number;
+
   /**
    * Permission mode for tool execution.
+   * Any mode other than 'bypassPermissions' is passed to the CLI as
+   * --permission-mode instead of --dangerously-skip-permissions.
    *
-   * Note: In sandbox environments, this is effectively 'bypassPermissions'
-   * since sandboxes run with --dangerously-skip-permissions.
-   * A warning will be logged if a different mode is specified.
-   *
-   * @default 'bypassPermissions' (in sandbox)
+   * @default 'default' when canUseTool is set, otherwise 'bypassPermissions'
    */
   permissionMode?: PermissionMode;
 
   /**
-   * Timeout in milliseconds for the entire operation.
+   * Called on the host whenever the CLI needs permission to use a tool.
+   * Prompts are routed through a permission-prompt MCP tool served by the
+   * host tool bridge. Only query() supports it; VercelClaudeClient rejects
+   * it with a ValidationError.
+   *
+   * @example
+   * ```typescript
+   * canUseTool: async (toolName, input) => {
+   *   if (toolName === 'Bash' && /rm -rf/.test(String(input.command))) {
+   *     return { behavior: 'deny', message: 'Destructive commands are not allowed' };
+   *   }
+   *   return { behavior: 'allow' };
+   * }
+   * ```
+   */
+  canUseTool?: CanUseTool;
+
+  /**
+   * MCP tool the CLI calls for permission prompts (`mcp__<server>__<tool>`).
+   * Set automatically when canUseTool is used.
+   */
+  permissionPromptToolName?: string;
+
+  /**
+   * Agent hooks run on the host. They are registered with the CLI as
+   * command hooks that relay each event through the host tool bridge, so
+   * they can inspect, change or block individual tool calls and prompts.
+   * These are separate from the sandbox lifecycle hooks passed to query().
+   *
+   * @example
+   * ```typescript
+   * hooks: {
+   *   PreToolUse: [{
+   *     matcher: 'Bash',
+   *     hooks: [async (input) => {
+   *       audit.record(input);
+   *       return {};
+   *     }],
+   *   }],
+   * }
+   * ```
+   */
+  hooks?: Partial<Record<HookEvent, HookCallbackMatcher[]>>;
+
+  /**
+   * CLI settings passed with --settings: a JSON string, or the path of a
+   * JSON file in the sandbox. When hooks are used, their relay hooks are
+   * added after any hooks these settings already define.
+   */
+  settings?: string;
+
+  /**
+   * Timeout in milliseconds for the entire operation. Also the sandbox
+   * lifetime; a CLI run still going when it expires is killed and fails
+   * with a SandboxTimeoutError (phase 'total').
    * @default 300000 (5 minutes)
    */
   timeout?: number;
 
+  /**
+   * Maximum duration of a single turn, from the prompt or a streamed input
+   * message to its result. Fails with a SandboxTimeoutError (phase 'turn').
+   */
+  turnTimeoutMs?: number;
+
+  /**
+   * Kill the CLI when it produces no output for this long during a turn.
+   * Fails with a SandboxTimeoutError (phase 'idle').
+   */
+  idleTimeoutMs?: number;
+
   /**
    * Working directory for file operations within the sandbox.
    * @default '/home/user/project'
@@ -348,10 +641,31 @@ export interface Options {
   abortController?: AbortController;
 
   /**
-   * Maximum budget in USD for the query.
-   * The session will stop if this budget is exceeded.
+   * Maximum budget in USD for the query, summed over every CLI run and
+   * checked as each assistant message reports its token usage. Once
+   * reached, the running CLI is killed and no further tool rounds or turns
+   * start; the query then ends with an 'error_max_budget_usd' result.
    */
   maxBudgetUsd?: number;
+
+  /**
+   * Per-model token rates, in USD per million tokens, overriding the
+   * built-in table. Used to price runs whose result reports no cost, and
+   * by estimateCost(). Keys may be model IDs or a family ('opus').
+   */
+  pricing?: import('../pricing.js').PricingTable;
+
+  /**
+   * CLI session ID to resume (passed as --resume).
+   * The session must exist in the sandbox's ~/.claude directory.
+   */
+  resume?: string;
+
+  /**
+   * Continue the most recent CLI session in the sandbox (passed as --continue).
+   * Ignored when `resume` is set.
+   */
+  continue?: boolean;
 }
 
 
@@ -380,6 +694,32 @@ export interface ClientOptions extends Options {
    * GitHub repository to clone into the sandbox.
    */
   githubRepo?: GitHubRepoConfig;
+
+  /**
+   * Sandbox provider to run the CLI on.
+   * @default 'vercel'
+   */
+  provider?: import('../providers/index.js').SandboxProviderSpec;
+
+  /**
+   * Check a warm sandbox out of this pool on connect() and return it on
+   * disconnect().
+   */
+  pool?: import('../sandbox/pool.js').SandboxPool;
+
+  /**
+   * Exact Claude CLI version to run, e.g. '1.0.98'.
+   * @default latest
+   */
+  cliVersion?: string;
+
+  /**
+   * Continue conversations with the CLI's native session resume (--resume)
+   * instead of replaying the history in the prompt. History replay is still
+   * used when no CLI session is available.
+   * @default true
+   */
+  nativeResume?: boolean;
 }
 
 export interface VFSFile {
@@ -452,5 +792,76 @@ export interface SandboxTransportOptions {
    * @default 300000
    */
   timeout?: number;
+
+  /**
+   * Sandbox provider used to create the sandbox.
+   * @default 'vercel'
+   */
+  provider?: import('../providers/index.js').SandboxProviderSpec;
+
+  /**
+   * Record CLI sessions to a cassette file, or replay one instead of
+   * creating a sandbox.
+   */
+  cassette?: import('../transport/cassette.js').CassetteOptions;
+
+  /**
+   * Check a warm sandbox out of this pool instead of creating one.
+   * It is checked back in on close().
+   */
+  pool?: import('../sandbox/pool.js').SandboxPool;
+
+  /**
+   * Exact Claude CLI version to run, e.g. '1.0.98'. Fresh sandboxes install
+   * it; restored or pooled sandboxes keep a matching install and are
+   * reinstalled otherwise.
+   * @default latest
+   */
+  cliVersion?: string;
+  /**
+   * Logger for sandbox and CLI diagnostics.
+   * @default silent
+   */
+  logger?: import('../logger.js').Logger;
+
+  /**
+   * Tracer for sandbox creation, CLI install and CLI run spans.
+   */
+  tracer?: import('../tracing.js').Tracer;
+
+  /**
+   * Retry policy for transient sandbox creation, CLI install and API
+   * overload failures.
+   * @default no retries
+   */
+  retry?: import('../transport/retry.js').RetryPolicy;
+
+  /**
+   * How CLI messages that don't match the SDK's schemas are handled:
+   * 'lenient' fills in defaults and delivers unknown types as 'unknown'
+   * messages; 'strict' fails the run with a ParseError.
+   * @default 'lenient'
+   */
+  messageValidation?: import('./schemas.js').MessageValidationMode;
+
+  /**
+   * Called for each CLI message that doesn't match the SDK's schemas, in
+   * either mode, to detect CLI protocol changes.
+   */
+  onSchemaDrift?: (drift: import('./schemas.js').SchemaDrift) => void;
+
+  /**
+   * Longest CLI output line accepted, in characters. Longer lines are
+   * skipped with a warning and the run continues.
+   * @default 10 MiB
+   */
+  maxLineLength?: number;
+
+  /**
+   * Characters of recent CLI stdout and stderr kept (per stream) for error
+   * messages and debug logs. Set to 0 to keep none.
+   * @default 65536
+   */
+  diagnosticBufferSize?: number;
 }
 
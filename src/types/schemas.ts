@@ -0,0 +1,202 @@
+/**
+ * SDK Message Schemas
+ *
+ * Runtime Zod schemas for each SDKMessage variant, used to validate CLI
+ * output and detect protocol drift. Schemas only require the fields the
+ * SDK relies on and let unknown fields through, so additive CLI changes
+ * are not reported as drift.
+ */
+
+import { z } from 'zod';
+
+/**
+ * How the transport treats CLI messages that don't match their schema.
+ * - 'lenient': fill in defaults and deliver them; unknown types are
+ *   delivered as 'unknown' messages
+ * - 'strict': fail the run with a ParseError
+ */
+export type MessageValidationMode = 'strict' | 'lenient';
+
+/**
+ * A CLI message that did not match the SDK's schemas.
+ */
+export interface SchemaDrift {
+  /** 'unknown_type' for message types the SDK doesn't know */
+  kind: 'unknown_type' | 'invalid';
+  /** The message's `type` field */
+  type: string;
+  /** Schema issues, by dotted path */
+  issues: Array<{ path: string; message: string }>;
+  /** The message as received from the CLI */
+  message: Record<string, unknown>;
+}
+
+const baseShape = {
+  uuid: z.string(),
+  session_id: z.string(),
+  parent_tool_use_id: z.string().nullable(),
+};
+
+const KNOWN_BLOCK_TYPES = ['text', 'tool_use', 'tool_result'];
+
+const textBlockSchema = z.object({ type: z.literal('text'), text: z.string() }).passthrough();
+
+const toolUseBlockSchema = z
+  .object({
+    type: z.literal('tool_use'),
+    id: z.string(),
+    name: z.string(),
+    input: z.record(z.string(), z.unknown()),
+  })
+  .passthrough();
+
+const toolResultBlockSchema = z
+  .object({
+    type: z.literal('tool_result'),
+    tool_use_id: z.string(),
+    content: z.union([z.string(), z.array(z.unknown())]).optional(),
+    is_error: z.boolean().optional(),
+  })
+  .passthrough();
+
+// Other block types (thinking, images, ...) are passed through unchecked
+const otherBlockSchema = z
+  .object({ type: z.string().refine((type) => !KNOWN_BLOCK_TYPES.includes(type)) })
+  .passthrough();
+
+export const contentBlockSchema = z.union([textBlockSchema, toolUseBlockSchema, toolResultBlockSchema, otherBlockSchema]);
+
+export const systemMessageSchema = z
+  .object({
+    ...baseShape,
+    type: z.literal('system'),
+    subtype: z.string(),
+    tools: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+export const userMessageSchema = z
+  .object({
+    ...baseShape,
+    type: z.literal('user'),
+    message: z
+      .object({
+        role: z.literal('user'),
+        content: z.union([z.string(), z.array(contentBlockSchema)]),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export const assistantMessageSchema = z
+  .object({
+    ...baseShape,
+    type: z.literal('assistant'),
+    message: z
+      .object({
+        role: z.literal('assistant'),
+        content: z.array(contentBlockSchema),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+export const resultMessageSchema = z
+  .object({
+    ...baseShape,
+    type: z.literal('result'),
+    subtype: z.string(),
+    result: z.string().optional(),
+    is_error: z.boolean().optional(),
+    num_turns: z.number().optional(),
+    duration_ms: z.number().optional(),
+    total_cost_usd: z.number().optional(),
+  })
+  .passthrough();
+
+export const toolUseMessageSchema = z
+  .object({
+    ...baseShape,
+    type: z.literal('tool_use'),
+    tool_use_id: z.string(),
+    name: z.string(),
+    input: z.record(z.string(), z.unknown()),
+  })
+  .passthrough();
+
+export const toolResultMessageSchema = z
+  .object({
+    ...baseShape,
+    type: z.literal('tool_result'),
+    tool_use_id: z.string(),
+    content: z.union([z.string(), z.array(z.unknown())]),
+    is_error: z.boolean(),
+  })
+  .passthrough();
+
+export const progressMessageSchema = z
+  .object({
+    ...baseShape,
+    type: z.literal('progress'),
+    message: z.string(),
+    percent: z.number().optional(),
+  })
+  .passthrough();
+
+export const errorMessageSchema = z
+  .object({
+    ...baseShape,
+    type: z.literal('error'),
+    error: z.object({ code: z.string(), message: z.string() }).passthrough(),
+  })
+  .passthrough();
+
+export const streamEventMessageSchema = z
+  .object({
+    ...baseShape,
+    type: z.literal('stream_event'),
+    event: z.object({ type: z.string() }).passthrough(),
+  })
+  .passthrough();
+
+/**
+ * Schema for each known SDKMessage type.
+ */
+export const messageSchemas: Readonly<Record<string, z.ZodTypeAny>> = {
+  system: systemMessageSchema,
+  user: userMessageSchema,
+  assistant: assistantMessageSchema,
+  result: resultMessageSchema,
+  tool_use: toolUseMessageSchema,
+  tool_result: toolResultMessageSchema,
+  progress: progressMessageSchema,
+  error: errorMessageSchema,
+  stream_event: streamEventMessageSchema,
+};
+
+/**
+ * Whether the SDK has a schema for a message type.
+ */
+export function isKnownMessageType(type: string): boolean {
+  return Object.prototype.hasOwnProperty.call(messageSchemas, type);
+}
+
+/**
+ * Check a message against the schema for its type. Returns the issues
+ * found, or an empty array when it matches.
+ */
+export function validateMessage(message: { type: string }): SchemaDrift['issues'] {
+  const schema = messageSchemas[message.type];
+  if (!schema) {
+    return [{ path: 'type', message: `Unknown message type: ${message.type}` }];
+  }
+
+  const parsed = schema.safeParse(message);
+  if (parsed.success) {
+    return [];
+  }
+  return parsed.error.issues.map((issue) => ({
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+}
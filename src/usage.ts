@@ -0,0 +1,180 @@
+/**
+ * Usage Accounting
+ *
+ * Normalizes the usage reported by CLI result and assistant messages into
+ * UsageInfo and sums it across the runs of a query.
+ */
+
+import { AssistantMessage, ModelUsage, ResultMessage, UsageInfo, extractCostUsd } from './types/messages.js';
+import { PricingTable, computeCost } from './pricing.js';
+
+/** Model key used when the CLI does not say which model it ran */
+const UNKNOWN_MODEL = 'unknown';
+
+/**
+ * Usage with every total at zero.
+ */
+export function emptyUsage(): UsageInfo {
+  return {
+    modelUsage: {},
+    total_input_tokens: 0,
+    total_output_tokens: 0,
+    total_cache_creation_input_tokens: 0,
+    total_cache_read_input_tokens: 0,
+    total_cost_usd: 0,
+  };
+}
+
+/**
+ * Sum two usage records, model by model.
+ */
+export function addUsage(a: UsageInfo, b: UsageInfo): UsageInfo {
+  const modelUsage: Record<string, ModelUsage> = { ...a.modelUsage };
+  for (const [model, usage] of Object.entries(b.modelUsage)) {
+    const existing = modelUsage[model];
+    modelUsage[model] = existing
+      ? {
+          model,
+          input_tokens: existing.input_tokens + usage.input_tokens,
+          output_tokens: existing.output_tokens + usage.output_tokens,
+          cache_creation_input_tokens:
+            (existing.cache_creation_input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0),
+          cache_read_input_tokens: (existing.cache_read_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0),
+          cost_usd: (existing.cost_usd ?? 0) + (usage.cost_usd ?? 0),
+        }
+      : { ...usage };
+  }
+
+  return {
+    modelUsage,
+    total_input_tokens: a.total_input_tokens + b.total_input_tokens,
+    total_output_tokens: a.total_output_tokens + b.total_output_tokens,
+    total_cache_creation_input_tokens:
+      (a.total_cache_creation_input_tokens ?? 0) + (b.total_cache_creation_input_tokens ?? 0),
+    total_cache_read_input_tokens: (a.total_cache_read_input_tokens ?? 0) + (b.total_cache_read_input_tokens ?? 0),
+    total_cost_usd: a.total_cost_usd + b.total_cost_usd,
+  };
+}
+
+/**
+ * Read the usage of a result message. Accepts the SDK's structured usage,
+ * the CLI's per-model `modelUsage`, or its plain API `usage` (attributed to
+ * `model`). When the CLI reports no cost, the tokens are priced with
+ * `pricing` over the built-in rates.
+ */
+export function usageFromResult(message: ResultMessage, model?: string, pricing?: PricingTable): UsageInfo {
+  const raw = message as unknown as Record<string, unknown>;
+  const usage = record(raw['usage']);
+
+  if (usage && record(usage['modelUsage'])) {
+    // Already structured by the SDK; keep its totals
+    const structured = usage as unknown as UsageInfo;
+    return {
+      ...emptyUsage(),
+      ...structured,
+      modelUsage: { ...structured.modelUsage },
+      total_cost_usd: extractCostUsd(message) ?? computeCost(structured, pricing),
+    };
+  }
+
+  let modelUsage: Record<string, ModelUsage>;
+  if (record(raw['modelUsage'])) {
+    modelUsage = {};
+    for (const [name, entry] of Object.entries(raw['modelUsage'] as Record<string, unknown>)) {
+      modelUsage[name] = modelUsageFromCli(name, record(entry) ?? {});
+    }
+  } else if (usage) {
+    const name = model ?? UNKNOWN_MODEL;
+    modelUsage = { [name]: modelUsageFromApi(name, usage) };
+  } else if (message.tokens_in !== undefined || message.tokens_out !== undefined) {
+    const name = model ?? UNKNOWN_MODEL;
+    modelUsage = {
+      [name]: { model: name, input_tokens: message.tokens_in ?? 0, output_tokens: message.tokens_out ?? 0 },
+    };
+  } else {
+    modelUsage = {};
+  }
+
+  return totalUsage(modelUsage, extractCostUsd(message) ?? computeCost({ modelUsage }, pricing));
+}
+
+/**
+ * Read the API usage an assistant message reports while a run is still
+ * going, priced with `pricing` over the built-in rates. The CLI repeats one
+ * API response's usage on every message it splits the response into, so the
+ * usage is returned with the response's ID to count it once. Returns null
+ * when the message reports no usage.
+ */
+export function usageFromAssistant(
+  message: AssistantMessage,
+  model?: string,
+  pricing?: PricingTable
+): { id: string; usage: UsageInfo } | null {
+  const response = message.message as unknown as Record<string, unknown>;
+  const usage = record(response['usage']);
+  if (!usage) {
+    return null;
+  }
+
+  const name = typeof response['model'] === 'string' ? response['model'] : (model ?? UNKNOWN_MODEL);
+  const modelUsage = { [name]: modelUsageFromApi(name, usage) };
+  return {
+    id: typeof response['id'] === 'string' ? response['id'] : message.uuid,
+    usage: totalUsage(modelUsage, computeCost({ modelUsage }, pricing)),
+  };
+}
+
+/**
+ * Usage totals for a per-model breakdown.
+ */
+function totalUsage(modelUsage: Record<string, ModelUsage>, costUsd: number): UsageInfo {
+  const entries = Object.values(modelUsage);
+  const sum = (pick: (entry: ModelUsage) => number | undefined) =>
+    entries.reduce((total, entry) => total + (pick(entry) ?? 0), 0);
+
+  return {
+    modelUsage,
+    total_input_tokens: sum((entry) => entry.input_tokens),
+    total_output_tokens: sum((entry) => entry.output_tokens),
+    total_cache_creation_input_tokens: sum((entry) => entry.cache_creation_input_tokens),
+    total_cache_read_input_tokens: sum((entry) => entry.cache_read_input_tokens),
+    total_cost_usd: costUsd,
+  };
+}
+
+/**
+ * Per-model entry from the CLI's camelCase `modelUsage`.
+ */
+function modelUsageFromCli(model: string, entry: Record<string, unknown>): ModelUsage {
+  return {
+    model,
+    input_tokens: number(entry['inputTokens']),
+    output_tokens: number(entry['outputTokens']),
+    cache_creation_input_tokens: number(entry['cacheCreationInputTokens']),
+    cache_read_input_tokens: number(entry['cacheReadInputTokens']),
+    cost_usd: typeof entry['costUSD'] === 'number' ? entry['costUSD'] : undefined,
+  };
+}
+
+/**
+ * Per-model entry from Anthropic API `usage`.
+ */
+function modelUsageFromApi(model: string, usage: Record<string, unknown>): ModelUsage {
+  return {
+    model,
+    input_tokens: number(usage['input_tokens']),
+    output_tokens: number(usage['output_tokens']),
+    cache_creation_input_tokens: number(usage['cache_creation_input_tokens']),
+    cache_read_input_tokens: number(usage['cache_read_input_tokens']),
+  };
+}
+
+function record(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function number(value: unknown): number {
+  return typeof value === 'number' ? value : 0;
+}
@@ -0,0 +1,367 @@
+/**
+ * Tests for the host tool bridge (MCP server in the sandbox, handlers on the host)
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { query } from '../src/query-generator.js';
+import { LocalSandboxProvider } from '../src/providers/local-provider.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { ToolBridge } from '../src/tools/bridge.js';
+import { tool, textResult } from '../src/tools/tool.js';
+import { add, assistant, result, toolRequest } from './fixtures.js';
+
+describe('ToolBridge', () => {
+  let baseDirectory: string;
+
+  beforeEach(async () => {
+    baseDirectory = await mkdtemp(join(tmpdir(), 'tool-bridge-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(baseDirectory, { recursive: true, force: true });
+  });
+
+  it('should answer MCP tool calls from the sandbox with host handlers', async () => {
+    const provider = new LocalSandboxProvider({ baseDirectory });
+    const sandbox = await provider.create();
+    const bridge = new ToolBridge(sandbox, [add], { directory: join(baseDirectory, 'bridge'), pollIntervalMs: 20 });
+
+    const server = await bridge.install();
+    bridge.start();
+
+    const command = await sandbox.runDetached({ cmd: server.command, args: server.args, stdin: true });
+    const requests = [
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18' } },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'add', arguments: { a: 2, b: 3 } } },
+    ];
+    await command.writeStdin!(requests.map((r) => JSON.stringify(r) + '\n').join(''));
+
+    const responses = new Map<number, Record<string, any>>();
+    let buffer = '';
+    for await (const log of command.logs()) {
+      if (log.stream !== 'stdout') continue;
+      buffer += log.data;
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        const response = JSON.parse(line);
+        responses.set(response.id, response);
+      }
+      if (responses.size === 3) break;
+    }
+    await command.closeStdin!();
+    await command.wait();
+    await bridge.stop();
+
+    expect(responses.get(1)!.result.protocolVersion).toBe('2025-06-18');
+    expect(responses.get(2)!.result.tools[0].name).toBe('add');
+    expect(responses.get(3)!.result).toEqual({ content: [{ type: 'text', text: '5' }] });
+  });
+
+  it('should relay CLI hook events to host callbacks', async () => {
+    const provider = new LocalSandboxProvider({ baseDirectory });
+    const sandbox = await provider.create();
+    const bridge = new ToolBridge(sandbox, [], {
+      directory: join(baseDirectory, 'bridge'),
+      pollIntervalMs: 20,
+      hooks: {
+        PreToolUse: [
+          {
+            matcher: 'Bash',
+            hooks: [
+              async (input) => ({
+                hookSpecificOutput: {
+                  hookEventName: 'PreToolUse',
+                  permissionDecision: 'deny',
+                  permissionDecisionReason: `No ${input.hook_event_name === 'PreToolUse' ? input.tool_name : ''}`,
+                },
+              }),
+            ],
+          },
+        ],
+      },
+    });
+
+    await bridge.install();
+    bridge.start();
+
+    const settings = bridge.hookSettings()!;
+    const [group] = settings.hooks['PreToolUse'] as Array<{ matcher: string; hooks: Array<{ command: string }> }>;
+    expect(group!.matcher).toBe('Bash');
+
+    const command = await sandbox.runDetached({ cmd: 'bash', args: ['-c', group!.hooks[0]!.command], stdin: true });
+    await command.writeStdin!(
+      JSON.stringify({ hook_event_name: 'PreToolUse', tool_name: 'Bash', tool_input: { command: 'ls' } })
+    );
+    await command.closeStdin!();
+    let stdout = '';
+    for await (const log of command.logs()) {
+      if (log.stream === 'stdout') stdout += log.data;
+    }
+    const result = await command.wait();
+    await bridge.stop();
+
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({
+      hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'deny', permissionDecisionReason: 'No Bash' },
+    });
+  });
+});
+
+describe('ToolBridge failures', () => {
+  it('should answer with an error when handling a request fails', async () => {
+    const request = { id: 'call-1', name: 'add', arguments: { a: 1, b: 2 } };
+    const provider = new FakeSandboxProvider({
+      scripts: [{ match: /requests\/\*\.json/, stdout: [`${JSON.stringify(request)}\n`] }],
+    });
+    const sandbox = await provider.create();
+    const failingTracer = {
+      startSpan: () => {
+        throw new Error('tracer unavailable');
+      },
+    };
+    const bridge = new ToolBridge(sandbox, [add], { directory: '/tmp/bridge', tracer: failingTracer });
+
+    expect(await bridge.poll()).toBe(1);
+    await bridge.stop();
+
+    const response = provider.fileWrites.find((write) => write.path === '/tmp/bridge/responses/call-1.json');
+    expect(JSON.parse(String(response!.content))).toEqual({
+      content: [{ type: 'text', text: 'add failed: tracer unavailable' }],
+      isError: true,
+    });
+  });
+
+  it('should not listen for requests without tools or hooks', async () => {
+    const provider = new FakeSandboxProvider();
+    const bridge = new ToolBridge(await provider.create(), [], { directory: '/tmp/bridge' });
+
+    bridge.start();
+    await bridge.stop();
+
+    expect(provider.commands).toHaveLength(0);
+  });
+});
+
+describe('query() with bridged tools', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should register tools as an MCP server and answer calls mid-turn', async () => {
+    const request = JSON.stringify({ id: '42-1-1', name: 'add', arguments: { a: 2, b: 3 } });
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        { match: /request-watcher/, stdout: [`${request}\n`] },
+        fakeClaudeRun(
+          [
+            assistant('The answer is 5'),
+            result('The answer is 5'),
+          ],
+          { delayMs: 50 }
+        ),
+      ],
+    });
+
+    const q = query({
+      prompt: 'What is 2 + 3?',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { tools: [add], allowedTools: ['Read'] },
+    });
+    expect(await q.text()).toBe('The answer is 5');
+
+    const [run] = provider.claudeRuns();
+    const mcpConfig = JSON.parse(run!.args[run!.args.indexOf('--mcp-config') + 1]!);
+    expect(mcpConfig.mcpServers['host-tools']).toEqual(expect.objectContaining({ type: 'stdio', command: 'node' }));
+    expect(run!.args).toContain('Read,mcp__host-tools__add');
+    expect(run!.args).not.toContain('--system-prompt');
+
+    const response = provider.fileWrites.find((write) => write.path.endsWith('/responses/42-1-1.json'));
+    expect(JSON.parse(response!.content)).toEqual({ content: [{ type: 'text', text: '5' }] });
+
+    // Requests arrive over the watcher's stdout, without polling
+    expect(provider.commands.filter((command) => command.args.join(' ').includes('request-watcher'))).toHaveLength(1);
+    expect(provider.commands.some((command) => command.args.join(' ').includes('requests/*.json'))).toBe(false);
+  });
+});
+
+describe('query() permissions', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const done = fakeClaudeRun([result('done')], { delayMs: 50 });
+
+  it('should route permission prompts to canUseTool', async () => {
+    const prompt = JSON.stringify({
+      id: '42-1-2',
+      name: 'permission_prompt',
+      arguments: { tool_name: 'Bash', input: { command: 'rm -rf /' }, tool_use_id: 'toolu_1' },
+    });
+    const provider = new FakeSandboxProvider({
+      scripts: [{ match: /request-watcher/, stdout: [`${prompt}\n`] }, done],
+    });
+    const canUseTool = jest.fn(async (toolName: string, input: Record<string, unknown>) =>
+      toolName === 'Bash' && String(input['command']).startsWith('rm')
+        ? { behavior: 'deny' as const, message: 'Destructive commands are not allowed' }
+        : { behavior: 'allow' as const }
+    );
+
+    const q = query({ prompt: 'Clean up', provider, apiKey: 'test-key', snapshotEnabled: false, options: { canUseTool } });
+    await q.collect();
+
+    const [run] = provider.claudeRuns();
+    expect(run!.args).not.toContain('--dangerously-skip-permissions');
+    expect(run!.args).toEqual(expect.arrayContaining(['--permission-mode', 'default']));
+    expect(run!.args).toEqual(
+      expect.arrayContaining(['--permission-prompt-tool', 'mcp__host-tools__permission_prompt'])
+    );
+
+    expect(canUseTool).toHaveBeenCalledWith('Bash', { command: 'rm -rf /' }, expect.anything());
+    const response = provider.fileWrites.find((write) => write.path.endsWith('/responses/42-1-2.json'));
+    expect(JSON.parse(JSON.parse(response!.content).content[0].text)).toEqual({
+      behavior: 'deny',
+      message: 'Destructive commands are not allowed',
+    });
+  });
+
+  it('should register agent hooks with the CLI and answer them on the host', async () => {
+    const event = JSON.stringify({
+      id: 'hook-42-1',
+      kind: 'hook',
+      name: 'PostToolUse',
+      arguments: {
+        index: 0,
+        input: { hook_event_name: 'PostToolUse', tool_name: 'Read', tool_input: {}, tool_response: 'secret' },
+      },
+    });
+    const provider = new FakeSandboxProvider({
+      scripts: [{ match: /request-watcher/, stdout: [`${event}\n`] }, done],
+    });
+    const audit = jest.fn(async () => ({
+      hookSpecificOutput: { hookEventName: 'PostToolUse' as const, additionalContext: 'Audited' },
+    }));
+
+    const q = query({
+      prompt: 'Read it',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { hooks: { PostToolUse: [{ hooks: [audit] }] } },
+    });
+    await q.collect();
+
+    const [run] = provider.claudeRuns();
+    const settings = JSON.parse(run!.args[run!.args.indexOf('--settings') + 1]!);
+    expect(settings.hooks.PostToolUse[0].hooks[0]).toEqual(
+      expect.objectContaining({ type: 'command', command: expect.stringContaining('hook-relay.cjs') })
+    );
+    expect(run!.args).not.toContain('--mcp-config');
+
+    expect(audit).toHaveBeenCalledWith(
+      expect.objectContaining({ tool_name: 'Read', tool_response: 'secret' }),
+      undefined,
+      expect.anything()
+    );
+    const response = provider.fileWrites.find((write) => write.path.endsWith('/responses/hook-42-1.json'));
+    expect(JSON.parse(response!.content)).toEqual({
+      output: { hookSpecificOutput: { hookEventName: 'PostToolUse', additionalContext: 'Audited' } },
+    });
+  });
+
+  it('should add agent hooks to the user settings', async () => {
+    const lint = { matcher: 'Write', hooks: [{ type: 'command', command: 'npm run lint' }] };
+    const userSettings = JSON.stringify({ model: 'opus', hooks: { PostToolUse: [lint] } });
+    const audit = jest.fn(async () => ({}));
+    const settingsOf = async (settings: string, files: Record<string, string> = {}) => {
+      const provider = new FakeSandboxProvider({ scripts: [done], files });
+      await query({
+        prompt: 'Write it',
+        provider,
+        apiKey: 'test-key',
+        snapshotEnabled: false,
+        options: { settings, hooks: { PostToolUse: [{ hooks: [audit] }], Stop: [{ hooks: [audit] }] } },
+      }).collect();
+      const [run] = provider.claudeRuns();
+      return JSON.parse(run!.args[run!.args.indexOf('--settings') + 1]!);
+    };
+
+    for (const merged of [
+      await settingsOf(userSettings),
+      await settingsOf('.claude/settings.json', { '.claude/settings.json': userSettings }),
+    ]) {
+      expect(merged.model).toBe('opus');
+      expect(merged.hooks.PostToolUse).toHaveLength(2);
+      expect(merged.hooks.PostToolUse[0]).toEqual(lint);
+      expect(merged.hooks.PostToolUse[1].hooks[0].command).toContain('hook-relay.cjs');
+      expect(merged.hooks.Stop).toHaveLength(1);
+    }
+  });
+
+  it('should pass the permission mode to the CLI', async () => {
+    const provider = new FakeSandboxProvider({ scripts: [done] });
+
+    const q = query({
+      prompt: 'Plan it',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { permissionMode: 'plan' },
+    });
+    await q.collect();
+
+    const [run] = provider.claudeRuns();
+    expect(run!.args).toEqual(expect.arrayContaining(['--permission-mode', 'plan']));
+    expect(run!.args).not.toContain('--permission-prompt-tool');
+  });
+
+  it('should apply permission mode and model changes to later runs', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([toolRequest, result('')]),
+        fakeClaudeRun([result('5')]),
+      ],
+    });
+    const q = query({
+      prompt: 'Plan, then add',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: {
+        permissionMode: 'plan',
+        toolMode: 'text',
+        tools: [
+          tool('add', 'Add numbers', { a: z.number(), b: z.number() }, async ({ a, b }) => {
+            await q.setPermissionMode('acceptEdits');
+            await q.setModel('claude-3-5-haiku-20241022');
+            return textResult(String(a + b));
+          }),
+        ],
+      },
+    });
+    await q.collect();
+
+    const [first, second] = provider.claudeRuns();
+    expect(first!.args).toEqual(expect.arrayContaining(['--permission-mode', 'plan']));
+    expect(first!.args).not.toContain('--model');
+    expect(second!.args).toEqual(expect.arrayContaining(['--permission-mode', 'acceptEdits']));
+    expect(second!.args).toEqual(expect.arrayContaining(['--model', 'claude-3-5-haiku-20241022']));
+  });
+});
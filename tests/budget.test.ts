@@ -0,0 +1,145 @@
+/**
+ * Tests for host-side maxBudgetUsd enforcement
+ */
+
+import { query } from '../src/query-generator.js';
+import { textResult } from '../src/tools/tool.js';
+import { FakeSandboxProvider, fakeClaudeRun, isClaudeRun } from '../src/testing/fake-provider.js';
+import { createUserMessage, type ResultMessage } from '../src/types/messages.js';
+import { add, assistant, result, toolRequest } from './fixtures.js';
+
+const costed = (text: string, costUsd: number) => result(text, { total_cost_usd: costUsd });
+
+// An assistant message as streamed by the CLI, with its API response's usage
+const streamed = (id: string, text: string, outputTokens: number) =>
+  assistant(text, { id, model: 'claude-sonnet-4-20250514', usage: { input_tokens: 0, output_tokens: outputTokens } });
+
+describe('maxBudgetUsd', () => {
+  it('should not start another tool round once the budget is spent', async () => {
+    const handler = jest.fn(async () => textResult('5'));
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([toolRequest, costed('', 0.6)]), fakeClaudeRun([assistant('5'), costed('5', 0.1)])],
+    });
+
+    const q = query({
+      prompt: 'What is 2 + 3?',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { tools: [{ ...add, handler }], toolMode: 'text', maxBudgetUsd: 0.5 },
+    });
+    const messages = await q.collect();
+
+    expect(provider.claudeRuns()).toHaveLength(1);
+    expect(handler).not.toHaveBeenCalled();
+    const results = messages.filter((m): m is ResultMessage => m.type === 'result');
+    expect(results.at(-1)).toMatchObject({ subtype: 'error_max_budget_usd', total_cost_usd: 0.6 });
+  });
+
+  it('should sum the cost of every run in the query', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([toolRequest, costed('', 0.3)]),
+        fakeClaudeRun([toolRequest, costed('', 0.3)]),
+        fakeClaudeRun([assistant('5'), costed('5', 0.3)]),
+      ],
+    });
+
+    const q = query({
+      prompt: 'What is 2 + 3?',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { tools: [add], toolMode: 'text', maxBudgetUsd: 0.5 },
+    });
+    const messages = await q.collect();
+
+    expect(provider.claudeRuns()).toHaveLength(2);
+    expect(messages.at(-2)).toMatchObject({ type: 'result', subtype: 'error_max_budget_usd', total_cost_usd: 0.6 });
+  });
+
+  it('should kill a run whose streamed usage crosses the budget', async () => {
+    // 50k Sonnet output tokens cost $0.75
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([
+          streamed('msg_1', 'one', 50_000),
+          streamed('msg_2', 'two', 50_000),
+          streamed('msg_3', 'three', 50_000),
+          costed('three', 2.25),
+        ]),
+      ],
+    });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { maxBudgetUsd: 1 },
+    });
+    const messages = await q.collect();
+
+    expect(messages.filter((m) => m.type === 'assistant')).toHaveLength(2);
+    const results = messages.filter((m): m is ResultMessage => m.type === 'result');
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ subtype: 'error_max_budget_usd', aggregate: true });
+    expect(results[0]!.total_cost_usd).toBeCloseTo(1.5);
+  });
+
+  it('should count the usage of one API response once', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([streamed('msg_1', 'one', 50_000), streamed('msg_1', 'two', 50_000), costed('two', 0.75)]),
+      ],
+    });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { maxBudgetUsd: 1 },
+    });
+    const messages = await q.collect();
+
+    const results = messages.filter((m): m is ResultMessage => m.type === 'result');
+    expect(results.map((m) => m.subtype)).toEqual(['success']);
+    expect(q.usage.total_cost_usd).toBeCloseTo(0.75);
+  });
+
+  it('should end a streaming session once a turn crosses the budget', async () => {
+    // The CLI reports the running total of its process
+    let totalUsd = 0;
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        {
+          match: isClaudeRun,
+          onInput: () => {
+            totalUsd += 0.3;
+            return [assistant('ok'), costed('ok', totalUsd)];
+          },
+        },
+      ],
+    });
+
+    async function* conversation() {
+      yield createUserMessage('first');
+      yield createUserMessage('second');
+      yield createUserMessage('third');
+    }
+
+    const q = query({
+      prompt: conversation(),
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { maxBudgetUsd: 0.5 },
+    });
+    const messages = await q.collect();
+
+    const results = messages.filter((m): m is ResultMessage => m.type === 'result');
+    expect(results.map((m) => m.subtype)).toEqual(['success', 'success', 'error_max_budget_usd']);
+    expect(results.at(-1)!.total_cost_usd).toBeCloseTo(0.6);
+  });
+});
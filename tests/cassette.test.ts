@@ -0,0 +1,134 @@
+/**
+ * Tests for recording and replaying CLI sessions
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { query } from '../src/query-generator.js';
+import { tool, textResult } from '../src/tools/tool.js';
+import { loadCassette } from '../src/transport/cassette.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { CLIExecutionError, SandboxError, SandboxTimeoutError } from '../src/types/errors.js';
+import { assistant, result } from './fixtures.js';
+
+describe('cassettes', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    directory = await mkdtemp(join(tmpdir(), 'cassette-test-'));
+    path = join(directory, 'session.json');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should record the raw stream, exit code and timing', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([assistant('Hi')], { stdout: ['debug line\n'], stderr: 'warn' })],
+    });
+
+    await query({ prompt: 'Hello', provider, apiKey: 'test-key', snapshotEnabled: false, cassette: { mode: 'record', path } }).collect();
+
+    const cassette = await loadCassette(path);
+    expect(cassette.sessions).toHaveLength(1);
+
+    const [session] = cassette.sessions;
+    expect(session!.args[session!.args.length - 1]).toBe('Hello');
+    expect(session!.exitCode).toBe(0);
+    expect(session!.durationMs).toBeGreaterThanOrEqual(0);
+    expect(session!.events.map((e) => e.stream)).toEqual(['stdout', 'stdout', 'stderr']);
+    expect(session!.events[0]!.data).toBe('debug line\n');
+  });
+
+  it('should replay a recording through the tool loop without a sandbox', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([assistant('```json\n{"tool": "missing", "input": {}}\n```'), result('')]),
+        fakeClaudeRun([assistant('Recovered'), result('Recovered')]),
+      ],
+    });
+    const missing = tool('missing', 'Missing tool', { x: z.string().optional() }, async () => textResult('ok'));
+
+    const recorded = await query({
+      prompt: 'Go',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { tools: [missing] },
+      cassette: { mode: 'record', path },
+    }).text();
+
+    const replayed = query({ prompt: 'Go', options: { tools: [missing] }, cassette: { mode: 'replay', path } });
+    expect(await replayed.text()).toBe(recorded);
+    expect(replayed.snapshotId).toBeNull();
+  });
+
+  it('should replay non-zero exit codes', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([], { exitCode: 1, stderr: 'boom' })],
+    });
+    await expect(
+      query({ prompt: 'Fail', provider, apiKey: 'test-key', cassette: { mode: 'record', path } }).collect()
+    ).rejects.toThrow(CLIExecutionError);
+
+    await expect(query({ prompt: 'Fail', cassette: { mode: 'replay', path } }).collect()).rejects.toThrow(
+      CLIExecutionError
+    );
+  });
+
+  it('should record and replay a run that timed out', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([assistant('a'), assistant('b'), assistant('c'), assistant('d'), result('done')], { delayMs: 30 })],
+    });
+    const recorded = query({
+      prompt: 'Slow',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { idleTimeoutMs: 1000, turnTimeoutMs: 80 },
+      cassette: { mode: 'record', path },
+    });
+    const seen: string[] = [];
+    await expect(
+      (async () => {
+        for await (const message of recorded) {
+          if (message.type === 'assistant') {
+            seen.push(JSON.stringify(message.message.content));
+          }
+        }
+      })()
+    ).rejects.toThrow(SandboxTimeoutError);
+
+    const [session] = (await loadCassette(path)).sessions;
+    expect(session!.exitCode).toBeNull();
+    expect(session!.terminated).toEqual({ reason: 'timeout', timeoutMs: 80, phase: 'turn' });
+    expect(session!.events.length).toBeGreaterThan(0);
+
+    const replayed = query({ prompt: 'Slow', cassette: { mode: 'replay', path } });
+    const replayedSeen: string[] = [];
+    const error = await (async () => {
+      for await (const message of replayed) {
+        if (message.type === 'assistant') {
+          replayedSeen.push(JSON.stringify(message.message.content));
+        }
+      }
+    })().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SandboxTimeoutError);
+    expect((error as SandboxTimeoutError).phase).toBe('turn');
+    expect(seen.length).toBeGreaterThan(0);
+    expect(replayedSeen).toEqual(seen);
+  });
+
+  it('should fail when the cassette is exhausted', async () => {
+    await writeFile(path, JSON.stringify({ version: 1, createdAt: new Date().toISOString(), sessions: [] }));
+
+    await expect(query({ prompt: 'Hi', cassette: { mode: 'replay', path } }).collect()).rejects.toThrow(SandboxError);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for Claude CLI version pinning and detection
+ */
+
+import { query } from '../src/query-generator.js';
+import { FakeSandboxProvider, fakeClaudeRun, type RecordedCommand } from '../src/testing/fake-provider.js';
+import { parseCliVersion } from '../src/transport/cli-install.js';
+import { CLIInstallError, ValidationError } from '../src/types/errors.js';
+import { result } from './fixtures.js';
+
+const isVersionCheck = (command: RecordedCommand) => command.cmd === 'claude' && command.args.includes('--version');
+const isInstall = (command: RecordedCommand) => command.cmd === 'npm' && command.args[0] === 'install';
+
+const done = () => fakeClaudeRun([result('ok')]);
+
+function snapshotProvider(options: ConstructorParameters<typeof FakeSandboxProvider>[0] = {}): FakeSandboxProvider {
+  const provider = new FakeSandboxProvider(options);
+  provider.snapshots.set('snap_cli', new Map());
+  return provider;
+}
+
+describe('parseCliVersion()', () => {
+  it('should extract the version from claude --version output', () => {
+    expect(parseCliVersion('1.0.98 (Claude Code)\n')).toBe('1.0.98');
+    expect(parseCliVersion('2.0.0-beta.1 (Claude Code)')).toBe('2.0.0-beta.1');
+    expect(parseCliVersion('command not found')).toBeNull();
+  });
+});
+
+describe('query() with cliVersion', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep a matching install from the snapshot and check it once', async () => {
+    const provider = snapshotProvider({ cliVersion: '1.0.98 (Claude Code)', scripts: [done()] });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotId: 'snap_cli',
+      snapshotEnabled: false,
+      cliVersion: '1.0.98',
+    });
+    await q.collect();
+
+    expect(q.cliVersion).toBe('1.0.98');
+    expect(provider.commands.filter(isInstall)).toHaveLength(0);
+    expect(provider.commands.filter(isVersionCheck)).toHaveLength(1);
+  });
+
+  it('should reinstall when the snapshot has a different version', async () => {
+    const provider = snapshotProvider({
+      scripts: [
+        { match: isVersionCheck, stdout: ['1.0.50 (Claude Code)\n'] },
+        { match: isVersionCheck, stdout: ['1.0.98 (Claude Code)\n'] },
+        done(),
+      ],
+    });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotId: 'snap_cli',
+      snapshotEnabled: false,
+      cliVersion: '1.0.98',
+    });
+    await q.collect();
+
+    const [install] = provider.commands.filter(isInstall);
+    expect(install!.args).toEqual(['install', '-g', '@anthropic-ai/claude-code@1.0.98']);
+    expect(q.cliVersion).toBe('1.0.98');
+  });
+
+  it('should fail when the installed version does not match the pin', async () => {
+    const provider = new FakeSandboxProvider({ cliVersion: '1.0.50 (Claude Code)' });
+
+    const q = query({ prompt: 'Hi', provider, apiKey: 'test-key', cliVersion: '1.0.98' });
+
+    await expect(q.collect()).rejects.toThrow(CLIInstallError);
+    expect(provider.claudeRuns()).toHaveLength(0);
+  });
+
+  it('should reject version ranges', async () => {
+    const provider = new FakeSandboxProvider();
+
+    const q = query({ prompt: 'Hi', provider, apiKey: 'test-key', cliVersion: '^1.0.0' });
+
+    await expect(q.collect()).rejects.toThrow(ValidationError);
+    expect(provider.instances).toHaveLength(0);
+  });
+});
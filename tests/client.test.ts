@@ -0,0 +1,130 @@
+/**
+ * Tests for VercelClaudeClient multi-turn conversations
+ */
+
+import { VercelClaudeClient } from '../src/client.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { ValidationError } from '../src/types/errors.js';
+import { assistant, init, result } from './fixtures.js';
+
+const CLI_SESSION = '8f14e45f-ceea-4e7a-a1c2-5b0f3d6a9e21';
+
+const session = { session_id: CLI_SESSION };
+
+describe('VercelClaudeClient', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const lastArg = (args: string[]) => args[args.length - 1];
+
+  it('should resume the CLI session on follow-up turns', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([init(CLI_SESSION), assistant('Hi Alice'), result('Hi Alice', session)]),
+        fakeClaudeRun([init(CLI_SESSION), assistant('Your name is Alice'), result('Your name is Alice', session)]),
+      ],
+    });
+    const client = new VercelClaudeClient({ provider, env: { ANTHROPIC_API_KEY: 'test-key' } });
+
+    expect(await client.chat('My name is Alice.')).toBe('Hi Alice');
+    expect(await client.chat('What is my name?')).toBe('Your name is Alice');
+
+    const [first, second] = provider.claudeRuns();
+    expect(first!.args).not.toContain('--resume');
+    expect(second!.args).toEqual(expect.arrayContaining(['--resume', CLI_SESSION]));
+    expect(lastArg(second!.args)).toBe('What is my name?');
+    expect(client.getSessionInfo()?.cliSessionId).toBe(CLI_SESSION);
+
+    await client.disconnect();
+  });
+
+  it('should replay history when resuming fails', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([init(CLI_SESSION), assistant('Hi Alice'), result('Hi Alice', session)]),
+        fakeClaudeRun([], { exitCode: 1, stderr: `No conversation found with session ID: ${CLI_SESSION}` }),
+        fakeClaudeRun([assistant('Your name is Alice'), result('Your name is Alice', { session_id: 'new-session' })]),
+      ],
+    });
+    const client = new VercelClaudeClient({ provider, env: { ANTHROPIC_API_KEY: 'test-key' } });
+
+    await client.chat('My name is Alice.');
+    expect(await client.chat('What is my name?')).toBe('Your name is Alice');
+
+    const runs = provider.claudeRuns();
+    expect(runs).toHaveLength(3);
+    expect(runs[2]!.args).not.toContain('--resume');
+    expect(lastArg(runs[2]!.args)).toContain('Human: My name is Alice.');
+    expect(client.getSessionInfo()?.cliSessionId).toBe('new-session');
+
+    await client.disconnect();
+  });
+
+  it('should replay history when native resume is disabled', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([init(CLI_SESSION), assistant('Hi Alice'), result('Hi Alice', session)]),
+        fakeClaudeRun([assistant('Alice'), result('Alice', session)]),
+      ],
+    });
+    const client = new VercelClaudeClient({
+      provider,
+      nativeResume: false,
+      env: { ANTHROPIC_API_KEY: 'test-key' },
+    });
+
+    await client.chat('My name is Alice.');
+    await client.chat('What is my name?');
+
+    const second = provider.claudeRuns()[1]!;
+    expect(second.args).not.toContain('--resume');
+    expect(lastArg(second.args)).toContain('Assistant: Hi Alice');
+
+    await client.disconnect();
+  });
+
+  it('should start a fresh CLI session after clearHistory()', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([init(CLI_SESSION), result('one', session)]), fakeClaudeRun([result('two', session)])],
+    });
+    const client = new VercelClaudeClient({ provider, env: { ANTHROPIC_API_KEY: 'test-key' } });
+
+    await client.chat('One');
+    client.clearHistory();
+    await client.chat('Two');
+
+    const second = provider.claudeRuns()[1]!;
+    expect(second.args).not.toContain('--resume');
+    expect(lastArg(second.args)).toBe('Two');
+
+    await client.disconnect();
+  });
+
+  it('should reject agent hooks, which need query()', async () => {
+    const provider = new FakeSandboxProvider({ scripts: [] });
+    const hooks = { Stop: [{ hooks: [async () => ({})] }] };
+
+    expect(() => new VercelClaudeClient({ provider, hooks })).toThrow(ValidationError);
+
+    const client = new VercelClaudeClient({ provider, env: { ANTHROPIC_API_KEY: 'test-key' } });
+    await expect(client.chat('Hi', { hooks })).rejects.toThrow(ValidationError);
+    expect(provider.claudeRuns()).toHaveLength(0);
+  });
+
+  it('should reject canUseTool rather than skip the permission checks', async () => {
+    const provider = new FakeSandboxProvider({ scripts: [] });
+    const canUseTool = async () => ({ behavior: 'deny' as const, message: 'No' });
+
+    expect(() => new VercelClaudeClient({ provider, canUseTool })).toThrow(ValidationError);
+
+    const client = new VercelClaudeClient({ provider, env: { ANTHROPIC_API_KEY: 'test-key' } });
+    await expect(client.chatStream('Hi', { canUseTool }).next()).rejects.toThrow(ValidationError);
+    expect(provider.claudeRuns()).toHaveLength(0);
+  });
+});
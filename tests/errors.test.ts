@@ -71,6 +71,13 @@ describe('SandboxTimeoutError', () => {
     expect(error.message).toContain('30000ms');
     expect(error.name).toBe('SandboxTimeoutError');
   });
+
+  it('should name the phase that timed out', () => {
+    const error = new SandboxTimeoutError(30000, undefined, 'idle');
+
+    expect(error.phase).toBe('idle');
+    expect(error.message).toContain('idle timeout');
+  });
 });
 
 describe('CLIInstallError', () => {
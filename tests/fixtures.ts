@@ -0,0 +1,38 @@
+/**
+ * CLI message and tool fixtures shared by the tests
+ */
+
+import { z } from 'zod';
+import { tool, textResult } from '../src/tools/tool.js';
+
+/**
+ * An assistant message with one text block, as printed by the CLI.
+ * `fields` adds API response fields such as `id`, `model` or `usage`.
+ */
+export const assistant = (text: string, fields: Record<string, unknown> = {}) => ({
+  type: 'assistant',
+  message: { role: 'assistant', content: [{ type: 'text', text }], ...fields },
+});
+
+/**
+ * A successful result message. `fields` adds cost, usage or session fields.
+ */
+export const result = (text: string, fields: Record<string, unknown> = {}) => ({
+  type: 'result',
+  subtype: 'success',
+  result: text,
+  ...fields,
+});
+
+/**
+ * The CLI's init message, reporting its own session ID.
+ */
+export const init = (sessionId: string) => ({ type: 'system', subtype: 'init', session_id: sessionId });
+
+/** Host tool that adds two numbers */
+export const add = tool('add', 'Add numbers', { a: z.number(), b: z.number() }, async ({ a, b }) =>
+  textResult(String(a + b))
+);
+
+/** Text-mode request for the add tool */
+export const toolRequest = assistant('```json\n{"tool": "add", "input": {"a": 2, "b": 3}}\n```');
@@ -0,0 +1,150 @@
+/**
+ * Tests for the local child-process sandbox provider
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LocalSandboxInstance, LocalSandboxProvider } from '../src/providers/local-provider.js';
+import type { SandboxInstance } from '../src/providers/types.js';
+import { SandboxError } from '../src/types/errors.js';
+
+describe('LocalSandboxProvider', () => {
+  let baseDirectory: string;
+  let provider: LocalSandboxProvider;
+  let instance: SandboxInstance;
+
+  beforeEach(async () => {
+    baseDirectory = await mkdtemp(join(tmpdir(), 'local-provider-test-'));
+    provider = new LocalSandboxProvider({
+      baseDirectory,
+      snapshotDirectory: join(baseDirectory, 'snapshots'),
+    });
+    instance = await provider.create();
+  });
+
+  afterEach(async () => {
+    await rm(baseDirectory, { recursive: true, force: true });
+  });
+
+  it('should create a workspace directory', () => {
+    expect(instance.sandboxId).toMatch(/^local_/);
+    expect(instance.workingDirectory.startsWith(baseDirectory)).toBe(true);
+    expect(existsSync(instance.workingDirectory)).toBe(true);
+  });
+
+  it('should run commands in the workspace', async () => {
+    const result = await instance.runCommand('node', ['-e', 'process.stdout.write(process.cwd())']);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toBe(instance.workingDirectory);
+  });
+
+  it('should pass environment variables and report exit codes', async () => {
+    const result = await instance.runCommand(
+      'node',
+      ['-e', 'console.error(process.env.GREETING); process.exit(3)'],
+      { env: { GREETING: 'hello' } }
+    );
+
+    expect(result.exitCode).toBe(3);
+    expect(result.stderr.trim()).toBe('hello');
+  });
+
+  it('should report a missing executable as exit code 127', async () => {
+    const result = await instance.runCommand('definitely-not-a-real-binary-xyz');
+
+    expect(result.exitCode).toBe(127);
+    expect(result.stderr).toContain('ENOENT');
+  });
+
+  it('should stream detached command output', async () => {
+    const command = await instance.runDetached({
+      cmd: 'node',
+      args: ['-e', 'console.log(JSON.stringify({type: "system"})); console.error("warn")'],
+    });
+
+    const logs: Array<{ stream: string; data: string }> = [];
+    for await (const log of command.logs()) {
+      logs.push(log);
+    }
+
+    expect((await command.wait()).exitCode).toBe(0);
+    expect(logs.filter((l) => l.stream === 'stdout').map((l) => l.data).join('')).toBe('{"type":"system"}\n');
+    expect(logs.filter((l) => l.stream === 'stderr').map((l) => l.data).join('')).toBe('warn\n');
+  });
+
+  it('should kill detached commands', async () => {
+    const command = await instance.runDetached({
+      cmd: 'node',
+      args: ['-e', 'setTimeout(() => {}, 60000)'],
+    });
+
+    await command.kill('SIGTERM');
+    const { exitCode } = await command.wait();
+
+    expect(exitCode).toBe(143);
+  });
+
+  it('should pipe stdin to detached commands', async () => {
+    const command = await instance.runDetached({
+      cmd: 'node',
+      args: ['-e', 'process.stdin.pipe(process.stdout)'],
+      stdin: true,
+    });
+
+    await command.writeStdin!('{"type":"user"}\n');
+    await command.closeStdin!();
+
+    let stdout = '';
+    for await (const log of command.logs()) {
+      stdout += log.data;
+    }
+
+    expect((await command.wait()).exitCode).toBe(0);
+    expect(stdout).toBe('{"type":"user"}\n');
+  });
+
+  it('should map /vercel/sandbox paths into the workspace', async () => {
+    await instance.writeFiles([{ path: '/vercel/sandbox/src/index.ts', content: 'export {};' }]);
+
+    expect(existsSync(join(instance.workingDirectory, 'src/index.ts'))).toBe(true);
+    expect((await instance.readFile('src/index.ts'))?.toString()).toBe('export {};');
+
+    const result = await instance.runCommand('node', ['-e', 'process.stdout.write(process.argv[1])', '/vercel/sandbox/src']);
+    expect(result.stdout).toBe(join(instance.workingDirectory, 'src'));
+  });
+
+  it('should return null for missing files', async () => {
+    expect(await instance.readFile('missing.txt')).toBeNull();
+  });
+
+  it('should snapshot and restore a workspace and its CLI config', async () => {
+    await instance.writeFiles([{ path: 'state.json', content: '{"step":1}' }]);
+    const transcript = 'projects/-vercel-sandbox/session-1.jsonl';
+    await instance.runCommand('node', [
+      '-e',
+      `const fs = require('fs'), path = require('path');
+       const file = path.join(process.env.CLAUDE_CONFIG_DIR, '${transcript}');
+       fs.mkdirSync(path.dirname(file), { recursive: true });
+       fs.writeFileSync(file, '{}');`,
+    ]);
+
+    const snapshot = await instance.snapshot();
+    expect(existsSync(instance.workingDirectory)).toBe(false);
+
+    const restored = (await provider.restore(snapshot.snapshotId)) as LocalSandboxInstance;
+    expect((await restored.readFile('state.json'))?.toString()).toBe('{"step":1}');
+    expect(existsSync(join(restored.configDirectory, transcript))).toBe(true);
+    expect(existsSync(join(restored.workingDirectory, 'config'))).toBe(false);
+    await restored.stop();
+
+    await provider.deleteSnapshot(snapshot.snapshotId);
+    await expect(provider.restore(snapshot.snapshotId)).rejects.toThrow(SandboxError);
+  });
+
+  it('should skip CLI installation', () => {
+    expect(provider.managesCli).toBe(true);
+  });
+});
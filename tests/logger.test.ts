@@ -0,0 +1,90 @@
+/**
+ * Tests for the injectable logger
+ */
+
+import { query } from '../src/query-generator.js';
+import { createConsoleLogger, withLogFields, type LogFields, type Logger, type LogLevel } from '../src/logger.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { assistant, result } from './fixtures.js';
+
+interface LogEntry {
+  level: LogLevel;
+  message: string;
+  fields?: LogFields;
+}
+
+function recordingLogger(): Logger & { entries: LogEntry[] } {
+  const entries: LogEntry[] = [];
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    entries.push({ level, message, fields });
+  };
+  return { entries, debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+const run = () =>
+  fakeClaudeRun(
+    [
+      assistant('Hi'),
+      result('Hi'),
+    ],
+    { stdout: ['Loading configuration...\n'], stderr: ['warning: slow network\n'] }
+  );
+
+describe('logger option', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should print nothing by default', async () => {
+    const spies = (['log', 'info', 'debug', 'warn', 'error'] as const).map((method) =>
+      jest.spyOn(console, method).mockImplementation(() => {})
+    );
+    const provider = new FakeSandboxProvider({ scripts: [run()] });
+
+    await query({ prompt: 'Hi', provider, apiKey: 'test-key', snapshotEnabled: false }).collect();
+
+    for (const spy of spies) {
+      expect(spy).not.toHaveBeenCalled();
+    }
+  });
+
+  it('should send CLI output to an injected logger at debug with session and sandbox fields', async () => {
+    const logger = recordingLogger();
+    const provider = new FakeSandboxProvider({ scripts: [run()] });
+
+    const q = query({ prompt: 'Hi', provider, apiKey: 'test-key', snapshotEnabled: false, options: { logger } });
+    await q.collect();
+
+    const stdout = logger.entries.find((entry) => entry.message === 'CLI stdout');
+    expect(stdout).toEqual({
+      level: 'debug',
+      message: 'CLI stdout',
+      fields: expect.objectContaining({
+        line: 'Loading configuration...',
+        sandboxId: q.sandboxId,
+        sessionId: expect.any(String),
+      }),
+    });
+    expect(logger.entries).toContainEqual(
+      expect.objectContaining({ level: 'debug', message: 'CLI stderr' })
+    );
+  });
+});
+
+describe('createConsoleLogger()', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should filter by level and merge bound fields', () => {
+    const debug = jest.spyOn(console, 'debug').mockImplementation(() => {});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const logger = withLogFields(createConsoleLogger({ level: 'info' }), { sandboxId: 'sbx_1', sessionId: undefined });
+
+    logger.debug('hidden');
+    logger.warn('shown', { attempt: 2 });
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('[claude-agent-sdk] shown', { sandboxId: 'sbx_1', attempt: 2 });
+  });
+});
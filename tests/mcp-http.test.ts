@@ -0,0 +1,120 @@
+/**
+ * Tests for serving SDK MCP servers over HTTP
+ */
+
+import { createServer, type Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createSdkMcpServer } from '../src/tools/mcp-server.js';
+import { add } from './fixtures.js';
+
+const TOKEN = 'test-token';
+
+const mcpServer = createSdkMcpServer({ name: 'math', tools: [add] });
+
+describe('createHttpHandler()', () => {
+  it('should reject requests without the bearer token', async () => {
+    const handler = mcpServer.createHttpHandler({ bearerToken: TOKEN });
+
+    const response = await handler(
+      new Request('http://localhost/api/mcp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      })
+    );
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+  });
+
+  const openSse = (handler: ReturnType<typeof mcpServer.createHttpHandler>) =>
+    handler(new Request('http://localhost/mcp/sse', { headers: { Authorization: `Bearer ${TOKEN}` } }));
+
+  it('should refuse SSE streams beyond maxSseSessions until one closes', async () => {
+    const handler = mcpServer.createHttpHandler({ bearerToken: TOKEN, maxSseSessions: 1 });
+
+    const first = await openSse(handler);
+    expect(first.status).toBe(200);
+    expect((await openSse(handler)).status).toBe(503);
+
+    await first.body!.cancel();
+    const next = await openSse(handler);
+    expect(next.status).toBe(200);
+    await next.body!.cancel();
+  });
+
+  it('should close SSE streams that stay idle', async () => {
+    const handler = mcpServer.createHttpHandler({ bearerToken: TOKEN, sseIdleTimeoutMs: 20 });
+
+    const response = await openSse(handler);
+    const body = await response.text();
+    const endpoint = /data: (\S+)/.exec(body)![1]!;
+
+    const late = await handler(
+      new Request(`http://localhost${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}` },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      })
+    );
+    expect(late.status).toBe(404);
+  });
+
+  describe('with a Node http server', () => {
+    let httpServer: HttpServer;
+    let baseUrl: string;
+    const clients: Client[] = [];
+
+    beforeAll(async () => {
+      const handler = mcpServer.createHttpHandler({ bearerToken: TOKEN });
+      httpServer = createServer((req, res) => {
+        void handler(req, res);
+      });
+      await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+    });
+
+    afterAll(async () => {
+      await Promise.all(clients.map((client) => client.close()));
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    });
+
+    const requestInit = { headers: { Authorization: `Bearer ${TOKEN}` } };
+
+    async function connect(transport: StreamableHTTPClientTransport | SSEClientTransport): Promise<Client> {
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(transport);
+      clients.push(client);
+      return client;
+    }
+
+    it('should serve tools over Streamable HTTP', async () => {
+      const client = await connect(new StreamableHTTPClientTransport(new URL(baseUrl), { requestInit }));
+
+      const { tools } = await client.listTools();
+      expect(tools.map((t) => t.name)).toEqual(['add']);
+
+      const result = await client.callTool({ name: 'add', arguments: { a: 2, b: 3 } });
+      expect(result.content).toEqual([{ type: 'text', text: '5' }]);
+    });
+
+    it('should serve tools over legacy SSE', async () => {
+      const client = await connect(
+        new SSEClientTransport(new URL(`${baseUrl}/sse`), {
+          requestInit,
+          eventSourceInit: {
+            fetch: (url, init) =>
+              fetch(url, { ...init, headers: { ...init?.headers, Authorization: `Bearer ${TOKEN}` } }),
+          },
+        })
+      );
+
+      const result = await client.callTool({ name: 'add', arguments: { a: 4, b: 5 } });
+      expect(result.content).toEqual([{ type: 'text', text: '9' }]);
+    });
+  });
+});
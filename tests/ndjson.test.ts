@@ -0,0 +1,214 @@
+/**
+ * Tests for bounded NDJSON parsing and diagnostic output buffers
+ */
+
+import { query } from '../src/query-generator.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { NDJSONLineSplitter, parseNDJSONStream, readNDJSONLines, readNDJSONMessages } from '../src/transport/protocol.js';
+import { RingBuffer } from '../src/transport/ring-buffer.js';
+import { CLIExecutionError, ParseError } from '../src/types/errors.js';
+import { result } from './fixtures.js';
+
+async function* chunksOf(...chunks: string[]): AsyncGenerator<string> {
+  yield* chunks;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('NDJSONLineSplitter', () => {
+  it('should join lines split across chunks', () => {
+    const splitter = new NDJSONLineSplitter();
+
+    expect(splitter.push('{"a":')).toEqual([]);
+    expect(splitter.push('1}\n{"b":2}\n{"c"')).toEqual(['{"a":1}', '{"b":2}']);
+    expect(splitter.push(':3}')).toEqual([]);
+    expect(splitter.flush()).toBe('{"c":3}');
+  });
+
+  it('should replace an oversize line with a ParseError and keep going', () => {
+    const splitter = new NDJSONLineSplitter(10);
+
+    const lines = [
+      ...splitter.push('{"ok":1}\n{"big":"'),
+      ...splitter.push('x'.repeat(100)),
+      ...splitter.push('"}\n{"ok":2}\n'),
+    ];
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe('{"ok":1}');
+    expect(lines[1]).toBeInstanceOf(ParseError);
+    expect((lines[1] as ParseError).message).toContain('maximum length of 10');
+    expect((lines[1] as ParseError).line).toMatch(/^\{"big":"x+$/);
+    expect(lines[2]).toBe('{"ok":2}');
+  });
+
+  it('should reject an oversize line that arrives in one chunk', () => {
+    const splitter = new NDJSONLineSplitter(10);
+
+    const lines = splitter.push(`{"big":"${'x'.repeat(500)}"}\n{"ok":1}\n`);
+
+    expect(lines[0]).toBeInstanceOf(ParseError);
+    expect((lines[0] as ParseError).line!.length).toBeLessThanOrEqual(200);
+    expect(lines[1]).toBe('{"ok":1}');
+  });
+
+  it('should not return the tail of an oversize final line', () => {
+    const splitter = new NDJSONLineSplitter(10);
+
+    expect(splitter.push('x'.repeat(20))).toHaveLength(1);
+    expect(splitter.flush()).toBeNull();
+  });
+});
+
+describe('readNDJSONLines()', () => {
+  it('should decode byte chunks split inside a character', async () => {
+    const bytes = new TextEncoder().encode('{"text":"héllo"}\n\n');
+    const chunks = (async function* () {
+      yield bytes.slice(0, 11);
+      yield bytes.slice(11);
+    })();
+
+    expect(await collect(readNDJSONLines(chunks))).toEqual(['{"text":"héllo"}']);
+  });
+});
+
+describe('readNDJSONMessages()', () => {
+  it('should yield a ParseError with its reason in place of each unusable line', async () => {
+    const stream = chunksOf('{"type":"system"}\ndebug output\n{"no":"type"}\n', `{"big":"${'x'.repeat(50)}"}\n`);
+
+    const items = await collect(readNDJSONMessages(stream, { maxLineLength: 40 }));
+
+    expect(items[0]).toEqual({ type: 'system' });
+    expect(items.slice(1).map((item) => (item as ParseError).reason)).toEqual([
+      'invalid_json',
+      'invalid_message',
+      'line_too_long',
+    ]);
+  });
+});
+
+describe('parseNDJSONStream()', () => {
+  it('should parse messages from a ReadableStream', async () => {
+    const bytes = new TextEncoder().encode('{"type":"system"}\n{"type":"result"}');
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes);
+        controller.close();
+      },
+    });
+
+    const messages = await collect(parseNDJSONStream(stream));
+
+    expect(messages.map((m) => m.type)).toEqual(['system', 'result']);
+  });
+
+  it('should report parse errors to onError without ending the stream', async () => {
+    const errors: ParseError[] = [];
+    const stream = chunksOf('{"type":"system"}\nnot json\n', `{"big":"${'x'.repeat(50)}"}\n`, '{"type":"result"}\n');
+
+    const messages = await collect(
+      parseNDJSONStream(stream, { maxLineLength: 40, onError: (error) => errors.push(error) })
+    );
+
+    expect(messages.map((m) => m.type)).toEqual(['system', 'result']);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]!.message).toContain('Failed to parse JSON');
+    expect(errors[1]!.message).toContain('maximum length');
+  });
+
+  it('should throw the first parse error without onError', async () => {
+    await expect(collect(parseNDJSONStream(chunksOf('{"type":"system"}\nnot json\n')))).rejects.toThrow(
+      ParseError
+    );
+  });
+});
+
+describe('RingBuffer', () => {
+  it('should keep only the most recent output', () => {
+    const buffer = new RingBuffer(8);
+
+    buffer.append('abc');
+    buffer.append('defg');
+    expect(buffer.toString()).toBe('abcdefg');
+    expect(buffer.truncated).toBe(false);
+
+    buffer.append('hijk');
+    expect(buffer.toString()).toBe('defghijk');
+    expect(buffer.truncated).toBe(true);
+
+    buffer.append('0123456789');
+    expect(buffer.toString()).toBe('23456789');
+  });
+
+  it('should keep nothing with a capacity of 0', () => {
+    const buffer = new RingBuffer(0);
+
+    buffer.append('output');
+
+    expect(buffer.toString()).toBe('');
+  });
+});
+
+describe('query() output limits', () => {
+  it('should skip oversize CLI lines and deliver the rest of the run', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([result('Done')], {
+          stdout: [`{"type":"assistant","message":{"role":"assistant","content":[{"type":"text","text":"${'x'.repeat(2000)}"}]}}\n`],
+        }),
+      ],
+    });
+
+    const messages = await query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { maxLineLength: 1000 },
+    }).collect();
+
+    expect(messages.some((m) => m.type === 'assistant')).toBe(false);
+    expect(messages.find((m) => m.type === 'result')).toMatchObject({ result: 'Done' });
+  });
+
+  it('should skip non-JSON CLI output even with strict validation', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([result('Done')], { stdout: ['debug: starting\n'] })],
+    });
+
+    const messages = await query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { messageValidation: 'strict' },
+    }).collect();
+
+    expect(messages.find((m) => m.type === 'result')).toMatchObject({ result: 'Done' });
+  });
+
+  it('should report only the diagnostic tail of stderr on failure', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([], { exitCode: 1, stderr: `${'noise '.repeat(1000)}fatal: out of credits` })],
+    });
+
+    const error = await query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { diagnosticBufferSize: 32 },
+    })
+      .collect()
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CLIExecutionError);
+    expect((error as CLIExecutionError).stderr).toHaveLength(32);
+    expect((error as CLIExecutionError).stderr).toContain('fatal: out of credits');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for structured output
+ */
+
+import { z } from 'zod';
+import { query } from '../src/query-generator.js';
+import { extractJson, parseOutput } from '../src/output.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { ValidationError } from '../src/types/errors.js';
+import { assistant, init, result } from './fixtures.js';
+
+const reply = (text: string) => fakeClaudeRun([assistant(text), result(text)]);
+
+// A reply from a CLI that reports its own session ID
+const sessionReply = (text: string) => fakeClaudeRun([init('cli-session'), assistant(text), result(text)]);
+
+const invoice = z.object({ number: z.string(), total: z.number() });
+
+describe('extractJson()', () => {
+  it('should prefer the last json code block', () => {
+    const text = 'Draft:\n```json\n{"a": 1}\n```\nFinal:\n```json\n{"a": 2}\n```';
+    expect(extractJson(text)).toEqual({ a: 2 });
+  });
+
+  it('should fall back to the outermost braces', () => {
+    expect(extractJson('Here it is: {"a": {"b": 1}} - done')).toEqual({ a: { b: 1 } });
+  });
+
+  it('should throw a ValidationError when there is no JSON', () => {
+    expect(() => extractJson('No idea')).toThrow(ValidationError);
+  });
+});
+
+describe('parseOutput()', () => {
+  it('should report schema issues by path', () => {
+    const error = (() => {
+      try {
+        parseOutput(invoice, '{"number": "A-1", "total": "12"}');
+      } catch (caught) {
+        return caught as ValidationError;
+      }
+      throw new Error('Expected a ValidationError');
+    })();
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toContain('total:');
+    expect(error.details?.['issues']).toEqual([{ path: 'total', message: expect.any(String) }]);
+  });
+});
+
+describe('query() outputSchema', () => {
+  it('should return the validated output', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [reply('```json\n{"number": "A-1", "total": 12.5}\n```')],
+    });
+
+    const q = query({ prompt: 'Read the invoice', provider, apiKey: 'test-key', snapshotEnabled: false, outputSchema: invoice });
+    const output = await q.output();
+
+    expect(output).toEqual({ number: 'A-1', total: 12.5 });
+    const args = provider.claudeRuns()[0]!.args;
+    expect(args[args.indexOf('--append-system-prompt') + 1]).toContain('"total"');
+    expect(args).not.toContain('--system-prompt');
+  });
+
+  it('should describe fields with defaults in the output format', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [reply('```json\n{"number": "A-1", "total": 4}\n```')],
+    });
+    const withCurrency = invoice.extend({ currency: z.string().default('EUR') });
+
+    const q = query({
+      prompt: 'Read the invoice',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { systemPrompt: 'You read invoices.', appendSystemPrompt: 'Be brief.' },
+      outputSchema: withCurrency,
+    });
+
+    expect(await q.output()).toEqual({ number: 'A-1', total: 4, currency: 'EUR' });
+    const args = provider.claudeRuns()[0]!.args;
+    expect(args[args.indexOf('--system-prompt') + 1]).toBe('You read invoices.');
+    const appended = args[args.indexOf('--append-system-prompt') + 1]!;
+    expect(appended.startsWith('Be brief.\n\n## Output Format')).toBe(true);
+    expect(appended).toContain('"default": "EUR"');
+  });
+
+  it('should resume the CLI session with only the validation errors', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [sessionReply('{"number": "A-1"}'), sessionReply('{"number": "A-1", "total": 3}')],
+    });
+
+    const q = query({ prompt: 'Read the invoice', provider, apiKey: 'test-key', snapshotEnabled: false, outputSchema: invoice });
+
+    expect(await q.output()).toEqual({ number: 'A-1', total: 3 });
+    expect(provider.claudeRuns()).toHaveLength(2);
+    const retryArgs = provider.claudeRuns()[1]!.args;
+    expect(retryArgs[retryArgs.indexOf('--resume') + 1]).toBe('cli-session');
+    const retryPrompt = retryArgs.at(-1)!;
+    expect(retryPrompt).toContain('total:');
+    expect(retryPrompt).not.toContain('Read the invoice');
+    expect(retryPrompt).not.toContain('{"number": "A-1"}');
+  });
+
+  it('should replay the conversation when there is no CLI session to resume', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [reply('{"number": "A-1"}'), reply('{"number": "A-1", "total": 3}')],
+    });
+
+    const q = query({ prompt: 'Read the invoice', provider, apiKey: 'test-key', snapshotEnabled: false, outputSchema: invoice });
+
+    expect(await q.output()).toEqual({ number: 'A-1', total: 3 });
+    const retryArgs = provider.claudeRuns()[1]!.args;
+    expect(retryArgs).not.toContain('--resume');
+    const retryPrompt = retryArgs.at(-1)!;
+    expect(retryPrompt).toContain('total:');
+    expect(retryPrompt).toContain('Read the invoice');
+  });
+
+  it('should reject with a ValidationError once retries are exhausted', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [reply('not json'), reply('still not json')],
+    });
+
+    const q = query({
+      prompt: 'Read the invoice',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      outputSchema: invoice,
+      outputRetries: 1,
+    });
+
+    await expect(q.output()).rejects.toThrow(ValidationError);
+    expect(provider.claudeRuns()).toHaveLength(2);
+  });
+
+  it('should reject output() without a schema', async () => {
+    const q = query({ prompt: 'Hi', provider: new FakeSandboxProvider(), apiKey: 'test-key', snapshotEnabled: false });
+
+    await expect(q.output()).rejects.toThrow(ValidationError);
+  });
+});
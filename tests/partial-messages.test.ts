@@ -0,0 +1,85 @@
+/**
+ * Tests for partial message streaming
+ */
+
+import { query } from '../src/query-generator.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { extractTextDelta, isStreamEvent } from '../src/types/messages.js';
+import { assistant, result } from './fixtures.js';
+
+const delta = (text: string) => ({
+  type: 'stream_event',
+  event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+});
+
+const streamedReply = [
+  { type: 'stream_event', event: { type: 'message_start', message: {} } },
+  delta('Hel'),
+  delta('lo'),
+  delta('!'),
+  assistant('Hello!'),
+  { type: 'stream_event', event: { type: 'message_stop' } },
+  result('Hello!'),
+];
+
+describe('partial messages', () => {
+  it('should pass --include-partial-messages and surface stream events', async () => {
+    const provider = new FakeSandboxProvider({ scripts: [fakeClaudeRun(streamedReply)] });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { includePartialMessages: true },
+    });
+    const messages = await q.collect();
+
+    expect(provider.claudeRuns()[0]!.args).toContain('--include-partial-messages');
+    const deltas = messages.filter(isStreamEvent).map(extractTextDelta);
+    expect(deltas).toEqual([undefined, 'Hel', 'lo', '!', undefined]);
+  });
+
+  it('should not request partial messages by default', async () => {
+    const provider = new FakeSandboxProvider({ scripts: [fakeClaudeRun([assistant('Hi'), result('Hi')])] });
+
+    await query({ prompt: 'Hi', provider, apiKey: 'test-key', snapshotEnabled: false }).collect();
+
+    expect(provider.claudeRuns()[0]!.args).not.toContain('--include-partial-messages');
+  });
+});
+
+describe('q.textStream()', () => {
+  it('should yield text deltas without repeating the complete message', async () => {
+    const provider = new FakeSandboxProvider({ scripts: [fakeClaudeRun(streamedReply)] });
+
+    const q = query({ prompt: 'Hi', provider, apiKey: 'test-key', snapshotEnabled: false });
+    const chunks: string[] = [];
+    for await (const chunk of q.textStream()) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Hel', 'lo', '!']);
+    expect(provider.claudeRuns()[0]!.args).toContain('--include-partial-messages');
+  });
+
+  it('should fall back to whole text blocks without partial messages', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([assistant('Hello'), assistant(' world'), result('Hello world')])],
+    });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { includePartialMessages: false },
+    });
+    const chunks: string[] = [];
+    for await (const chunk of q.textStream()) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Hello', ' world']);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for the warm sandbox pool
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { LocalSandboxInstance, LocalSandboxProvider } from '../src/providers/local-provider.js';
+import { query } from '../src/query-generator.js';
+import { SandboxPool } from '../src/sandbox/pool.js';
+import { FakeSandboxProvider, fakeClaudeRun, type RecordedCommand } from '../src/testing/fake-provider.js';
+import { SandboxTimeoutError, ValidationError } from '../src/types/errors.js';
+import { result } from './fixtures.js';
+
+const isVersionCheck = (command: RecordedCommand) => command.cmd === 'claude' && command.args.includes('--version');
+
+describe('SandboxPool', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should warm instances up to min and hand them out', async () => {
+    const provider = new FakeSandboxProvider();
+    const pool = new SandboxPool({ provider, snapshotId: 'snap_warm', min: 2 });
+    provider.snapshots.set('snap_warm', new Map());
+
+    await pool.start();
+    expect(pool.stats).toEqual({ idle: 2, busy: 0, creating: 0, checking: 0 });
+
+    const sandbox = await pool.acquire();
+    expect(provider.instances.slice(0, 2)).toContain(sandbox);
+    expect(pool.stats.busy).toBe(1);
+
+    await pool.release(sandbox);
+    expect(pool.stats).toEqual({ idle: 2, busy: 0, creating: 0, checking: 0 });
+    const resets = provider.commands.filter((c) => c.cmd === 'bash' && c.args[1]!.includes('-mindepth 1 -delete'));
+    expect(resets).toHaveLength(1);
+
+    await pool.close();
+    expect(provider.instances.every((instance) => instance.stopped)).toBe(true);
+  });
+
+  it('should replace instances that fail the health check', async () => {
+    const provider = new FakeSandboxProvider({ scripts: [{ match: isVersionCheck, exitCode: 1 }] });
+    provider.snapshots.set('snap_warm', new Map());
+    const pool = new SandboxPool({ provider, snapshotId: 'snap_warm', min: 1 });
+    await pool.start();
+    const [unhealthy] = provider.instances;
+
+    const sandbox = await pool.acquire();
+
+    expect(sandbox).not.toBe(unhealthy);
+    expect(unhealthy!.stopped).toBe(true);
+    await pool.close();
+  });
+
+  it('should wait for a release when at max', async () => {
+    const provider = new FakeSandboxProvider();
+    const pool = new SandboxPool({ provider, max: 1, acquireTimeoutMs: 50 });
+
+    const first = await pool.acquire();
+    await expect(pool.acquire()).rejects.toThrow(SandboxTimeoutError);
+
+    const waiting = pool.acquire();
+    await pool.release(first);
+    expect(await waiting).toBe(first);
+    await pool.close();
+  });
+
+  it('should evict idle instances above min', async () => {
+    const provider = new FakeSandboxProvider();
+    const pool = new SandboxPool({ provider, min: 1, idleTimeoutMs: 0 });
+
+    const [a, b] = await Promise.all([pool.acquire(), pool.acquire()]);
+    await pool.release(a!);
+    await pool.release(b!);
+    expect(pool.stats.idle).toBe(2);
+
+    await pool.evict();
+
+    expect(pool.stats.idle).toBe(1);
+    expect(provider.instances.filter((instance) => instance.stopped)).toHaveLength(1);
+    await pool.close();
+  });
+
+  it('should count instances under a health check towards max', async () => {
+    const provider = new FakeSandboxProvider();
+    const pool = new SandboxPool({ provider, max: 1, acquireTimeoutMs: 50 });
+    await pool.release(await pool.acquire());
+
+    const checked = pool.acquire();
+    expect(pool.stats).toEqual({ idle: 0, busy: 0, creating: 0, checking: 1 });
+    await expect(pool.acquire()).rejects.toThrow(SandboxTimeoutError);
+
+    expect(await checked).toBe(provider.instances[0]);
+    expect(provider.instances).toHaveLength(1);
+    await pool.close();
+  });
+
+  it('should reset local instances without touching the host CLI config', async () => {
+    const baseDirectory = await mkdtemp(join(tmpdir(), 'pool-local-test-'));
+    const home = join(baseDirectory, 'home');
+    const hostTranscript = join(home, '.claude', 'projects', '-work', 'session.jsonl');
+    await mkdir(dirname(hostTranscript), { recursive: true });
+    await writeFile(hostTranscript, '{}\n');
+    const originalHome = process.env['HOME'];
+    process.env['HOME'] = home;
+
+    try {
+      const pool = new SandboxPool({ provider: new LocalSandboxProvider({ baseDirectory }), healthCheck: false });
+      const sandbox = (await pool.acquire()) as LocalSandboxInstance;
+      const transcript = join(sandbox.configDirectory, 'projects', '-work', 'session.jsonl');
+      await sandbox.writeFiles([
+        { path: 'notes.txt', content: 'request data' },
+        { path: transcript, content: '{}\n' },
+      ]);
+
+      await pool.release(sandbox);
+
+      expect(pool.stats.idle).toBe(1);
+      expect(await readdir(sandbox.workingDirectory)).toEqual([]);
+      expect(existsSync(transcript)).toBe(false);
+      expect(existsSync(hostTranscript)).toBe(true);
+      await pool.close();
+    } finally {
+      process.env['HOME'] = originalHome;
+      await rm(baseDirectory, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject min greater than max', () => {
+    expect(() => new SandboxPool({ provider: new FakeSandboxProvider(), min: 3, max: 2 })).toThrow(ValidationError);
+  });
+});
+
+describe('query() with a pool', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should run successive queries on the same warm sandbox', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([result('one')]),
+        fakeClaudeRun([result('two')]),
+      ],
+    });
+    const pool = new SandboxPool({ provider, min: 1 });
+    await pool.start();
+
+    await query({ prompt: 'One', provider, apiKey: 'test-key', pool }).collect();
+    await query({ prompt: 'Two', provider, apiKey: 'test-key', pool }).collect();
+
+    const runs = provider.claudeRuns();
+    expect(runs).toHaveLength(2);
+    expect(runs[0]!.sandboxId).toBe(runs[1]!.sandboxId);
+    expect(provider.instances).toHaveLength(1);
+    expect(provider.instances[0]!.stopped).toBe(false);
+    expect(provider.snapshots.size).toBe(0);
+
+    await pool.close();
+  });
+});
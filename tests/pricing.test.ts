@@ -0,0 +1,79 @@
+/**
+ * Tests for model pricing and cost estimation
+ */
+
+import { computeCost, estimateCost, getModelPricing } from '../src/pricing.js';
+import { query } from '../src/query-generator.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { result } from './fixtures.js';
+
+const tokens = (model: string, input: number, output: number, cacheWrite = 0, cacheRead = 0) => ({
+  modelUsage: {
+    [model]: {
+      model,
+      input_tokens: input,
+      output_tokens: output,
+      cache_creation_input_tokens: cacheWrite,
+      cache_read_input_tokens: cacheRead,
+    },
+  },
+});
+
+describe('computeCost()', () => {
+  it('should price every token kind at the model rates', () => {
+    const cost = computeCost(tokens('claude-sonnet-4-20250514', 1_000_000, 100_000, 200_000, 1_000_000));
+
+    // 3 + 1.5 + 0.75 + 0.3
+    expect(cost).toBeCloseTo(5.55);
+  });
+
+  it('should keep per-model costs the CLI reported', () => {
+    const usage = tokens('claude-opus-4-20250514', 1_000_000, 0);
+    usage.modelUsage['claude-opus-4-20250514']!.cost_usd = 1;
+
+    expect(computeCost(usage)).toBe(1);
+  });
+
+  it('should price custom model IDs by family, with overrides', () => {
+    expect(getModelPricing('my-opus-finetune').input).toBe(15);
+    expect(getModelPricing('internal-model').input).toBe(3);
+
+    const pricing = {
+      'internal-model': { input: 1, output: 2, cacheWrite: 0, cacheRead: 0 },
+      haiku: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+    };
+    expect(computeCost(tokens('internal-model', 1_000_000, 0), pricing)).toBe(1);
+    expect(getModelPricing('claude-3-5-haiku-latest', pricing).input).toBe(1);
+  });
+});
+
+describe('estimateCost()', () => {
+  it('should approximate prompt tokens at four characters each', () => {
+    const estimate = estimateCost('x'.repeat(4000), { model: 'claude-opus-4-20250514' });
+
+    expect(estimate).toMatchObject({ model: 'claude-opus-4-20250514', inputTokens: 1000 });
+    expect(estimate.inputCostUsd).toBeCloseTo(0.015);
+  });
+});
+
+describe('query() pricing', () => {
+  it('should compute the cost when the CLI omits it', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([result('ok', { usage: { input_tokens: 1_000_000, output_tokens: 0 } })]),
+      ],
+    });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { model: 'claude-3-5-haiku-20241022', maxBudgetUsd: 10 },
+    });
+    const messages = await q.collect();
+
+    expect(messages.some((m) => m.type === 'result')).toBe(true);
+    expect(q.usage.total_cost_usd).toBeCloseTo(0.8);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Tests for query() against the scripted fake sandbox provider
+ */
+
+import { query } from '../src/query-generator.js';
+import { FakeSandboxProvider, fakeClaudeRun, isClaudeRun } from '../src/testing/fake-provider.js';
+import { createUserMessage } from '../src/types/messages.js';
+import { CLIExecutionError, SandboxError } from '../src/types/errors.js';
+import type { QueryResultInfo } from '../src/types/options.js';
+import { add, assistant, result, toolRequest } from './fixtures.js';
+
+describe('query() with FakeSandboxProvider', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stream scripted CLI messages between session markers', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([assistant('Paris'), result('Paris')])],
+    });
+
+    const q = query({ prompt: 'Capital of France?', provider, apiKey: 'test-key', snapshotEnabled: false });
+    const messages = await q.collect();
+
+    expect(messages.map((m) => m.type)).toEqual(['system', 'assistant', 'result', 'system']);
+    expect(await q.text()).toBe('Paris');
+
+    const [run] = provider.claudeRuns();
+    expect(run!.args[run!.args.length - 1]).toBe('Capital of France?');
+    expect(run!.env?.['ANTHROPIC_API_KEY']).toBe('test-key');
+    expect(provider.instances[0]!.stopped).toBe(true);
+  });
+
+  it('should run setup config before the onSetup hook', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([result('ok')])],
+    });
+    const order: string[] = [];
+
+    const q = query({
+      prompt: 'Go',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      setup: {
+        files: [{ path: '/vercel/sandbox/README.md', content: '# Hi' }],
+        githubRepo: { repo: 'acme/app' },
+        npmInstall: ['lodash'],
+        commands: [{ cmd: 'npm', args: ['run', 'build'] }],
+      },
+      hooks: {
+        onSetup: async (sandbox) => {
+          order.push('onSetup');
+          expect(await sandbox.readFile('/vercel/sandbox/README.md')).toBe('# Hi');
+        },
+      },
+    });
+    await q.collect();
+
+    expect(provider.fileWrites.map((w) => w.path)).toEqual(['/vercel/sandbox/README.md']);
+    const setupCommands = provider.commands
+      .filter((c) => c.cmd === 'git' || (c.cmd === 'npm' && !c.args.includes('-g')))
+      .map((c) => [c.cmd, ...c.args].join(' '));
+    expect(setupCommands).toEqual([
+      'git clone --depth 1 --branch main https://github.com/acme/app.git /vercel/sandbox/project',
+      'npm install lodash',
+      'npm run build',
+    ]);
+    expect(provider.directories.has('/vercel/sandbox/project')).toBe(true);
+    expect(order).toEqual(['onSetup']);
+  });
+
+  it('should call onSetupError and fail when a setup command fails', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [{ match: 'make', exitCode: 2, stderr: 'no rule' }],
+    });
+    const onSetupError = jest.fn(async () => {});
+
+    const q = query({
+      prompt: 'Go',
+      provider,
+      apiKey: 'test-key',
+      setup: { commands: [{ cmd: 'make' }] },
+      hooks: { onSetupError },
+    });
+
+    await expect(q.collect()).rejects.toThrow(SandboxError);
+    expect(onSetupError).toHaveBeenCalledTimes(1);
+    expect(provider.claudeRuns()).toHaveLength(0);
+    expect(provider.instances[0]!.stopped).toBe(true);
+  });
+
+  it('should run onTeardown and snapshot after a successful query', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([assistant('Done'), result('Done')])],
+    });
+    let teardownInfo: QueryResultInfo | undefined;
+
+    const q = query({
+      prompt: 'Write a file',
+      provider,
+      apiKey: 'test-key',
+      hooks: {
+        onTeardown: async (sandbox, info) => {
+          teardownInfo = info;
+          await sandbox.writeFiles([{ path: '/vercel/sandbox/out.txt', content: 'saved' }]);
+        },
+      },
+    });
+    const messages = await q.collect();
+
+    expect(teardownInfo?.success).toBe(true);
+    expect(teardownInfo?.messagesCount).toBe(4);
+    expect(q.snapshotId).toMatch(/^fake_snap_/);
+    expect(provider.snapshots.get(q.snapshotId!)?.get('/vercel/sandbox/out.txt')).toBe('saved');
+
+    const resultMessage = messages.find((m) => m.type === 'result');
+    expect(resultMessage && 'snapshotId' in resultMessage && resultMessage.snapshotId).toBe(q.snapshotId);
+  });
+
+  it('should report CLI failures to onTeardown without snapshotting', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([], { exitCode: 1, stderr: 'boom' })],
+    });
+    let teardownInfo: QueryResultInfo | undefined;
+
+    const q = query({
+      prompt: 'Fail',
+      provider,
+      apiKey: 'test-key',
+      hooks: {
+        onTeardown: async (_sandbox, info) => {
+          teardownInfo = info;
+        },
+      },
+    });
+
+    await expect(q.collect()).rejects.toThrow(CLIExecutionError);
+    expect(teardownInfo?.success).toBe(false);
+    expect(q.snapshotId).toBeNull();
+    expect(provider.snapshots.size).toBe(0);
+  });
+
+  it('should execute custom tools and feed results into the next run', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([toolRequest, result('')]),
+        fakeClaudeRun([assistant('The answer is 5'), result('The answer is 5')]),
+      ],
+    });
+
+    const q = query({
+      prompt: 'What is 2 + 3?',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { tools: [add], toolMode: 'text' },
+    });
+    const text = await q.text();
+
+    const runs = provider.claudeRuns();
+    expect(runs).toHaveLength(2);
+    expect(runs[1]!.args[runs[1]!.args.length - 1]).toContain('Tool "add" result:\n5');
+    expect(text).toContain('The answer is 5');
+  });
+
+  it('should restore from a provider snapshot', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([result('one')]), fakeClaudeRun([result('two')])],
+    });
+
+    const first = query({ prompt: 'One', provider, apiKey: 'test-key' });
+    await first.collect();
+
+    const second = query({
+      prompt: 'Two',
+      provider,
+      apiKey: 'test-key',
+      snapshotId: first.snapshotId!,
+      snapshotEnabled: false,
+    });
+    await second.collect();
+
+    // A restored sandbox skips the CLI install
+    const secondSandbox = provider.instances[1]!.sandboxId;
+    expect(provider.commands.some((c) => c.sandboxId === secondSandbox && c.cmd === 'npm')).toBe(false);
+  });
+});
+
+describe('query() with streaming input', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const inputText = (input: Record<string, unknown>) => {
+    const message = input['message'] as { content: Array<{ text: string }> };
+    return message.content.map((block) => block.text).join('');
+  };
+
+  it('should pipe every user message into one CLI session', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        {
+          match: isClaudeRun,
+          onInput: (input) => [assistant(`echo: ${inputText(input)}`), result(inputText(input))],
+        },
+      ],
+    });
+
+    async function* conversation() {
+      yield createUserMessage('first');
+      yield createUserMessage('second');
+    }
+
+    const q = query({ prompt: conversation(), provider, apiKey: 'test-key', snapshotEnabled: false });
+    expect(await q.text()).toBe('echo: firstecho: second');
+
+    const runs = provider.claudeRuns();
+    expect(runs).toHaveLength(1);
+    expect(runs[0]!.args).toEqual(expect.arrayContaining(['--input-format', 'stream-json']));
+    expect(runs[0]!.args).not.toContain('first');
+    expect(runs[0]!.stdin!.map((line) => JSON.parse(line).type)).toEqual(['user', 'user']);
+  });
+
+  it('should answer custom tool requests within the same session', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        {
+          match: isClaudeRun,
+          onInput: (input) =>
+            inputText(input).startsWith('Tool results')
+              ? [assistant('The answer is 5'), result('The answer is 5')]
+              : [toolRequest, result('')],
+        },
+      ],
+    });
+
+    async function* conversation() {
+      yield createUserMessage('What is 2 + 3?');
+    }
+
+    const q = query({
+      prompt: conversation(),
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { tools: [add], toolMode: 'text' },
+    });
+    const text = await q.text();
+
+    const [run] = provider.claudeRuns();
+    expect(run!.stdin).toHaveLength(2);
+    expect(inputText(JSON.parse(run!.stdin![1]!))).toContain('Tool "add" result:\n5');
+    expect(text).toContain('The answer is 5');
+  });
+});
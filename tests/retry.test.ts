@@ -0,0 +1,208 @@
+/**
+ * Tests for the retry policy
+ */
+
+import { query } from '../src/query-generator.js';
+import { FakeSandboxProvider, fakeClaudeRun, type RecordedCommand } from '../src/testing/fake-provider.js';
+import { SandboxPool } from '../src/sandbox/pool.js';
+import { backoffDelay, isRetryableError, type RetryInfo } from '../src/transport/retry.js';
+import { CLIExecutionError, SandboxError, SandboxTimeoutError } from '../src/types/errors.js';
+import { assistant, init, result } from './fixtures.js';
+
+const isInstall = (command: RecordedCommand) => command.cmd === 'npm' && command.args[0] === 'install';
+
+const overloaded = (messages: Array<Record<string, unknown>> = []) =>
+  fakeClaudeRun(
+    [
+      ...messages,
+      {
+        type: 'result',
+        subtype: 'error_during_execution',
+        is_error: true,
+        result: 'API Error: 529 {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}',
+      },
+    ],
+    { exitCode: 1 }
+  );
+
+const answered = () => fakeClaudeRun([assistant('Hello'), result('Hello')]);
+
+describe('backoffDelay()', () => {
+  it('should double the delay up to the maximum', () => {
+    const policy = { initialDelayMs: 100, maxDelayMs: 500, jitter: false };
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, policy))).toEqual([100, 200, 400, 500]);
+  });
+
+  it('should jitter between half and the full delay', () => {
+    expect(backoffDelay(2, { initialDelayMs: 100 }, () => 0)).toBe(100);
+    expect(backoffDelay(2, { initialDelayMs: 100 }, () => 1)).toBe(200);
+  });
+});
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { response: { status } });
+
+describe('isRetryableError()', () => {
+  it('should retry sandbox creation only on network and 429/5xx errors', () => {
+    expect(isRetryableError('sandbox_create', httpError(503))).toBe(true);
+    expect(isRetryableError('sandbox_create', httpError(429))).toBe(true);
+    expect(isRetryableError('sandbox_create', Object.assign(new Error('read'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError('sandbox_create', new TypeError('fetch failed'))).toBe(true);
+    expect(isRetryableError('sandbox_create', new SandboxError('Create failed', httpError(502)))).toBe(true);
+
+    expect(isRetryableError('sandbox_create', httpError(404))).toBe(false);
+    expect(isRetryableError('sandbox_create', httpError(402))).toBe(false);
+    expect(isRetryableError('sandbox_create', new Error('Snapshot snap_x not found'))).toBe(false);
+    expect(isRetryableError('sandbox_create', new SandboxTimeoutError(1000, undefined, 'acquire'))).toBe(false);
+    expect(isRetryableError('sandbox_create', new SandboxError('Sandbox pool is closed'))).toBe(false);
+  });
+});
+
+describe('query() with a retry policy', () => {
+  it('should re-run the CLI after an overload error and withhold the failed result', async () => {
+    const retries: RetryInfo[] = [];
+    const provider = new FakeSandboxProvider({ scripts: [overloaded(), answered()] });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { retry: { initialDelayMs: 1, onRetry: (info) => void retries.push(info) } },
+    });
+    const messages = await q.collect();
+
+    expect(provider.claudeRuns()).toHaveLength(2);
+    expect(retries).toEqual([expect.objectContaining({ operation: 'cli_run', attempt: 1 })]);
+    expect(messages.filter((m) => m.type === 'result')).toEqual([
+      expect.objectContaining({ subtype: 'success', result: 'Hello' }),
+    ]);
+  });
+
+  it('should not re-run a CLI run that already used tools', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        overloaded([
+          {
+            type: 'assistant',
+            message: {
+              role: 'assistant',
+              content: [{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'rm -rf build' } }],
+            },
+          },
+        ]),
+        answered(),
+      ],
+    });
+
+    const q = query({
+      prompt: 'Clean up',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { retry: { initialDelayMs: 1 } },
+    });
+
+    await expect(q.collect()).rejects.toThrow(CLIExecutionError);
+    expect(provider.claudeRuns()).toHaveLength(1);
+  });
+
+  it('should re-run a run that failed after only its init message, without repeating it', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [overloaded([init('cli-session')]), fakeClaudeRun([init('cli-session'), result('Hello')])],
+    });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { retry: { initialDelayMs: 1 } },
+    });
+    const messages = await q.collect();
+
+    expect(provider.claudeRuns()).toHaveLength(2);
+    expect(messages.filter((m) => m.type === 'system' && m.subtype === 'init')).toHaveLength(1);
+  });
+
+  it('should not re-run a CLI run that already delivered messages', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [overloaded([assistant('Partial')]), answered()],
+    });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { retry: { initialDelayMs: 1 } },
+    });
+
+    await expect(q.collect()).rejects.toThrow(CLIExecutionError);
+    expect(provider.claudeRuns()).toHaveLength(1);
+  });
+
+  it('should not retry a pool acquire timeout', async () => {
+    const provider = new FakeSandboxProvider();
+    const pool = new SandboxPool({ provider, max: 1, acquireTimeoutMs: 10 });
+    const held = await pool.acquire();
+    const retries: RetryInfo[] = [];
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      pool,
+      options: { retry: { initialDelayMs: 1, onRetry: (info) => void retries.push(info) } },
+    });
+
+    await expect(q.collect()).rejects.toThrow(SandboxTimeoutError);
+    expect(retries).toEqual([]);
+    await pool.release(held);
+    await pool.close();
+  });
+
+  it('should give up once the retry budget is spent', async () => {
+    const provider = new FakeSandboxProvider({ scripts: [overloaded(), overloaded(), answered()] });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { retry: { initialDelayMs: 1, budget: 1 } },
+    });
+
+    await expect(q.collect()).rejects.toThrow(CLIExecutionError);
+    expect(provider.claudeRuns()).toHaveLength(2);
+  });
+
+  it('should retry sandbox creation and CLI install network failures', async () => {
+    const retries: RetryInfo[] = [];
+    const provider = new FakeSandboxProvider({
+      scripts: [{ match: isInstall, exitCode: 1, stderr: ['npm ERR! code ECONNRESET\n'] }, answered()],
+    });
+    const create = provider.create.bind(provider);
+    jest.spyOn(provider, 'create').mockRejectedValueOnce(httpError(503)).mockImplementation(create);
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { retry: { initialDelayMs: 1, onRetry: (info) => void retries.push(info) } },
+    });
+    await q.collect();
+
+    expect(retries.map((info) => info.operation)).toEqual(['sandbox_create', 'cli_install']);
+    expect(provider.commands.filter(isInstall)).toHaveLength(2);
+  });
+
+  it('should not retry without a policy', async () => {
+    const provider = new FakeSandboxProvider({ scripts: [overloaded(), answered()] });
+
+    const q = query({ prompt: 'Hi', provider, apiKey: 'test-key', snapshotEnabled: false });
+
+    await expect(q.collect()).rejects.toThrow(CLIExecutionError);
+    expect(provider.claudeRuns()).toHaveLength(1);
+  });
+});
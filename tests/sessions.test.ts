@@ -0,0 +1,159 @@
+/**
+ * Tests for persisting and restoring CLI session transcripts
+ */
+
+import { existsSync, realpathSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { query } from '../src/query-generator.js';
+import { LocalSandboxInstance, LocalSandboxProvider } from '../src/providers/local-provider.js';
+import {
+  FileSessionStore,
+  MemorySessionStore,
+  exportTranscript,
+  importTranscript,
+  projectDirName,
+} from '../src/sessions/index.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { SandboxError, ValidationError } from '../src/types/errors.js';
+import { init, result } from './fixtures.js';
+
+const CLI_SESSION = '3c59dc04-8f9e-4b4b-9b6a-1f0e2d7c6a55';
+const TRANSCRIPT_DIR = '/home/vercel-sandbox/.claude/projects/-vercel-sandbox';
+const TRANSCRIPT = '{"type":"user","message":{"role":"user","content":"hi"}}\n';
+
+describe('FileSessionStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'session-store-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should save, load and delete transcripts', async () => {
+    const store = new FileSessionStore(join(directory, 'sessions'));
+
+    expect(await store.load(CLI_SESSION)).toBeNull();
+    await store.save(CLI_SESSION, TRANSCRIPT);
+    expect(await store.load(CLI_SESSION)).toBe(TRANSCRIPT);
+
+    await store.delete(CLI_SESSION);
+    expect(await store.load(CLI_SESSION)).toBeNull();
+  });
+
+  it('should reject session IDs that are not plain file names', async () => {
+    const store = new FileSessionStore(directory);
+
+    await expect(store.save('../escape', TRANSCRIPT)).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('projectDirName()', () => {
+  it('should derive the CLI project directory from the working directory', () => {
+    expect(projectDirName('/vercel/sandbox')).toBe('-vercel-sandbox');
+    expect(projectDirName('/home/user/my.app')).toBe('-home-user-my-app');
+  });
+});
+
+describe('transcripts with the local provider', () => {
+  let baseDirectory: string;
+
+  beforeEach(async () => {
+    baseDirectory = await mkdtemp(join(tmpdir(), 'transcript-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(baseDirectory, { recursive: true, force: true });
+  });
+
+  it('should use the instance config directory and the mapped workspace path', async () => {
+    const provider = new LocalSandboxProvider({ baseDirectory });
+    const instance = (await provider.create()) as LocalSandboxInstance;
+
+    await importTranscript(instance, CLI_SESSION, TRANSCRIPT, '/vercel/sandbox');
+
+    const project = projectDirName(realpathSync(instance.workingDirectory));
+    const path = join(instance.configDirectory, 'projects', project, `${CLI_SESSION}.jsonl`);
+    expect(instance.configDirectory.startsWith(baseDirectory)).toBe(true);
+    expect(existsSync(path)).toBe(true);
+    expect(await exportTranscript(instance, CLI_SESSION)).toBe(TRANSCRIPT);
+
+    await instance.stop();
+    expect(existsSync(instance.configDirectory)).toBe(false);
+  });
+});
+
+describe('query() session persistence', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should copy the transcript to the store at teardown', async () => {
+    const provider = new FakeSandboxProvider({
+      files: { [`${TRANSCRIPT_DIR}/${CLI_SESSION}.jsonl`]: TRANSCRIPT },
+      scripts: [
+        fakeClaudeRun([init(CLI_SESSION), result('hi', { session_id: CLI_SESSION })]),
+        { match: /find "\$\{CLAUDE_CONFIG_DIR/, stdout: [`${TRANSCRIPT_DIR}/${CLI_SESSION}.jsonl\n`] },
+      ],
+    });
+    const store = new MemorySessionStore();
+
+    const q = query({ prompt: 'hi', provider, apiKey: 'test-key', snapshotEnabled: false, sessionStore: store });
+    await q.collect();
+
+    expect(q.cliSessionId).toBe(CLI_SESSION);
+    expect(await store.load(CLI_SESSION)).toBe(TRANSCRIPT);
+  });
+
+  it('should restore the transcript into a new sandbox and resume it', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        { match: /pwd -P/, stdout: ['/vercel/sandbox\n/home/vercel-sandbox/.claude'] },
+        fakeClaudeRun([init(CLI_SESSION), result('welcome back', { session_id: CLI_SESSION })]),
+      ],
+    });
+    const store = new MemorySessionStore();
+    await store.save(CLI_SESSION, TRANSCRIPT);
+
+    const q = query({
+      prompt: 'Where were we?',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      sessionStore: store,
+      resumeSessionId: CLI_SESSION,
+    });
+    await q.collect();
+
+    expect(provider.fileWrites).toContainEqual(
+      expect.objectContaining({ path: `${TRANSCRIPT_DIR}/${CLI_SESSION}.jsonl`, content: TRANSCRIPT })
+    );
+    const [run] = provider.claudeRuns();
+    expect(run!.args).toEqual(expect.arrayContaining(['--resume', CLI_SESSION]));
+  });
+
+  it('should fail when the transcript is not in the store', async () => {
+    const provider = new FakeSandboxProvider();
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      sessionStore: new MemorySessionStore(),
+      resumeSessionId: CLI_SESSION,
+    });
+
+    await expect(q.collect()).rejects.toThrow(SandboxError);
+    expect(provider.claudeRuns()).toHaveLength(0);
+  });
+});
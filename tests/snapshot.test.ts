@@ -0,0 +1,23 @@
+/**
+ * Tests for the snapshot helpers
+ */
+
+import { FakeSandboxProvider } from '../src/testing/fake-provider.js';
+import { createCustomSandboxSnapshot, restoreSandboxSnapshot } from '../src/sandbox/snapshot.js';
+
+describe('provider snapshots', () => {
+  it('should snapshot a custom setup and restore it as a SandboxInstance', async () => {
+    const provider = new FakeSandboxProvider();
+
+    const snapshotId = await createCustomSandboxSnapshot({
+      provider,
+      installCli: false,
+      setup: async (sandbox) => {
+        await sandbox.writeFiles([{ path: `${sandbox.workingDirectory}/ready.txt`, content: 'yes' }]);
+      },
+    });
+    const sandbox = await restoreSandboxSnapshot(snapshotId, { provider });
+
+    expect((await sandbox.readFile(`${sandbox.workingDirectory}/ready.txt`))?.toString()).toBe('yes');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for wall-clock, turn and idle timeouts
+ */
+
+import { query } from '../src/query-generator.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { RunWatchdog } from '../src/transport/watchdog.js';
+import type { CommandLog, SandboxCommand } from '../src/providers/types.js';
+import { SandboxTimeoutError } from '../src/types/errors.js';
+import { createUserMessage } from '../src/types/messages.js';
+import { assistant, result } from './fixtures.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function timeoutOf(promise: Promise<unknown>): Promise<SandboxTimeoutError> {
+  const error = await promise.then(
+    () => null,
+    (caught: unknown) => caught
+  );
+  expect(error).toBeInstanceOf(SandboxTimeoutError);
+  return error as SandboxTimeoutError;
+}
+
+describe('query() timeouts', () => {
+  it('should kill a CLI that stops producing output', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([assistant('Thinking'), result('done')], { delayMs: 200 })],
+    });
+
+    const q = query({ prompt: 'Hi', provider, apiKey: 'test-key', snapshotEnabled: false, options: { idleTimeoutMs: 50 } });
+
+    const error = await timeoutOf(q.collect());
+    expect(error.phase).toBe('idle');
+    expect(error.timeoutMs).toBe(50);
+  });
+
+  it('should limit the duration of a turn that keeps producing output', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([assistant('a'), assistant('b'), assistant('c'), assistant('d'), result('done')], {
+          delayMs: 30,
+        }),
+      ],
+    });
+
+    const q = query({
+      prompt: 'Hi',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { idleTimeoutMs: 1000, turnTimeoutMs: 80 },
+    });
+
+    expect((await timeoutOf(q.collect())).phase).toBe('turn');
+  });
+
+  it('should enforce the wall-clock timeout', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([assistant('slow'), result('done')], { delayMs: 200 })],
+    });
+
+    const q = query({ prompt: 'Hi', provider, apiKey: 'test-key', snapshotEnabled: false, options: { timeout: 50 } });
+
+    expect((await timeoutOf(q.collect())).phase).toBe('total');
+  });
+
+  it('should not count time spent waiting for streamed input as idle', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        {
+          match: (command) => command.cmd === 'claude' && command.args.includes('--print'),
+          onInput: () => [assistant('ok'), result('ok')],
+        },
+      ],
+    });
+
+    async function* conversation() {
+      yield createUserMessage('first');
+      await delay(80);
+      yield createUserMessage('second');
+    }
+
+    const q = query({
+      prompt: conversation(),
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { idleTimeoutMs: 40 },
+    });
+    const messages = await q.collect();
+
+    expect(messages.filter((m) => m.type === 'result' && !m.aggregate)).toHaveLength(2);
+  });
+
+  it('should keep timing a queued turn after the turn before it finishes', async () => {
+    let turns = 0;
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        {
+          match: (command) => command.cmd === 'claude' && command.args.includes('--print'),
+          // The second queued turn never produces output
+          onInput: () => (++turns === 1 ? [assistant('ok'), result('ok')] : []),
+        },
+      ],
+    });
+
+    async function* conversation() {
+      yield createUserMessage('first');
+      yield createUserMessage('second');
+    }
+
+    const q = query({
+      prompt: conversation(),
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { idleTimeoutMs: 50 },
+    });
+
+    const error = await timeoutOf(q.collect());
+    expect(error.phase).toBe('idle');
+    expect(turns).toBe(2);
+  });
+
+  it('should remove its abort listener when a run ends', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([result('one')]), fakeClaudeRun([result('two')])],
+    });
+    const controller = new AbortController();
+    const added = jest.spyOn(controller.signal, 'addEventListener');
+    const removed = jest.spyOn(controller.signal, 'removeEventListener');
+
+    for (const prompt of ['first', 'second']) {
+      await query({
+        prompt,
+        provider,
+        apiKey: 'test-key',
+        snapshotEnabled: false,
+        options: { abortController: controller },
+      }).collect();
+    }
+
+    const listeners = added.mock.calls.filter(([type]) => type === 'abort').map(([, listener]) => listener);
+    expect(listeners.length).toBeGreaterThanOrEqual(2);
+    expect(removed.mock.calls.map(([, listener]) => listener)).toEqual(expect.arrayContaining(listeners));
+  });
+});
+
+describe('RunWatchdog', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send SIGKILL when the command ignores SIGTERM', async () => {
+    jest.useFakeTimers();
+    const signals: string[] = [];
+    const command: SandboxCommand = {
+      logs: () => (async function* (): AsyncGenerator<CommandLog> {})(),
+      wait: () => new Promise(() => {}),
+      kill: async (signal) => {
+        signals.push(signal ?? 'SIGTERM');
+      },
+    };
+    const watchdog = new RunWatchdog(command, { idleTimeoutMs: 100 });
+    watchdog.startTurn();
+    const hung = watchdog.race(new Promise(() => {}));
+    hung.catch(() => {});
+
+    await jest.advanceTimersByTimeAsync(100);
+    await expect(hung).rejects.toThrow(SandboxTimeoutError);
+    expect(signals).toEqual(['SIGTERM']);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(signals).toEqual(['SIGTERM', 'SIGKILL']);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for normalized tool_use and tool_result messages
+ */
+
+import { query } from '../src/query-generator.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { ToolActivityTracker } from '../src/transport/tool-activity.js';
+import {
+  isToolResultMessage,
+  isToolUseMessage,
+  type SDKMessage,
+} from '../src/types/messages.js';
+import { result } from './fixtures.js';
+
+const toolUse = (id: string, name: string, input: Record<string, unknown>, parent: string | null = null) => ({
+  type: 'assistant',
+  parent_tool_use_id: parent,
+  message: { role: 'assistant', content: [{ type: 'tool_use', id, name, input }] },
+});
+
+const toolResult = (id: string, content: string, parent: string | null = null, isError = false) => ({
+  type: 'user',
+  parent_tool_use_id: parent,
+  message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content, is_error: isError }] },
+});
+
+describe('ToolActivityTracker', () => {
+  it('should correlate results with their tool use and time them', () => {
+    let now = 1000;
+    const tracker = new ToolActivityTracker(() => now);
+    const base = { uuid: 'u', session_id: 's', parent_tool_use_id: null };
+
+    const [use] = tracker.events({ ...base, ...toolUse('toolu_1', 'Bash', { command: 'ls' }) } as SDKMessage);
+    now = 1250;
+    const [done] = tracker.events({ ...base, ...toolResult('toolu_1', 'a.txt') } as SDKMessage);
+
+    expect(use).toMatchObject({ type: 'tool_use', tool_use_id: 'toolu_1', name: 'Bash', input: { command: 'ls' } });
+    expect(done).toMatchObject({
+      type: 'tool_result',
+      tool_use_id: 'toolu_1',
+      name: 'Bash',
+      content: 'a.txt',
+      is_error: false,
+      duration_ms: 250,
+    });
+  });
+});
+
+describe('query() tool activity', () => {
+  it('should emit tool messages after the messages that contain them', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([
+          toolUse('toolu_task', 'Task', { prompt: 'Look around' }),
+          toolUse('toolu_sub', 'Glob', { pattern: '*' }, 'toolu_task'),
+          toolResult('toolu_sub', 'no files', 'toolu_task', true),
+          toolResult('toolu_task', 'Nothing found'),
+          result('Nothing found'),
+        ]),
+      ],
+    });
+
+    const q = query({ prompt: 'Explore', provider, apiKey: 'test-key', snapshotEnabled: false });
+    const messages = await q.collect();
+
+    const activity = messages.filter((m) => isToolUseMessage(m) || isToolResultMessage(m));
+    expect(activity.map((m) => [m.type, m.tool_use_id, m.parent_tool_use_id])).toEqual([
+      ['tool_use', 'toolu_task', null],
+      ['tool_use', 'toolu_sub', 'toolu_task'],
+      ['tool_result', 'toolu_sub', 'toolu_task'],
+      ['tool_result', 'toolu_task', null],
+    ]);
+    expect(activity[2]).toMatchObject({ name: 'Glob', is_error: true, duration_ms: expect.any(Number) });
+
+    const firstUse = messages.findIndex(isToolUseMessage);
+    expect(messages[firstUse - 1]!.type).toBe('assistant');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for tracing spans
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { query } from '../src/query-generator.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import type { Span, SpanAttributeValue, Tracer } from '../src/tracing.js';
+import { add, assistant, result } from './fixtures.js';
+
+interface RecordedSpan {
+  name: string;
+  attributes: Record<string, SpanAttributeValue>;
+  status?: { code: number; message?: string };
+  ended: boolean;
+  parent?: RecordedSpan;
+}
+
+// Tracks the active span the way OpenTelemetry's context manager does
+function recordingTracer(): Tracer & { spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  const active = new AsyncLocalStorage<RecordedSpan>();
+  const records = new WeakMap<Span, RecordedSpan>();
+
+  const startSpan: Tracer['startSpan'] = (name, options) => {
+    const recorded: RecordedSpan = { name, attributes: { ...options?.attributes }, ended: false, parent: active.getStore() };
+    spans.push(recorded);
+    const span: Span = {
+      setAttribute(key, value) {
+        recorded.attributes[key] = value;
+      },
+      recordException() {},
+      setStatus(status) {
+        recorded.status = status;
+      },
+      end() {
+        recorded.ended = true;
+      },
+    };
+    records.set(span, recorded);
+    return span;
+  };
+
+  return {
+    spans,
+    startSpan,
+    startActiveSpan(name, options, fn) {
+      const span = startSpan(name, options);
+      return active.run(records.get(span)!, () => fn(span));
+    },
+  };
+}
+
+const sonnet = { model: 'claude-sonnet-4-5' };
+const usage = { total_cost_usd: 0.012, usage: { input_tokens: 120, output_tokens: 30 } };
+
+describe('tracer option', () => {
+  it('should emit spans for each sandbox phase, CLI run and tool call', async () => {
+    const tracer = recordingTracer();
+    const provider = new FakeSandboxProvider({
+      scripts: [
+        fakeClaudeRun([assistant('```json\n{"tool": "add", "input": {"a": 2, "b": 3}}\n```', sonnet), result('', usage)]),
+        fakeClaudeRun([assistant('The answer is 5', sonnet), result('The answer is 5', usage)]),
+      ],
+    });
+
+    const q = query({
+      prompt: 'What is 2 + 3?',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: true,
+      setup: { commands: [{ cmd: 'echo', args: ['ready'] }] },
+      hooks: { onSetup: async () => {}, onTeardown: async () => {} },
+      options: { tools: [add], toolMode: 'text', tracer },
+    });
+    await q.collect();
+
+    expect(tracer.spans.map((span) => span.name)).toEqual([
+      'claude.query',
+      'sandbox.create',
+      'claude.cli.install',
+      'sandbox.setup',
+      'sandbox.hook',
+      'claude.cli.run',
+      'claude.tool',
+      'claude.cli.run',
+      'sandbox.hook',
+      'sandbox.snapshot',
+    ]);
+    expect(tracer.spans.every((span) => span.ended)).toBe(true);
+    expect(tracer.spans.every((span) => span.attributes['sandbox.id'] === q.sandboxId)).toBe(true);
+
+    const [root, ...children] = tracer.spans;
+    expect(root!.parent).toBeUndefined();
+    expect(children.every((span) => span.parent === root)).toBe(true);
+    expect(root!.attributes).toMatchObject({
+      'gen_ai.usage.input_tokens': 240,
+      'gen_ai.usage.output_tokens': 60,
+      'claude.cost_usd': 0.024,
+    });
+
+    const run = tracer.spans.find((span) => span.name === 'claude.cli.run')!;
+    expect(run.attributes).toMatchObject({
+      'gen_ai.response.model': 'claude-sonnet-4-5',
+      'gen_ai.usage.input_tokens': 120,
+      'gen_ai.usage.output_tokens': 30,
+      'claude.cost_usd': 0.012,
+      'process.exit_code': 0,
+    });
+    expect(tracer.spans.find((span) => span.name === 'claude.tool')!.attributes['gen_ai.tool.name']).toBe('add');
+    expect(tracer.spans.find((span) => span.name === 'sandbox.snapshot')!.attributes['sandbox.snapshot_id']).toBe(
+      q.snapshotId
+    );
+  });
+
+  it('should mark a failed CLI run with its exit code and error status', async () => {
+    const tracer = recordingTracer();
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([], { exitCode: 1, stderr: ['overloaded\n'] })],
+    });
+
+    const q = query({ prompt: 'Hi', provider, apiKey: 'test-key', snapshotEnabled: false, options: { tracer } });
+    await expect(q.collect()).rejects.toThrow();
+
+    const run = tracer.spans.find((span) => span.name === 'claude.cli.run')!;
+    expect(run.attributes['process.exit_code']).toBe(1);
+    expect(run.status?.code).toBe(2);
+    expect(run.ended).toBe(true);
+
+    const root = tracer.spans.find((span) => span.name === 'claude.query')!;
+    expect(run.parent).toBe(root);
+    expect(root.status?.code).toBe(2);
+    expect(root.ended).toBe(true);
+  });
+
+  it('should nest the query span under the caller\'s active span', async () => {
+    const tracer = recordingTracer();
+    const provider = new FakeSandboxProvider({ scripts: [fakeClaudeRun([assistant('Hi'), result('Hi')])] });
+
+    await tracer.startActiveSpan!('POST /api/chat', {}, () =>
+      query({ prompt: 'Hi', provider, apiKey: 'test-key', snapshotEnabled: false, options: { tracer } }).collect()
+    );
+
+    const [request, root] = tracer.spans;
+    expect(root!.name).toBe('claude.query');
+    expect(root!.parent).toBe(request);
+    expect(tracer.spans.find((span) => span.name === 'claude.cli.run')!.parent).toBe(root);
+  });
+});
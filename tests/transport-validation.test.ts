@@ -7,9 +7,17 @@
 
 import { SandboxTransport } from '../src/transport/sandbox-transport.js';
 import { ParseError } from '../src/types/errors.js';
+import type { SandboxTransportOptions } from '../src/types/options.js';
+import { validateMessage, type SchemaDrift } from '../src/types/schemas.js';
 
 // Create a test class that exposes the private enrichMessage method
 class TestableTransport extends SandboxTransport {
+  constructor(options: SandboxTransportOptions = {}) {
+    super();
+    // Normally set by connect()
+    (this as any).options = options;
+  }
+
   public testEnrichMessage(rawMessage: unknown) {
     // Access the private method via any cast (for testing only)
     return (this as any).enrichMessage(rawMessage);
@@ -101,8 +109,16 @@ describe('SandboxTransport message validation', () => {
       expect(() => transport.testEnrichMessage({ type: null })).toThrow(ParseError);
     });
 
-    it('should throw ParseError for unknown message type', () => {
-      expect(() => transport.testEnrichMessage({ type: 'unknown_type' })).toThrow(ParseError);
+    it('should deliver unknown message types as unknown messages', () => {
+      const enriched = transport.testEnrichMessage({ type: 'rate_limit_event', retry_after: 5 });
+
+      expect(enriched).toMatchObject({
+        type: 'unknown',
+        original_type: 'rate_limit_event',
+        data: { type: 'rate_limit_event', retry_after: 5 },
+        parent_tool_use_id: null,
+      });
+      expect(enriched.uuid).toBeDefined();
     });
 
     it('should add default message object for assistant without message', () => {
@@ -180,8 +196,63 @@ describe('SandboxTransport message validation', () => {
     });
   });
 
+  describe('schema drift', () => {
+    it('should report invalid and unknown messages to onSchemaDrift', () => {
+      const drifts: SchemaDrift[] = [];
+      const lenient = new TestableTransport({ onSchemaDrift: (drift) => drifts.push(drift) });
+
+      const enriched = lenient.testEnrichMessage({ type: 'result', num_turns: 'two' });
+      lenient.testEnrichMessage({ type: 'new_type' });
+
+      expect(enriched.subtype).toBe('success');
+      expect(drifts.map((d) => [d.kind, d.type])).toEqual([
+        ['invalid', 'result'],
+        ['unknown_type', 'new_type'],
+      ]);
+      expect(drifts[0]!.issues.map((issue) => issue.path)).toEqual(['subtype', 'num_turns']);
+    });
+
+    it('should not report valid messages', () => {
+      const onSchemaDrift = jest.fn();
+      const lenient = new TestableTransport({ onSchemaDrift });
+
+      lenient.testEnrichMessage({
+        type: 'assistant',
+        message: {
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'Hmm' },
+            { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls' } },
+          ],
+        },
+      });
+
+      expect(onSchemaDrift).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid and unknown messages in strict mode', () => {
+      const strict = new TestableTransport({ messageValidation: 'strict' });
+
+      expect(() => strict.testEnrichMessage({ type: 'assistant' })).toThrow(/message: /);
+      expect(() => strict.testEnrichMessage({ type: 'new_type' })).toThrow(ParseError);
+      expect(() => strict.testEnrichMessage({ type: 'result', subtype: 'success' })).not.toThrow();
+    });
+
+    it('should check content blocks', () => {
+      const issues = validateMessage({
+        type: 'user',
+        uuid: 'u',
+        session_id: 's',
+        parent_tool_use_id: null,
+        message: { role: 'user', content: [{ type: 'tool_result' }] },
+      } as { type: string });
+
+      expect(issues.length).toBeGreaterThan(0);
+    });
+  });
+
   describe('Valid message types', () => {
-    const validTypes = ['system', 'user', 'assistant', 'result', 'tool_use', 'progress', 'error'];
+    const validTypes = ['system', 'user', 'assistant', 'result', 'tool_use', 'tool_result', 'progress', 'error'];
 
     validTypes.forEach((type) => {
       it(`should accept message type: ${type}`, () => {
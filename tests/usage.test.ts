@@ -0,0 +1,140 @@
+/**
+ * Tests for usage accounting across CLI runs
+ */
+
+import { query } from '../src/query-generator.js';
+import { FakeSandboxProvider, fakeClaudeRun } from '../src/testing/fake-provider.js';
+import { type ResultMessage } from '../src/types/messages.js';
+import { addUsage, usageFromResult } from '../src/usage.js';
+import { add, assistant, result, toolRequest } from './fixtures.js';
+
+// Result as printed by the CLI, with camelCase per-model usage
+const cliResult = (text: string, costUsd: number) =>
+  result(text, {
+    num_turns: 1,
+    total_cost_usd: costUsd,
+    modelUsage: {
+      'claude-sonnet-4-5': {
+        inputTokens: 100,
+        outputTokens: 20,
+        cacheCreationInputTokens: 50,
+        cacheReadInputTokens: 400,
+        costUSD: costUsd,
+      },
+    },
+  });
+
+describe('usageFromResult()', () => {
+  it('should read the CLI per-model usage', () => {
+    const usage = usageFromResult(cliResult('ok', 0.25) as unknown as ResultMessage);
+
+    expect(usage).toMatchObject({
+      total_input_tokens: 100,
+      total_output_tokens: 20,
+      total_cache_creation_input_tokens: 50,
+      total_cache_read_input_tokens: 400,
+      total_cost_usd: 0.25,
+    });
+    expect(usage.modelUsage['claude-sonnet-4-5']).toMatchObject({ model: 'claude-sonnet-4-5', cost_usd: 0.25 });
+  });
+
+  it('should attribute raw API usage to the given model', () => {
+    const message = {
+      type: 'result',
+      subtype: 'success',
+      usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 7 },
+    } as unknown as ResultMessage;
+
+    const usage = addUsage(usageFromResult(message, 'opus'), usageFromResult(message, 'opus'));
+
+    expect(usage.modelUsage['opus']).toMatchObject({ input_tokens: 20, output_tokens: 10, cache_read_input_tokens: 14 });
+    expect(usage.total_cache_read_input_tokens).toBe(14);
+  });
+});
+
+describe('query() usage', () => {
+  it('should end a multi-run query with an aggregated result', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([toolRequest, cliResult('', 0.1)]), fakeClaudeRun([assistant('5'), cliResult('5', 0.2)])],
+    });
+
+    const q = query({
+      prompt: 'What is 2 + 3?',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { tools: [add], toolMode: 'text' },
+    });
+    const messages = await q.collect();
+
+    const final = messages.filter((m): m is ResultMessage => m.type === 'result').at(-1)!;
+    expect(final).toMatchObject({ type: 'result', subtype: 'success', result: '5', aggregate: true, num_turns: 2 });
+    expect(final.total_cost_usd).toBeCloseTo(0.3);
+    expect(final.usage).toMatchObject({
+      total_input_tokens: 200,
+      total_output_tokens: 40,
+      total_cache_creation_input_tokens: 100,
+      total_cache_read_input_tokens: 800,
+    });
+    expect(final.usage!.modelUsage['claude-sonnet-4-5']!.cost_usd).toBeCloseTo(0.3);
+    expect(final.duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should not add an aggregate to a single-run query', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([assistant('Hi'), cliResult('Hi', 0.1)])],
+    });
+
+    const q = query({ prompt: 'Hi', provider, apiKey: 'test-key', snapshotEnabled: false });
+    const messages = await q.collect();
+
+    expect(messages.filter((m) => m.type === 'result')).toHaveLength(1);
+    expect(q.usage.total_cost_usd).toBe(0.1);
+  });
+
+  it('should not count the cost of a resumed session twice', async () => {
+    // Each CLI process reports only what it spent, even when it resumes a session
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([toolRequest, cliResult('', 0.1)]), fakeClaudeRun([assistant('5'), cliResult('5', 0.2)])],
+    });
+
+    const q = query({
+      prompt: 'What is 2 + 3?',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { tools: [add], toolMode: 'text', resume: 'earlier-session' },
+    });
+    const messages = await q.collect();
+
+    expect(provider.claudeRuns()[0]!.args).toEqual(expect.arrayContaining(['--resume', 'earlier-session']));
+    const final = messages.filter((m): m is ResultMessage => m.type === 'result').at(-1)!;
+    expect(final.total_cost_usd).toBeCloseTo(0.3);
+    expect(q.usage.total_cost_usd).toBeCloseTo(0.3);
+  });
+
+  it('should update q.usage as runs report results', async () => {
+    const provider = new FakeSandboxProvider({
+      scripts: [fakeClaudeRun([toolRequest, cliResult('', 0.1)]), fakeClaudeRun([assistant('5'), cliResult('5', 0.2)])],
+    });
+
+    const q = query({
+      prompt: 'What is 2 + 3?',
+      provider,
+      apiKey: 'test-key',
+      snapshotEnabled: false,
+      options: { tools: [add], toolMode: 'text' },
+    });
+
+    const costs: number[] = [];
+    for await (const message of q) {
+      if (message.type === 'result' && !message.aggregate) {
+        costs.push(q.usage.total_cost_usd);
+      }
+    }
+
+    expect(costs[0]).toBeCloseTo(0.1);
+    expect(costs[1]).toBeCloseTo(0.3);
+    expect(q.usage.total_input_tokens).toBe(200);
+  });
+});
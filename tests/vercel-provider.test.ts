@@ -0,0 +1,65 @@
+/**
+ * Tests for the Vercel provider's stdin relay
+ */
+
+import type { Sandbox } from '@vercel/sandbox';
+import { VercelSandboxInstance } from '../src/providers/vercel-provider.js';
+
+interface RunCall {
+  cmd: string;
+  args: string[];
+  detached?: boolean;
+}
+
+function fakeSandbox() {
+  const calls: RunCall[] = [];
+  const files = new Map<string, Buffer>();
+
+  const sandbox = {
+    sandboxId: 'sbx_test',
+    writeFiles: jest.fn(async (entries: Array<{ path: string; content: Buffer }>) => {
+      for (const entry of entries) {
+        files.set(entry.path, entry.content);
+      }
+    }),
+    runCommand: jest.fn(async (cmdOrParams: string | RunCall, args: string[] = []) => {
+      const call = typeof cmdOrParams === 'string' ? { cmd: cmdOrParams, args } : cmdOrParams;
+      calls.push(call);
+      if (call.detached) {
+        return { wait: async () => ({ exitCode: 0 }), logs: async function* () {}, kill: async () => {} };
+      }
+      return { exitCode: 0, stdout: async () => '', stderr: async () => '' };
+    }),
+  };
+
+  return { sandbox: sandbox as unknown as Sandbox, calls, files };
+}
+
+describe('VercelSandboxInstance stdin relay', () => {
+  it('should write input through files rather than command arguments', async () => {
+    const { sandbox, calls, files } = fakeSandbox();
+    const instance = new VercelSandboxInstance(sandbox);
+    const command = await instance.runDetached({ cmd: 'claude', args: ['--print'], stdin: true });
+
+    const message = `${'x'.repeat(512 * 1024)}\n`;
+    await command.writeStdin!(message);
+
+    const append = calls.find((call) => call.cmd === 'bash' && call.args[1]?.includes('cat'));
+    expect(append).toBeDefined();
+    expect(append!.args.every((arg) => arg.length < 1024)).toBe(true);
+    expect(files.get(append!.args[3]!)?.toString('utf-8')).toBe(message);
+  });
+
+  it('should stop the relay with the command and remove the stdin file', async () => {
+    const { sandbox, calls } = fakeSandbox();
+    const instance = new VercelSandboxInstance(sandbox);
+    const command = await instance.runDetached({ cmd: 'claude', stdin: true });
+
+    const relay = calls.find((call) => call.detached)!;
+    expect(relay.args[1]).toContain('tail -n +1 -f --pid=$$');
+
+    await command.wait();
+
+    expect(calls.at(-1)).toEqual({ cmd: 'rm', args: ['-f', relay.args[3]] });
+  });
+});